@@ -4,11 +4,16 @@
 
 import type { AIChatConfig, ChatCompletionRequest, ChatCompletionResponse } from './types';
 import { generateChatId } from './utils';
+import { AIAbortError } from './errors';
 
 export class OpenAIAdapter {
   constructor(private config: AIChatConfig) {}
 
   async chat(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    if (request.signal?.aborted) {
+      throw new AIAbortError();
+    }
+
     // Simulate OpenAI API call (in production, use actual OpenAI SDK)
     return {
       id: generateChatId(),
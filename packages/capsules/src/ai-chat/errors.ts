@@ -8,6 +8,7 @@ export enum AIChatErrorType {
   RATE_LIMIT_ERROR = 'RATE_LIMIT_ERROR',
   INVALID_REQUEST = 'INVALID_REQUEST',
   TIMEOUT_ERROR = 'TIMEOUT_ERROR',
+  ABORT_ERROR = 'ABORT_ERROR',
   TOKEN_LIMIT_ERROR = 'TOKEN_LIMIT_ERROR',
   MODEL_ERROR = 'MODEL_ERROR',
   PROVIDER_ERROR = 'PROVIDER_ERROR',
@@ -59,6 +60,13 @@ export class AITimeoutError extends AIChatError {
   }
 }
 
+export class AIAbortError extends AIChatError {
+  constructor(message: string = 'Chat request aborted', details?: any) {
+    super(message, AIChatErrorType.ABORT_ERROR, details);
+    this.name = 'AIAbortError';
+  }
+}
+
 export class AITokenLimitError extends AIChatError {
   constructor(message: string, details?: any) {
     super(message, AIChatErrorType.TOKEN_LIMIT_ERROR, details);
@@ -2,10 +2,11 @@
  * AI Chat Capsule - Service
  */
 
-import type { AIChatConfig, ChatMessage, ChatCompletionResponse, ChatStats } from './types';
+import type { AIChatConfig, ChatMessage, ChatCompletionResponse, ChatOptions, ChatStats } from './types';
 import { createAdapter, OpenAIAdapter } from './adapters';
 import { INITIAL_STATS, DEFAULT_CONFIG, TOKEN_COSTS } from './constants';
 import { calculateCost } from './utils';
+import { AIAbortError } from './errors';
 
 export class AIChatService {
   private adapter: OpenAIAdapter | null = null;
@@ -32,7 +33,7 @@ export class AIChatService {
     this.initialized = true;
   }
 
-  async chat(message: string): Promise<ChatCompletionResponse> {
+  async chat(message: string, options: ChatOptions = {}): Promise<ChatCompletionResponse> {
     if (!this.initialized || !this.adapter) {
       await this.initialize();
     }
@@ -45,11 +46,23 @@ export class AIChatService {
 
     this.conversation.push(userMessage);
 
-    const response = await this.adapter!.chat({
-      messages: this.conversation,
-      temperature: this.config.temperature,
-      maxTokens: this.config.maxTokens,
-    });
+    let response: ChatCompletionResponse;
+    try {
+      response = await this.adapter!.chat({
+        messages: this.conversation,
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxTokens,
+        signal: options.signal,
+      });
+      if (options.signal?.aborted) {
+        throw new AIAbortError();
+      }
+    } catch (error) {
+      if (error instanceof AIAbortError) {
+        this.conversation = this.conversation.filter((m) => m !== userMessage);
+      }
+      throw error;
+    }
 
     this.conversation.push({
       role: 'assistant',
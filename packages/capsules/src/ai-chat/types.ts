@@ -28,6 +28,12 @@ export interface ChatCompletionRequest {
   maxTokens?: number;
   stream?: boolean;
   stop?: string[];
+  signal?: AbortSignal;
+}
+
+export interface ChatOptions {
+  /** Aborts the request; the unanswered message is dropped from the conversation */
+  signal?: AbortSignal;
 }
 
 export interface ChatCompletionResponse {
@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createHttpService } from '../service';
+import { HttpAbortError } from '../errors';
+import { createTimeoutSignal, sleep } from '../utils';
+
+describe('HttpService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('Cancellation', () => {
+    it('should stop waiting for a retry when the signal is aborted', async () => {
+      const fetch = vi.fn(async () =>
+        new Response('{}', { status: 503, headers: { 'content-type': 'application/json' } })
+      );
+      vi.stubGlobal('fetch', fetch);
+
+      const service = await createHttpService({ retry: { retries: 3, retryDelay: 60000 } });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(
+        service.get('https://api.example.com/orders', { signal: controller.signal })
+      ).rejects.toBeInstanceOf(HttpAbortError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject right away when the signal is already aborted', async () => {
+      vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+        init.signal?.throwIfAborted();
+        return new Response('{}', { headers: { 'content-type': 'application/json' } });
+      }));
+
+      const service = await createHttpService();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        service.get('https://api.example.com/orders', { signal: controller.signal })
+      ).rejects.toBeInstanceOf(HttpAbortError);
+    });
+  });
+
+  describe('Utils', () => {
+    it('should end sleep early when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const startTime = Date.now();
+      setTimeout(() => controller.abort(), 10);
+
+      await sleep(60000, controller.signal);
+
+      expect(Date.now() - startTime).toBeLessThan(1000);
+    });
+
+    it('should follow the parent signal until cleared', () => {
+      const parent = new AbortController();
+      const first = createTimeoutSignal(60000, parent.signal);
+      const second = createTimeoutSignal(60000, parent.signal);
+
+      second.clear();
+      parent.abort();
+
+      expect(first.signal.aborted).toBe(true);
+      expect(second.signal.aborted).toBe(false);
+      first.clear();
+    });
+  });
+});
@@ -5,7 +5,7 @@
  */
 
 import type { HttpClient, HttpRequestOptions, HttpResponse, HttpConfig } from './types';
-import { parseHttpError, HttpTimeoutError } from './errors';
+import { parseHttpError, HttpTimeoutError, HttpAbortError } from './errors';
 import {
   buildURL,
   mergeHeaders,
@@ -46,7 +46,7 @@ export class FetchAdapter implements HttpClient {
 
     // Timeout
     const timeout = options.timeout || this.config.timeout || 30000;
-    const signal = createTimeoutSignal(timeout);
+    const { signal, clear } = createTimeoutSignal(timeout, options.signal);
 
     try {
       const fetchOptions: RequestInit = {
@@ -103,9 +103,14 @@ export class FetchAdapter implements HttpClient {
       return httpResponse;
     } catch (error: any) {
       if (error.name === 'AbortError') {
+        if (options.signal?.aborted) {
+          throw new HttpAbortError('Request aborted', { url });
+        }
         throw new HttpTimeoutError('Request timeout', { timeout, url });
       }
       throw parseHttpError(error, options);
+    } finally {
+      clear();
     }
   }
 
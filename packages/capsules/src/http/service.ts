@@ -6,7 +6,7 @@
 
 import type { HttpConfig, HttpClient, HttpRequestOptions, HttpResponse, HttpStats, CachedResponse } from './types';
 import { createAdapter } from './adapters';
-import { isRetryableError, getRetryDelay } from './errors';
+import { isRetryableError, getRetryDelay, HttpAbortError } from './errors';
 import { INITIAL_STATS, DEFAULT_CONFIG, RETRY_STRATEGIES } from './constants';
 import { sleep, generateRequestId } from './utils';
 
@@ -112,6 +112,7 @@ export class HttpService {
 
         // Check if should retry
         const shouldRetry =
+          !options.signal?.aborted &&
           attempt <= maxRetries &&
           isRetryableError(error) &&
           (!retryConfig.retryCondition || retryConfig.retryCondition(error));
@@ -124,8 +125,12 @@ export class HttpService {
         const delay = getRetryDelay(error, retryConfig.retryDelay || 1000);
         this.stats.retries++;
 
-        // Wait before retry
-        await sleep(delay);
+        // Wait before retry, cut short by an abort
+        await sleep(delay, options.signal);
+
+        if (options.signal?.aborted) {
+          throw new HttpAbortError('Request aborted', { url: options.url });
+        }
       }
     }
   }
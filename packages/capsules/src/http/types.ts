@@ -82,6 +82,8 @@ export interface HttpRequestOptions {
   maxRedirects?: number;
   onUploadProgress?: (progress: ProgressEvent) => void;
   onDownloadProgress?: (progress: ProgressEvent) => void;
+  /** Aborts the request and any pending retries */
+  signal?: AbortSignal;
 }
 
 /**
@@ -302,17 +302,33 @@ export function formatDuration(ms: number): string {
 
 /**
  * Create abort signal with timeout
+ * Call `clear` once the request settles to release the timer and the
+ * listener on the caller's signal.
  */
-export function createTimeoutSignal(timeout: number): AbortSignal {
+export function createTimeoutSignal(
+  timeout: number,
+  parent?: AbortSignal
+): { signal: AbortSignal; clear: () => void } {
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+  const timeoutId = setTimeout(onAbort, timeout);
+
+  // Follow the caller's signal as well
+  if (parent?.aborted) {
+    controller.abort();
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
 
-  // Clean up timeout if signal is manually aborted
-  controller.signal.addEventListener('abort', () => {
+  const clear = () => {
     clearTimeout(timeoutId);
-  });
+    parent?.removeEventListener('abort', onAbort);
+  };
 
-  return controller.signal;
+  // Clean up if signal is aborted before the request settles
+  controller.signal.addEventListener('abort', clear, { once: true });
+
+  return { signal: controller.signal, clear };
 }
 
 /**
@@ -394,9 +410,25 @@ export function isObject(value: any): value is Record<string, any> {
 
 /**
  * Sleep for specified milliseconds
+ * Ends early when `signal` is aborted.
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
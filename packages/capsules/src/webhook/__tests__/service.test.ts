@@ -0,0 +1,46 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createWebhookService } from '../index';
+import { WebhookAbortError } from '../errors';
+
+describe('WebhookService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('Cancellation', () => {
+    it('should stop backing off when the signal is aborted', async () => {
+      const fetch = vi.fn(async () => {
+        throw new Error('connection refused');
+      });
+      vi.stubGlobal('fetch', fetch);
+
+      const service = createWebhookService({ retries: 3 });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(
+        service.send({ url: 'https://hooks.example.com/orders' }, { signal: controller.signal })
+      ).rejects.toBeInstanceOf(WebhookAbortError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(service.getStats().totalFailed).toBe(1);
+    });
+
+    it('should abort a request in flight', async () => {
+      vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+          });
+        })
+      ));
+
+      const service = createWebhookService();
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(
+        service.send({ url: 'https://hooks.example.com/orders' }, { signal: controller.signal })
+      ).rejects.toThrow('Webhook request to https://hooks.example.com/orders was aborted');
+    });
+  });
+});
@@ -12,6 +12,13 @@ export class WebhookTimeoutError extends WebhookError {
   }
 }
 
+export class WebhookAbortError extends WebhookError {
+  constructor(url: string) {
+    super(`Webhook request to ${url} was aborted`);
+    this.name = 'WebhookAbortError';
+  }
+}
+
 export class WebhookSignatureError extends WebhookError {
   constructor() {
     super('Invalid webhook signature');
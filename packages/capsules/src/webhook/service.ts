@@ -1,5 +1,5 @@
-import { WebhookConfig, WebhookPayload, WebhookResponse, WebhookStats } from './types';
-import { WebhookError, WebhookTimeoutError } from './errors';
+import { WebhookConfig, WebhookPayload, WebhookResponse, WebhookSendOptions, WebhookStats } from './types';
+import { WebhookError, WebhookTimeoutError, WebhookAbortError } from './errors';
 import { DEFAULT_WEBHOOK_CONFIG, INITIAL_STATS, DEFAULT_HEADERS } from './constants';
 import { sleep } from './utils';
 
@@ -16,14 +16,20 @@ export class WebhookService {
     // No initialization needed
   }
 
-  async send(payload: WebhookPayload): Promise<WebhookResponse> {
+  async send(payload: WebhookPayload, options: WebhookSendOptions = {}): Promise<WebhookResponse> {
     const startTime = Date.now();
     let lastError: Error | null = null;
     const maxAttempts = (this.config.retries || 3) + 1;
+    const { signal } = options;
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (signal?.aborted) {
+        this.updateStats(false, Date.now() - startTime);
+        throw new WebhookAbortError(payload.url);
+      }
+
       try {
-        const response = await this.makeRequest(payload);
+        const response = await this.makeRequest(payload, signal);
         const duration = Date.now() - startTime;
 
         this.updateStats(true, duration);
@@ -36,8 +42,14 @@ export class WebhookService {
       } catch (error) {
         lastError = error as Error;
 
+        if (error instanceof WebhookAbortError) {
+          this.updateStats(false, Date.now() - startTime);
+          throw error;
+        }
+
         if (attempt < maxAttempts) {
-          await sleep(Math.pow(2, attempt) * 1000); // Exponential backoff
+          // Exponential backoff, cut short by an abort
+          await sleep(Math.pow(2, attempt) * 1000, signal);
         }
       }
     }
@@ -49,9 +61,14 @@ export class WebhookService {
     );
   }
 
-  private async makeRequest(payload: WebhookPayload): Promise<Omit<WebhookResponse, 'duration' | 'attempt'>> {
+  private async makeRequest(
+    payload: WebhookPayload,
+    signal?: AbortSignal
+  ): Promise<Omit<WebhookResponse, 'duration' | 'attempt'>> {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), this.config.timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
       const url = new URL(payload.url);
@@ -92,11 +109,15 @@ export class WebhookService {
       };
     } catch (error: any) {
       if (error.name === 'AbortError') {
+        if (signal?.aborted) {
+          throw new WebhookAbortError(payload.url);
+        }
         throw new WebhookTimeoutError(payload.url);
       }
       throw new WebhookError(error.message);
     } finally {
       clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
@@ -20,6 +20,11 @@ export interface WebhookPayload {
   query?: Record<string, string>;
 }
 
+export interface WebhookSendOptions {
+  /** Aborts the request and any pending retries */
+  signal?: AbortSignal;
+}
+
 export interface WebhookResponse {
   success: boolean;
   statusCode: number;
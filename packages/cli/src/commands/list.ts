@@ -1,4 +1,6 @@
 import chalk from 'chalk';
+import { createDefaultRegistry } from '@capsulas/core';
+import type { Capsule } from '@capsulas/core';
 
 interface ListOptions {
   category?: string;
@@ -17,9 +19,23 @@ export async function listCapsules(options: ListOptions = {}) {
     { id: 'cache', name: 'Cache', category: 'data', desc: 'Redis/Memory caching' },
     { id: 'file-storage', name: 'File Storage', category: 'storage', desc: 'S3/local file storage' },
     { id: 'webhook', name: 'Webhook', category: 'integration', desc: 'HTTP webhooks' },
-    { id: 'websocket', name: 'WebSocket', category: 'communication', desc: 'Real-time connections' }
+    { id: 'websocket', name: 'WebSocket', category: 'communication', desc: 'Real-time connections' },
+    { id: 'core.switch', name: 'Switch', category: 'processing', desc: 'Route a value to the output matching its case' },
+    { id: 'core.map', name: 'Map', category: 'processing', desc: 'Run a flow for each item of an array' }
   ];
 
+  // Built-in core capsules plus those of plugin packages installed in the current project
+  const registry = createDefaultRegistry();
+  await registry.loadPlugins(process.cwd());
+  registry.list().forEach((capsule: Capsule) => {
+    capsules.push({
+      id: capsule.version ? `${capsule.id}@${capsule.version}` : capsule.id,
+      name: capsule.name,
+      category: capsule.category,
+      desc: capsule.description
+    });
+  });
+
   const filtered = options.category
     ? capsules.filter(c => c.category === options.category)
     : capsules;
@@ -0,0 +1,85 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import { createDefaultRegistry, FLOW_TEST_FILE_SUFFIX, runFlowTestFile } from '@capsulas/core';
+import type { FlowTestCaseResult } from '@capsulas/core';
+
+interface TestOptions {
+  update?: boolean;
+}
+
+async function findTestFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await findTestFiles(fullPath));
+    } else if (entry.name.endsWith(FLOW_TEST_FILE_SUFFIX)) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+export async function testFlows(files: string[] = [], options: TestOptions = {}) {
+  console.log(chalk.cyan.bold('\n🧪 Testing Flows\n'));
+
+  const testFiles = files.length > 0
+    ? files.map(file => path.resolve(file))
+    : await findTestFiles(process.cwd());
+
+  if (testFiles.length === 0) {
+    console.log(chalk.yellow(`No *${FLOW_TEST_FILE_SUFFIX} files found`));
+    return;
+  }
+
+  // Built-in core capsules plus plugin packages installed in the project
+  const registry = createDefaultRegistry();
+  await registry.loadPlugins(process.cwd());
+
+  let passed = 0;
+  let failed = 0;
+  let written = 0;
+
+  for (const testFile of testFiles) {
+    console.log(chalk.bold(path.relative(process.cwd(), testFile)));
+
+    try {
+      const result = await runFlowTestFile(testFile, { registry, updateSnapshots: options.update });
+
+      result.tests.forEach((test: FlowTestCaseResult) => {
+        if (test.passed) {
+          passed++;
+          const note = test.snapshotWritten ? chalk.yellow(' (snapshot written)') : '';
+          console.log(`  ${chalk.green('✓')} ${test.name} ${chalk.dim(`${test.duration}ms`)}${note}`);
+        } else {
+          failed++;
+          console.log(`  ${chalk.red('✗')} ${test.name}`);
+          test.failures.forEach((failure: string) => console.log(chalk.red(`      ${failure}`)));
+        }
+        if (test.snapshotWritten) written++;
+      });
+    } catch (error: any) {
+      failed++;
+      console.log(`  ${chalk.red('✗')} ${error.message}`);
+    }
+
+    console.log();
+  }
+
+  const summary = `Tests: ${passed} passed, ${failed} failed`;
+  console.log(failed > 0 ? chalk.red(summary) : chalk.green(summary));
+  if (written > 0) {
+    console.log(chalk.dim(`Snapshots written: ${written}`));
+  }
+  console.log();
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
@@ -15,6 +15,7 @@ import { listCapsules } from './commands/list';
 import { devServer } from './commands/dev';
 import { buildProject } from './commands/build';
 import { deployProject } from './commands/deploy';
+import { testFlows } from './commands/test';
 
 const program = new Command();
 
@@ -63,6 +64,13 @@ program
   .option('-o, --output <dir>', 'Output directory', 'dist')
   .action(buildProject);
 
+// Test command
+program
+  .command('test [files...]')
+  .description('Run flow tests (*.flowtest.json) with mocked nodes and snapshots')
+  .option('-u, --update', 'Update stored snapshots')
+  .action(testFlows);
+
 // Deploy command
 program
   .command('deploy')
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { FlowBuilder } from '../builder';
+import { executeFlow } from '../executor';
+import { defineCapsule, PORT_TYPES } from '../types';
+import { createContext } from './helpers';
+
+const add = defineCapsule({
+  name: 'Add',
+  description: 'Adds two numbers',
+  icon: '+',
+  category: 'processing',
+  inputs: [
+    { id: 'a', name: 'A', type: PORT_TYPES.NUMBER, required: true },
+    { id: 'b', name: 'B', type: PORT_TYPES.NUMBER },
+  ] as const,
+  outputs: [{ id: 'sum', name: 'Sum', type: PORT_TYPES.NUMBER }] as const,
+  execute: async ({ a, b }) => ({ sum: a + (b ?? 0) }),
+});
+
+const format = defineCapsule({
+  name: 'Format',
+  description: 'Formats a number',
+  icon: '#',
+  category: 'processing',
+  inputs: [{ id: 'value', name: 'Value', type: PORT_TYPES.NUMBER, required: true }] as const,
+  outputs: [{ id: 'text', name: 'Text', type: PORT_TYPES.STRING }] as const,
+  execute: async ({ value }) => ({ text: value.toFixed(2) }),
+});
+
+describe('defineCapsule', () => {
+  it('should type execute from as const ports', () => {
+    defineCapsule({
+      name: 'Broken',
+      description: '',
+      icon: '',
+      category: 'processing',
+      inputs: [{ id: 'n', name: 'N', type: PORT_TYPES.NUMBER, required: true }] as const,
+      outputs: [{ id: 'out', name: 'Out', type: PORT_TYPES.STRING }] as const,
+      // @ts-expect-error - a number output is returned on a string port
+      execute: async ({ n }) => ({ out: n }),
+    });
+
+    expect(add.id).toBe('add');
+  });
+
+  it('should keep untyped inputs for ports without literal ids', async () => {
+    const legacy = defineCapsule({
+      name: 'Legacy',
+      description: '',
+      icon: '',
+      category: 'processing',
+      inputs: [{ id: 'in', name: 'In', type: PORT_TYPES.ANY }],
+      outputs: [{ id: 'out', name: 'Out', type: PORT_TYPES.ANY }],
+      execute: async inputs => ({ out: inputs.anything }),
+    });
+
+    expect(await legacy.execute!({ anything: 1 })).toEqual({ out: 1 });
+  });
+});
+
+describe('FlowBuilder', () => {
+  it('should build a runnable flow', async () => {
+    const constant = defineCapsule({
+      name: 'Constant',
+      description: 'Emits its configured value',
+      icon: '=',
+      category: 'processing',
+      inputs: [] as const,
+      outputs: [{ id: 'value', name: 'Value', type: PORT_TYPES.NUMBER }] as const,
+      execute: async (_inputs, config) => ({ value: config?.value }),
+    });
+
+    const flow = new FlowBuilder({ id: 'math', name: 'Math' })
+      .node('two', constant, { config: { value: 2 } })
+      .node('three', constant, { config: { value: 3 } })
+      .node('add', add)
+      .node('format', format)
+      .connect('two', 'value', 'add', 'a')
+      .connect('three', 'value', 'add', 'b')
+      .connect('add', 'sum', 'format', 'value')
+      .build();
+
+    expect(flow.connections[2]).toMatchObject({ id: 'add.sum-format.value', color: PORT_TYPES.NUMBER.color });
+
+    const result = await executeFlow(flow, createContext());
+    expect(result.nodeResults.format).toEqual({ text: '5.00' });
+  });
+
+  it('should reject incompatible or unknown ports at compile time and runtime', () => {
+    const builder = new FlowBuilder({ id: 'math', name: 'Math' }).node('add', add).node('format', format);
+
+    // @ts-expect-error - a string output cannot feed a number input
+    builder.connect('format', 'text', 'add', 'a');
+    // @ts-expect-error - unknown port
+    expect(() => builder.connect('add', 'total', 'format', 'value')).toThrow('Output port total not found on Add');
+    // @ts-expect-error - duplicate node id
+    expect(() => builder.node('add', add)).toThrow('Node add is already in flow math');
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { computeNodeCacheKey, MemoryNodeOutputCache, stableStringify } from '../cache';
+import { executeFlow } from '../executor';
+import { ExecutionEventEmitter } from '../events';
+import { createMapCapsule } from '../map';
+import { createSubflowCapsule } from '../subflow';
+import type { Capsule } from '../types';
+import { connect, createCapsule, createContext, createFlow, node } from './helpers';
+
+function counting(name: string, execute: Capsule['execute'], extra: Partial<Capsule> = {}) {
+  const calls: string[] = [];
+  const capsule: Capsule = {
+    ...createCapsule(name, async (inputs, config, context) => {
+      calls.push(context!.nodeId);
+      return execute!(inputs, config, context);
+    }),
+    ...extra
+  };
+  return { capsule, calls };
+}
+
+describe('Memoized node outputs', () => {
+  it('should re-execute only changed nodes and their dependents', async () => {
+    const ai = counting('AI', async () => ({ out: 'summary' }));
+    const format = counting('Format', async (inputs, config) => ({ out: `${config!.prefix}${inputs.in}` }));
+    const other = counting('Other', async () => ({ out: 'other' }));
+    const cache = new MemoryNodeOutputCache();
+
+    const run = (prefix: string) => executeFlow(
+      createFlow(
+        [node('ai', ai.capsule), node('format', format.capsule, { prefix }), node('other', other.capsule)],
+        [connect('ai', 'format')]
+      ),
+      createContext({ cache })
+    );
+
+    await run('> ');
+    const second = await run('# ');
+
+    expect(ai.calls).toEqual(['ai']);
+    expect(other.calls).toEqual(['other']);
+    expect(format.calls).toEqual(['format', 'format']);
+    expect(second.nodeResults.format).toEqual({ out: '# summary' });
+    expect(second.nodeExecutions.ai).toMatchObject({ status: 'completed', cached: true, attempts: 0 });
+    expect(second.nodeExecutions.format.cached).toBeUndefined();
+  });
+
+  it('should key on inputs coming from upstream nodes', async () => {
+    let value = 1;
+    const source = counting('Source', async () => ({ out: value }), { sideEffects: true });
+    const double = counting('Double', async inputs => ({ out: inputs.in * 2 }));
+    const cache = new MemoryNodeOutputCache();
+    const flow = createFlow([node('src', source.capsule), node('double', double.capsule)], [connect('src', 'double')]);
+
+    await executeFlow(flow, createContext({ cache }));
+    await executeFlow(flow, createContext({ cache }));
+    value = 2;
+    const result = await executeFlow(flow, createContext({ cache }));
+
+    expect(source.calls).toHaveLength(3);
+    expect(double.calls).toHaveLength(2);
+    expect(result.nodeResults.double).toEqual({ out: 4 });
+  });
+
+  it('should never memoize side-effecting capsules or opted-out nodes', async () => {
+    const email = counting('Email', async () => ({ out: 'sent' }), { sideEffects: true });
+    const random = counting('Random', async () => ({ out: Math.random() }));
+    const cache = new MemoryNodeOutputCache();
+    const flow = createFlow([
+      node('email', email.capsule),
+      { ...node('random', random.capsule), policy: { memoize: false } }
+    ]);
+
+    await executeFlow(flow, createContext({ cache }));
+    await executeFlow(flow, createContext({ cache }));
+
+    expect(email.calls).toHaveLength(2);
+    expect(random.calls).toHaveLength(2);
+    expect(cache.size).toBe(0);
+  });
+
+  it('should never memoize map bodies or their items', async () => {
+    const double = counting('Double', async inputs => ({ out: inputs.in * 2 }));
+    const negate = counting('Negate', async inputs => ({ out: -inputs.in }));
+    const map = (name: string, capsule: Capsule) =>
+      createMapCapsule(createFlow([node(name, capsule)]), {
+        input: { nodeId: name, portId: 'in' },
+        output: { nodeId: name, portId: 'out' },
+      });
+    const source = createCapsule('Source', async () => ({ out: [1, 2, 3] }));
+    const cache = new MemoryNodeOutputCache();
+    const flow = createFlow(
+      [node('src', source), node('doubled', map('double', double.capsule)), node('negated', map('negate', negate.capsule))],
+      [connect('src', 'doubled', 'out', 'items'), connect('src', 'negated', 'out', 'items')]
+    );
+
+    await executeFlow(flow, createContext({ cache }));
+    const result = await executeFlow(flow, createContext({ cache }));
+
+    expect(result.nodeResults.doubled.results).toEqual([2, 4, 6]);
+    expect(result.nodeResults.negated.results).toEqual([-1, -2, -3]);
+    expect(double.calls).toHaveLength(6);
+    expect(negate.calls).toHaveLength(6);
+  });
+
+  it('should not pass the cache to subflow executions', async () => {
+    const double = counting('Double', async inputs => ({ out: inputs.in * 2 }));
+    const sub = createSubflowCapsule({ ...createFlow([node('double', double.capsule)]), id: 'inner' }, {
+      inputs: [{ id: 'in', nodeId: 'double', portId: 'in' }],
+      outputs: [{ id: 'out', nodeId: 'double', portId: 'out' }],
+    });
+    const cache = new MemoryNodeOutputCache();
+
+    const result = await executeFlow(
+      createFlow([node('src', createCapsule('Source', async () => ({ out: 2 }))), node('sub', sub)], [connect('src', 'sub')]),
+      createContext({ cache })
+    );
+
+    expect(result.nodeResults.sub).toEqual({ out: 4 });
+    expect(cache.size).toBe(1);
+  });
+
+  it('should not cache failures', async () => {
+    let fail = true;
+    const flaky = counting('Flaky', async () => {
+      if (fail) throw new Error('boom');
+      return { out: 'ok' };
+    });
+    const cache = new MemoryNodeOutputCache();
+    const flow = createFlow([node('flaky', flaky.capsule)]);
+
+    await executeFlow(flow, createContext({ cache }));
+    fail = false;
+    const result = await executeFlow(flow, createContext({ cache }));
+
+    expect(result.success).toBe(true);
+    expect(flaky.calls).toHaveLength(2);
+  });
+
+  it('should report cache hits in nodeCompleted events', async () => {
+    const pure = counting('Pure', async () => ({ out: 1 }));
+    const cache = new MemoryNodeOutputCache();
+    const flow = createFlow([node('pure', pure.capsule)]);
+    await executeFlow(flow, createContext({ cache }));
+
+    const events = new ExecutionEventEmitter();
+    const completed: any[] = [];
+    events.on('nodeCompleted', event => completed.push(event));
+    await executeFlow(flow, createContext({ cache, events }));
+
+    expect(completed[0]).toMatchObject({ nodeId: 'pure', cached: true, outputs: { out: 1 } });
+  });
+
+  it('should keep running when the cache fails', async () => {
+    const pure = counting('Pure', async () => ({ out: 1 }));
+    const warnings: string[] = [];
+    const broken = {
+      get: async () => { throw new Error('cache down'); },
+      set: async () => { throw new Error('cache down'); },
+      clear: async () => {}
+    };
+
+    const result = await executeFlow(createFlow([node('pure', pure.capsule)]), createContext({
+      cache: broken,
+      logger: { info: () => {}, error: () => {}, warn: message => warnings.push(message) }
+    }));
+
+    expect(result.success).toBe(true);
+    expect(warnings).toEqual([
+      'Output cache read failed for node pure: cache down',
+      'Output cache write failed for node pure: cache down'
+    ]);
+  });
+});
+
+describe('computeNodeCacheKey', () => {
+  const capsule = createCapsule('Pure', async () => ({}));
+
+  it('should ignore key order and change with version, config and inputs', () => {
+    const key = computeNodeCacheKey(capsule, { a: 1, b: 2 }, { in: 'x' });
+
+    expect(computeNodeCacheKey(capsule, { b: 2, a: 1 }, { in: 'x' })).toBe(key);
+    expect(computeNodeCacheKey({ ...capsule, version: '2.0.0' }, { a: 1, b: 2 }, { in: 'x' })).not.toBe(key);
+    expect(computeNodeCacheKey(capsule, { a: 1, b: 3 }, { in: 'x' })).not.toBe(key);
+    expect(computeNodeCacheKey(capsule, { a: 1, b: 2 }, { in: 'y' })).not.toBe(key);
+  });
+
+  it('should not key values that cannot be serialized', () => {
+    const cyclic: any = {};
+    cyclic.self = cyclic;
+
+    expect(computeNodeCacheKey(capsule, {}, { in: () => 1 })).toBeUndefined();
+    expect(computeNodeCacheKey(capsule, {}, { in: cyclic })).toBeUndefined();
+    expect(stableStringify({ b: [1, undefined], a: new Date(0), c: undefined })).toBe(
+      '{"a":"1970-01-01T00:00:00.000Z","b":[1,null]}'
+    );
+  });
+});
+
+describe('MemoryNodeOutputCache', () => {
+  it('should evict the least recently used entry', async () => {
+    const cache = new MemoryNodeOutputCache(2);
+    await cache.set('a', { out: 1 });
+    await cache.set('b', { out: 2 });
+    await cache.get('a');
+    await cache.set('c', { out: 3 });
+
+    expect(await cache.get('a')).toEqual({ out: 1 });
+    expect(await cache.get('b')).toBeUndefined();
+    expect(cache.size).toBe(2);
+  });
+});
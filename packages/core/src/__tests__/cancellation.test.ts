@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { executeFlow } from '../executor';
+import { ExecutionEventEmitter } from '../events';
+import { MemoryCheckpointStore } from '../checkpoint';
+import { connect, createCapsule, createContext, createFlow, node, sleep } from './helpers';
+
+const hang = createCapsule('Hang', () => new Promise(() => {}));
+const echo = createCapsule('Echo', async inputs => ({ out: inputs.in ?? 'done' }));
+
+describe('Cancellation', () => {
+  it('should cancel in-flight nodes and skip the rest when the signal aborts', async () => {
+    const controller = new AbortController();
+    const events = new ExecutionEventEmitter();
+    const checkpoints = new MemoryCheckpointStore();
+    const cancelled: string[] = [];
+    events.on('nodeCancelled', event => cancelled.push(`${event.nodeId}:${event.reason}`));
+
+    const flow = createFlow(
+      [node('fast', echo), node('slow', hang), node('after', echo)],
+      [connect('slow', 'after')]
+    );
+    setTimeout(() => controller.abort(), 20);
+
+    const result = await executeFlow(
+      flow,
+      createContext({ signal: controller.signal, events, checkpoints, executionId: 'exec-1' })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.cancelled).toBe(true);
+    expect(result.errors).toEqual([{ nodeId: 'flow', error: 'Execution cancelled' }]);
+    expect(result.nodeExecutions.fast.status).toBe('completed');
+    expect(result.nodeExecutions.slow).toMatchObject({ status: 'cancelled', error: 'Execution cancelled' });
+    expect(result.nodeExecutions.after.status).toBe('skipped');
+    expect(cancelled).toEqual(['slow:Execution cancelled']);
+    expect((await checkpoints.load('exec-1'))?.status).toBe('cancelled');
+  });
+
+  it('should cancel the execution at its deadline', async () => {
+    const started = Date.now();
+    const result = await executeFlow(
+      createFlow([node('slow', hang)]),
+      createContext({ deadline: Date.now() + 30 })
+    );
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(result.cancelled).toBe(true);
+    expect(result.nodeExecutions.slow).toMatchObject({ status: 'cancelled', error: 'Execution deadline exceeded' });
+  });
+
+  it('should pass the signal to capsules', async () => {
+    const controller = new AbortController();
+    let aborted = false;
+    const listener = createCapsule('Listener', (_inputs, _config, context) =>
+      new Promise(resolve => {
+        context!.signal.addEventListener('abort', () => {
+          aborted = true;
+          resolve({});
+        });
+        controller.abort('shutting down');
+      })
+    );
+
+    const result = await executeFlow(createFlow([node('a', listener)]), createContext({ signal: controller.signal }));
+
+    expect(aborted).toBe(true);
+    expect(result.errors).toEqual([{ nodeId: 'flow', error: 'shutting down' }]);
+  });
+
+  it('should not start any node when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    let ran = false;
+    const spy = createCapsule('Spy', async () => {
+      ran = true;
+      return {};
+    });
+
+    const result = await executeFlow(createFlow([node('a', spy)]), createContext({ signal: controller.signal }));
+
+    expect(ran).toBe(false);
+    expect(result.nodeExecutions.a.status).toBe('skipped');
+    expect(result.cancelled).toBe(true);
+  });
+
+  it('should stop retrying once cancelled', async () => {
+    const controller = new AbortController();
+    let attempts = 0;
+    const flaky = createCapsule('Flaky', async () => {
+      attempts++;
+      throw new Error('boom');
+    });
+    const flow = createFlow([{ ...node('a', flaky), policy: { retry: { retries: 5, delay: 1000 } } }]);
+
+    const pending = executeFlow(flow, createContext({ signal: controller.signal }));
+    await sleep(20);
+    controller.abort();
+    const result = await pending;
+
+    expect(attempts).toBe(1);
+    expect(result.nodeExecutions.a).toMatchObject({ status: 'cancelled', attempts: 1 });
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { executeFlow, resumeExecution } from '../executor';
+import {
+  DatabaseCheckpointStore,
+  FileCheckpointStore,
+  MemoryCheckpointStore,
+} from '../checkpoint';
+import type { CheckpointDatabase, ExecutionCheckpoint } from '../checkpoint';
+import { EnvSecretProvider } from '../secrets';
+import { connect, createCapsule, createContext, createFlow, node } from './helpers';
+
+const checkpoint: ExecutionCheckpoint = {
+  executionId: 'exec-1',
+  flowId: 'test-flow',
+  status: 'running',
+  nodeResults: { a: { out: 1 } },
+  nodeExecutions: {},
+  updatedAt: 1,
+};
+
+describe('Checkpoints', () => {
+  describe('executeFlow', () => {
+    it('should save a checkpoint after each node and at the end', async () => {
+      const checkpoints = new MemoryCheckpointStore();
+      const statuses: string[] = [];
+      const save = checkpoints.save.bind(checkpoints);
+      checkpoints.save = async cp => {
+        statuses.push(`${cp.status}:${Object.keys(cp.nodeExecutions).join(',')}`);
+        await save(cp);
+      };
+
+      const pass = createCapsule('Pass', async () => ({ out: 1 }));
+      await executeFlow(
+        createFlow([node('a', pass), node('b', pass)], [connect('a', 'b')]),
+        createContext({ checkpoints, executionId: 'exec-1' })
+      );
+
+      expect(statuses).toEqual(['running:', 'running:a', 'running:a,b', 'completed:a,b']);
+      expect((await checkpoints.load('exec-1'))?.status).toBe('completed');
+    });
+
+    it('should log failed saves and keep saving later checkpoints', async () => {
+      const checkpoints = new MemoryCheckpointStore();
+      const errors: string[] = [];
+      const save = checkpoints.save.bind(checkpoints);
+      let saves = 0;
+      checkpoints.save = async cp => {
+        if (++saves === 2) throw new Error('disk full');
+        await save(cp);
+      };
+
+      const pass = createCapsule('Pass', async () => ({ out: 1 }));
+      const result = await executeFlow(
+        createFlow([node('a', pass), node('b', pass)], [connect('a', 'b')]),
+        createContext({
+          checkpoints,
+          executionId: 'exec-1',
+          logger: { info: () => {}, warn: () => {}, error: msg => errors.push(msg) },
+        })
+      );
+
+      expect(result.success).toBe(true);
+      expect(errors).toEqual(['Failed to save checkpoint: disk full']);
+      expect(saves).toBe(4);
+      expect((await checkpoints.load('exec-1'))?.status).toBe('completed');
+    });
+
+    it('should redact secrets in saved results', async () => {
+      const checkpoints = new MemoryCheckpointStore();
+      const charge = createCapsule('Charge', async (_inputs, config) => ({ out: `key ${config?.apiKey}` }));
+
+      await executeFlow(
+        createFlow([node('charge', charge, { apiKey: { $secret: 'KEY' } })]),
+        createContext({ checkpoints, executionId: 'exec-1', secrets: new EnvSecretProvider({ KEY: 'sk-hidden' }) })
+      );
+
+      expect((await checkpoints.load('exec-1'))?.nodeResults.charge).toEqual({ out: 'key [REDACTED]' });
+    });
+  });
+
+  describe('resumeExecution', () => {
+    it('should skip completed nodes and continue from the failure', async () => {
+      const calls: string[] = [];
+      let paymentFails = true;
+
+      const charge = createCapsule('Charge', async () => {
+        calls.push('charge');
+        return { out: 'charged' };
+      });
+      const email = createCapsule('Email', async inputs => {
+        calls.push('email');
+        if (paymentFails) throw new Error('smtp down');
+        return { out: `sent:${inputs.in}` };
+      });
+
+      const checkpoints = new MemoryCheckpointStore();
+      const flow = createFlow([node('charge', charge), node('email', email)], [connect('charge', 'email')]);
+
+      const first = await executeFlow(flow, createContext({ checkpoints }));
+      expect(first.success).toBe(false);
+      expect((await checkpoints.load(first.executionId))?.status).toBe('failed');
+
+      paymentFails = false;
+      const resumed = await resumeExecution(flow, first.executionId, createContext({ checkpoints }));
+
+      expect(resumed.success).toBe(true);
+      expect(resumed.executionId).toBe(first.executionId);
+      expect(resumed.nodeResults.email).toEqual({ out: 'sent:charged' });
+      expect(calls).toEqual(['charge', 'email', 'email']);
+      expect((await checkpoints.load(first.executionId))?.status).toBe('completed');
+    });
+
+    it('should run nodes whose results were redacted again', async () => {
+      const calls: string[] = [];
+      const received: string[] = [];
+      let sendFails = true;
+      const login = createCapsule('Login', async (_inputs, config) => {
+        calls.push('login');
+        return { out: `token-${config?.apiKey}` };
+      });
+      const send = createCapsule('Send', async inputs => {
+        calls.push('send');
+        received.push(inputs.in);
+        if (sendFails) throw new Error('smtp down');
+        return { out: 'sent' };
+      });
+
+      const checkpoints = new MemoryCheckpointStore();
+      const secrets = new EnvSecretProvider({ KEY: 'sk-hidden' });
+      const flow = createFlow(
+        [node('login', login, { apiKey: { $secret: 'KEY' } }), node('send', send)],
+        [connect('login', 'send')]
+      );
+
+      const first = await executeFlow(flow, createContext({ checkpoints, secrets }));
+      expect((await checkpoints.load(first.executionId))?.redactedNodes).toEqual(['login']);
+
+      sendFails = false;
+      const resumed = await resumeExecution(flow, first.executionId, createContext({ checkpoints, secrets }));
+
+      expect(resumed.success).toBe(true);
+      expect(calls).toEqual(['login', 'send', 'login', 'send']);
+      expect(received).toEqual(['token-sk-hidden', 'token-sk-hidden']);
+    });
+
+    it('should reject unknown executions and mismatched flows', async () => {
+      const checkpoints = new MemoryCheckpointStore();
+      await checkpoints.save({ ...checkpoint, flowId: 'other-flow' });
+      const flow = createFlow([]);
+
+      await expect(resumeExecution(flow, 'missing', createContext({ checkpoints }))).rejects.toThrow(
+        'No checkpoint found'
+      );
+      await expect(resumeExecution(flow, 'exec-1', createContext({ checkpoints }))).rejects.toThrow(
+        'belongs to flow other-flow'
+      );
+      await expect(resumeExecution(flow, 'exec-1', createContext())).rejects.toThrow(
+        'without a checkpoint store'
+      );
+    });
+  });
+
+  describe('FileCheckpointStore', () => {
+    let directory: string;
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should save, load and delete checkpoints', async () => {
+      directory = await mkdtemp(join(tmpdir(), 'capsulas-checkpoints-'));
+      const store = new FileCheckpointStore(join(directory, 'nested'));
+
+      await store.save(checkpoint);
+      expect(await store.load('exec-1')).toEqual(checkpoint);
+
+      await store.delete('exec-1');
+      expect(await store.load('exec-1')).toBeNull();
+    });
+
+    it('should reject execution ids that escape the directory', async () => {
+      directory = await mkdtemp(join(tmpdir(), 'capsulas-checkpoints-'));
+      const store = new FileCheckpointStore(directory);
+
+      await expect(store.load('../secrets')).rejects.toThrow('Invalid execution id');
+    });
+  });
+
+  describe('DatabaseCheckpointStore', () => {
+    function createFakeDatabase() {
+      const statements: Array<{ sql: string; params?: any[] }> = [];
+      const rows = new Map<string, string>();
+
+      const db: CheckpointDatabase = {
+        async query(sql, params) {
+          statements.push({ sql, params });
+          const data = rows.get(params?.[0]);
+          return { rows: data ? [{ data }] : [] };
+        },
+        async executeSQL(sql, params) {
+          statements.push({ sql, params });
+          if (sql.startsWith('DELETE')) rows.delete(params?.[0]);
+          if (sql.startsWith('INSERT')) rows.set(params?.[0], params?.[3]);
+          return {};
+        },
+      };
+
+      return { db, statements };
+    }
+
+    it('should store checkpoints as JSON rows', async () => {
+      const { db, statements } = createFakeDatabase();
+      const store = new DatabaseCheckpointStore(db);
+
+      await store.save(checkpoint);
+      expect(await store.load('exec-1')).toEqual(checkpoint);
+
+      await store.delete('exec-1');
+      expect(await store.load('exec-1')).toBeNull();
+
+      expect(statements.filter(s => s.sql.startsWith('CREATE TABLE'))).toHaveLength(1);
+      expect(statements.slice(1, 5).map(s => s.sql.split(' ')[0])).toEqual(['BEGIN', 'DELETE', 'INSERT', 'COMMIT']);
+      expect(statements[2].sql).toBe('DELETE FROM capsulas_checkpoints WHERE execution_id = ?');
+    });
+
+    it('should roll back a save that fails halfway', async () => {
+      const { db, statements } = createFakeDatabase();
+      const executeSQL = db.executeSQL;
+      db.executeSQL = async (sql, params) => {
+        if (sql.startsWith('INSERT')) throw new Error('disk full');
+        return executeSQL(sql, params);
+      };
+      const store = new DatabaseCheckpointStore(db);
+
+      await expect(store.save(checkpoint)).rejects.toThrow('disk full');
+      expect(statements.map(s => s.sql.split(' ')[0])).toEqual(['CREATE', 'BEGIN', 'DELETE', 'ROLLBACK']);
+    });
+
+    it('should use the database transaction when available', async () => {
+      const { db, statements } = createFakeDatabase();
+      const executed: string[] = [];
+      db.transaction = async callback =>
+        callback({ execute: async sql => executed.push(sql.split(' ')[0]) });
+      const store = new DatabaseCheckpointStore(db);
+
+      await store.save(checkpoint);
+
+      expect(executed).toEqual(['DELETE', 'INSERT']);
+      expect(statements.map(s => s.sql.split(' ')[0])).toEqual(['CREATE']);
+    });
+
+    it('should support numbered parameters and custom tables', async () => {
+      const { db, statements } = createFakeDatabase();
+      const store = new DatabaseCheckpointStore(db, { tableName: 'runs', paramStyle: 'dollar' });
+
+      await store.load('exec-1');
+
+      expect(statements[1].sql).toBe('SELECT data FROM runs WHERE execution_id = $1');
+      expect(() => new DatabaseCheckpointStore(db, { tableName: 'runs; DROP' })).toThrow('Invalid checkpoint table');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { executeFlow } from '../executor';
+import {
+  IF_CAPSULE,
+  MERGE_CAPSULE,
+  createSwitchCapsule,
+  evaluateCondition,
+  getValueAtPath,
+} from '../control';
+import { connect, createCapsule, createContext, createFlow, node } from './helpers';
+
+const source = (value: any) => createCapsule('Source', async () => ({ out: value }));
+const tag = (label: string) => createCapsule(label, async inputs => ({ out: `${label}:${JSON.stringify(inputs.in)}` }));
+
+describe('Control capsules', () => {
+  describe('evaluateCondition', () => {
+    it('should read nested paths', () => {
+      expect(getValueAtPath({ data: { valid: true } }, 'data.valid')).toBe(true);
+      expect(getValueAtPath({ data: null }, 'data.valid')).toBeUndefined();
+      expect(getValueAtPath(5)).toBe(5);
+    });
+
+    it('should evaluate operators', () => {
+      expect(evaluateCondition({ n: 3 }, { path: 'n', operator: 'gt', value: 2 })).toBe(true);
+      expect(evaluateCondition({ n: 3 }, { path: 'n', operator: 'lte', value: 2 })).toBe(false);
+      expect(evaluateCondition('a', { operator: 'in', value: ['a', 'b'] })).toBe(true);
+      expect(evaluateCondition(null, { operator: 'exists' })).toBe(false);
+      expect(evaluateCondition(0, { operator: 'falsy' })).toBe(true);
+    });
+  });
+
+  describe('If', () => {
+    const buildFlow = (value: any, config?: Record<string, any>) =>
+      createFlow(
+        [node('src', source(value)), node('if', IF_CAPSULE, config), node('yes', tag('yes')), node('no', tag('no'))],
+        [
+          connect('src', 'if', 'out', 'value'),
+          connect('if', 'yes', 'true', 'in'),
+          connect('if', 'no', 'false', 'in'),
+        ]
+      );
+
+    it('should run only the true branch', async () => {
+      const result = await executeFlow(buildFlow({ valid: true }, {
+        condition: { path: 'valid', operator: 'equals', value: true },
+      }), createContext());
+
+      expect(result.success).toBe(true);
+      expect(result.nodeResults.yes).toEqual({ out: 'yes:{"valid":true}' });
+      expect(result.nodeResults.no).toBeUndefined();
+      expect(result.nodeExecutions.no.status).toBe('skipped');
+    });
+
+    it('should run only the false branch', async () => {
+      const result = await executeFlow(buildFlow(0), createContext());
+
+      expect(result.nodeResults.no).toEqual({ out: 'no:0' });
+      expect(result.nodeExecutions.yes.status).toBe('skipped');
+    });
+
+    it('should use the condition input when connected', async () => {
+      const flow = buildFlow('payload');
+      flow.nodes.push(node('flag', source(false)));
+      flow.connections.push(connect('flag', 'if', 'out', 'condition'));
+
+      const result = await executeFlow(flow, createContext());
+
+      expect(result.nodeExecutions.yes.status).toBe('skipped');
+      expect(result.nodeResults.no).toEqual({ out: 'no:"payload"' });
+    });
+
+    it('should skip everything downstream of a skipped node', async () => {
+      const flow = buildFlow(false);
+      flow.nodes.push(node('after-yes', tag('after')));
+      flow.connections.push(connect('yes', 'after-yes'));
+
+      const result = await executeFlow(flow, createContext());
+
+      expect(result.nodeExecutions['after-yes'].status).toBe('skipped');
+    });
+  });
+
+  describe('Switch', () => {
+    const buildFlow = (value: any) =>
+      createFlow(
+        [
+          node('src', source(value)),
+          node('switch', createSwitchCapsule(['lead', 'customer']), { path: 'kind' }),
+          node('lead', tag('lead')),
+          node('customer', tag('customer')),
+          node('other', tag('other')),
+        ],
+        [
+          connect('src', 'switch', 'out', 'value'),
+          connect('switch', 'lead', 'lead', 'in'),
+          connect('switch', 'customer', 'customer', 'in'),
+          connect('switch', 'other', 'default', 'in'),
+        ]
+      );
+
+    it('should route to the matching case', async () => {
+      const result = await executeFlow(buildFlow({ kind: 'customer' }), createContext());
+
+      expect(result.nodeExecutions.customer.status).toBe('completed');
+      expect(result.nodeExecutions.lead.status).toBe('skipped');
+      expect(result.nodeExecutions.other.status).toBe('skipped');
+    });
+
+    it('should route unmatched values to default', async () => {
+      const result = await executeFlow(buildFlow({ kind: 'partner' }), createContext());
+
+      expect(result.nodeExecutions.other.status).toBe('completed');
+      expect(result.nodeExecutions.lead.status).toBe('skipped');
+    });
+
+    it('should reject a case named default', () => {
+      expect(() => createSwitchCapsule(['default'])).toThrow('reserved');
+    });
+  });
+
+  describe('Merge', () => {
+    it('should continue with whichever branch ran', async () => {
+      const flow = createFlow(
+        [
+          node('src', source(true)),
+          node('if', IF_CAPSULE),
+          node('update', tag('update')),
+          node('insert', tag('insert')),
+          node('merge', MERGE_CAPSULE),
+          node('notify', tag('notify')),
+        ],
+        [
+          connect('src', 'if', 'out', 'value'),
+          connect('if', 'update', 'true', 'in'),
+          connect('if', 'insert', 'false', 'in'),
+          connect('update', 'merge'),
+          connect('insert', 'merge'),
+          connect('merge', 'notify', 'out', 'in'),
+        ]
+      );
+
+      const result = await executeFlow(flow, createContext());
+
+      expect(result.nodeExecutions.insert.status).toBe('skipped');
+      expect(result.nodeResults.merge).toEqual({ out: 'update:true' });
+      expect(result.nodeResults.notify).toEqual({ out: 'notify:"update:true"' });
+    });
+
+    it('should be skipped when no branch reached it', async () => {
+      const flow = createFlow(
+        [node('src', source(true)), node('if', IF_CAPSULE), node('insert', tag('insert')), node('merge', MERGE_CAPSULE)],
+        [
+          connect('src', 'if', 'out', 'value'),
+          connect('if', 'insert', 'false', 'in'),
+          connect('insert', 'merge'),
+        ]
+      );
+
+      const result = await executeFlow(flow, createContext());
+
+      expect(result.nodeExecutions.merge.status).toBe('skipped');
+    });
+  });
+
+  describe('Failures', () => {
+    it('should skip nodes downstream of a failed node', async () => {
+      const failing = createCapsule('Failing', async () => {
+        throw new Error('boom');
+      });
+
+      const result = await executeFlow(
+        createFlow([node('a', failing), node('b', tag('b'))], [connect('a', 'b')]),
+        createContext()
+      );
+
+      expect(result.nodeExecutions.a.status).toBe('failed');
+      expect(result.nodeExecutions.b.status).toBe('skipped');
+      expect(result.nodeResults.b).toBeUndefined();
+    });
+  });
+});
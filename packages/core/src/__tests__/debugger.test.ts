@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { DebugSession } from '../debugger';
+import { toFlowDocument } from '../flow-format';
+import type { DebugPause, DebugResponseMessage } from '../debugger';
+import { connect, createCapsule, createContext, createFlow, node } from './helpers';
+
+const source = createCapsule('Source', async () => ({ out: 2 }));
+const double = createCapsule('Double', async inputs => ({ out: inputs.in * 2 }));
+
+// source → double → final
+function pipeline() {
+  return createFlow(
+    [node('source', source), node('double', double), node('final', double)],
+    [connect('source', 'double'), connect('double', 'final')]
+  );
+}
+
+function nextPause(session: DebugSession): Promise<DebugPause> {
+  return new Promise(resolve => {
+    const off = session.on(event => {
+      if (event.type === 'paused') {
+        off();
+        resolve(event.pause);
+      }
+    });
+  });
+}
+
+describe('DebugSession', () => {
+  it('should pause at a node breakpoint and run with edited inputs', async () => {
+    const session = new DebugSession(pipeline(), createContext());
+    const breakpoint = session.setBreakpoint({ nodeId: 'double' });
+
+    const paused = nextPause(session);
+    const running = session.start();
+    const pause = await paused;
+
+    expect(pause).toMatchObject({ nodeId: 'double', phase: 'before', reason: 'breakpoint', breakpointId: breakpoint.id, inputs: { in: 2 } });
+    expect(session.getState()).toMatchObject({ status: 'paused', outputs: { source: { out: 2 } } });
+
+    session.setInput('in', 10);
+    session.continue();
+    const result = await running;
+
+    expect(result.nodeResults.final).toEqual({ out: 40 });
+    expect(session.status).toBe('completed');
+  });
+
+  it('should step before and after each node', async () => {
+    const session = new DebugSession(pipeline(), createContext(), { stopOnEntry: true });
+    const stops: string[] = [];
+    session.on(event => {
+      if (event.type !== 'paused') return;
+      stops.push(`${event.pause.phase} ${event.pause.nodeId}`);
+      if (event.pause.nodeId === 'double' && event.pause.phase === 'after') {
+        session.setOutput('out', 100);
+        session.continue();
+      } else {
+        queueMicrotask(() => session.step());
+      }
+    });
+
+    const result = await session.start();
+
+    expect(stops).toEqual(['before source', 'after source', 'before double', 'after double']);
+    expect(result.nodeResults.final).toEqual({ out: 200 });
+  });
+
+  it('should pause before the node a connection breakpoint feeds', async () => {
+    const session = new DebugSession(pipeline(), createContext());
+    session.setBreakpoint({ connectionId: 'double-final' });
+
+    const paused = nextPause(session);
+    const running = session.start();
+
+    expect(await paused).toMatchObject({ nodeId: 'final', reason: 'breakpoint', inputs: { in: 4 } });
+    session.continue();
+    expect((await running).success).toBe(true);
+  });
+
+  it('should cancel the execution when stopped while paused', async () => {
+    const session = new DebugSession(pipeline(), createContext());
+    session.setBreakpoint({ nodeId: 'double', phase: 'after' });
+
+    const paused = nextPause(session);
+    const running = session.start();
+    await paused;
+    session.stop();
+    const result = await running;
+
+    expect(result.cancelled).toBe(true);
+    expect(result.nodeExecutions.double).toMatchObject({ status: 'cancelled', error: 'Debug session stopped' });
+    expect(result.nodeExecutions.final.status).toBe('skipped');
+  });
+
+  it('should log failing listeners and release the context signal', async () => {
+    const errors: string[] = [];
+    const controller = new AbortController();
+    const removed: string[] = [];
+    const removeEventListener = controller.signal.removeEventListener.bind(controller.signal);
+    controller.signal.removeEventListener = (type: string, listener: any) => {
+      removed.push(type);
+      removeEventListener(type, listener);
+    };
+    const session = new DebugSession(
+      pipeline(),
+      createContext({
+        signal: controller.signal,
+        logger: { info: () => {}, warn: () => {}, error: msg => errors.push(msg) }
+      })
+    );
+    session.on(() => {
+      throw new Error('client gone');
+    });
+
+    const result = await session.start();
+
+    expect(result.success).toBe(true);
+    expect(errors).toEqual(['Debug session listener failed: client gone']);
+    expect(removed).toEqual(['abort']);
+  });
+
+  it('should reject edits and breakpoints that do not apply', async () => {
+    const session = new DebugSession(pipeline(), createContext());
+
+    expect(() => session.setBreakpoint({ nodeId: 'missing' })).toThrow('Node missing not found in flow test-flow');
+    expect(() => session.setInput('in', 1)).toThrow('Inputs can only be edited while paused before a node');
+    expect(() => session.continue()).toThrow('Cannot resume a debug session that is idle');
+  });
+});
+
+describe('Debug protocol', () => {
+  it('should serve several clients over JSON messages', async () => {
+    const session = new DebugSession(pipeline(), createContext());
+    const editor: any[] = [];
+    const repl: any[] = [];
+    const editorConnection = session.connect(message => editor.push(JSON.parse(message)));
+    const replConnection = session.connect(message => repl.push(JSON.parse(message)));
+    const request = (seq: number, command: string, args?: any) =>
+      JSON.stringify({ type: 'request', seq, command, arguments: args });
+
+    await editorConnection.receive(request(1, 'setBreakpoint', { nodeId: 'final' }));
+    const paused = nextPause(session);
+    await replConnection.receive(request(1, 'start'));
+    await paused;
+    await replConnection.receive(request(2, 'setInput', { port: 'in', value: 1 }));
+    await editorConnection.receive(request(2, 'state'));
+
+    const completed = new Promise(resolve => session.on(event => event.type === 'completed' && resolve(event.result)));
+    await editorConnection.receive(request(3, 'continue'));
+    await completed;
+    await editorConnection.receive(request(4, 'step'));
+    await editorConnection.receive('{nope');
+
+    const responses = editor.filter(m => m.type === 'response') as DebugResponseMessage[];
+    expect(responses[0]).toMatchObject({ requestSeq: 1, command: 'setBreakpoint', success: true, body: { nodeId: 'final' } });
+    expect(responses[1].body).toMatchObject({ status: 'paused', pause: { nodeId: 'final', inputs: { in: 1 } } });
+    expect(responses[3]).toMatchObject({ requestSeq: 4, success: false, message: 'Cannot resume a debug session that is completed' });
+    expect(responses[4]).toMatchObject({ success: false, message: expect.stringMatching(/^Invalid debug message/) });
+
+    const events = (messages: any[]) => messages.filter(m => m.type === 'event').map(m => m.event);
+    expect(events(editor)).toEqual(['breakpoints', 'paused', 'resumed', 'completed']);
+    expect(events(repl)).toEqual(events(editor));
+    expect(editor.find(m => m.event === 'completed').body.result.nodeResults.final).toEqual({ out: 2 });
+
+    editorConnection.close();
+    replConnection.close();
+  });
+
+  it('should report a start that fails as an event', async () => {
+    const session = new DebugSession(toFlowDocument(pipeline()), createContext());
+    const messages: any[] = [];
+    const connection = session.connect(message => messages.push(JSON.parse(message)));
+
+    const failed = new Promise(resolve => session.on(event => event.type === 'failed' && resolve(event.error)));
+    await connection.receive(JSON.stringify({ type: 'request', seq: 1, command: 'start' }));
+
+    expect(await failed).toMatch(/without a capsule registry/);
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'response', success: true }));
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'event', event: 'failed' }));
+    expect(session.getState()).toMatchObject({ status: 'failed', error: expect.stringMatching(/registry/) });
+    connection.close();
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { executeFlow } from '../executor';
+import { ExecutionEventEmitter, streamFlow } from '../events';
+import type { ExecutionEvent } from '../events';
+import { IF_CAPSULE } from '../control';
+import { toFlowDocument } from '../flow-format';
+import { createSubflowCapsule } from '../subflow';
+import { connect, createCapsule, createContext, createFlow, node } from './helpers';
+
+const source = createCapsule('Source', async () => ({ out: 1 }));
+const pass = createCapsule('Pass', async inputs => ({ out: inputs.in }));
+const failing = createCapsule('Failing', async () => {
+  throw new Error('boom');
+});
+
+describe('Execution events', () => {
+  describe('ExecutionEventEmitter', () => {
+    it('should deliver events to typed and wildcard handlers', () => {
+      const events = new ExecutionEventEmitter();
+      const typed: string[] = [];
+      const all: string[] = [];
+
+      events.on('nodeSkipped', event => typed.push(event.nodeId));
+      events.on('*', event => all.push(event.type));
+
+      events.emit({ type: 'nodeSkipped', nodeId: 'a', executionId: 'e', flowId: 'f', timestamp: 0 });
+      events.emit({ type: 'flowStarted', flowName: 'F', nodeIds: [], executionId: 'e', flowId: 'f', timestamp: 0 });
+
+      expect(typed).toEqual(['a']);
+      expect(all).toEqual(['nodeSkipped', 'flowStarted']);
+    });
+
+    it('should unsubscribe handlers', () => {
+      const events = new ExecutionEventEmitter();
+      const received: string[] = [];
+      const unsubscribe = events.on('nodeSkipped', event => received.push(event.nodeId));
+
+      unsubscribe();
+      events.emit({ type: 'nodeSkipped', nodeId: 'a', executionId: 'e', flowId: 'f', timestamp: 0 });
+
+      expect(received).toEqual([]);
+    });
+
+    it('should log failing handlers and keep delivering', () => {
+      const events = new ExecutionEventEmitter();
+      const errors: string[] = [];
+      const received: string[] = [];
+
+      events.on('nodeSkipped', () => {
+        throw new Error('handler broke');
+      });
+      events.on('nodeSkipped', event => received.push(event.nodeId));
+      events.emit(
+        { type: 'nodeSkipped', nodeId: 'a', executionId: 'e', flowId: 'f', timestamp: 0 },
+        { error: msg => errors.push(msg) }
+      );
+
+      expect(received).toEqual(['a']);
+      expect(errors).toEqual(['Execution event handler failed: handler broke']);
+    });
+  });
+
+  describe('executeFlow', () => {
+    it('should emit the lifecycle of a flow', async () => {
+      const events = new ExecutionEventEmitter();
+      const received: ExecutionEvent[] = [];
+      events.on('*', event => received.push(event));
+
+      const result = await executeFlow(
+        createFlow([node('a', source), node('b', pass)], [connect('a', 'b')]),
+        createContext({ events, executionId: 'exec-1' })
+      );
+
+      expect(result.executionId).toBe('exec-1');
+      expect(received.map(e => `${e.type}${'nodeId' in e ? `:${e.nodeId}` : ''}`)).toEqual([
+        'flowStarted',
+        'nodeStarted:a',
+        'nodeCompleted:a',
+        'nodeStarted:b',
+        'nodeCompleted:b',
+        'flowCompleted',
+      ]);
+      expect(received.every(e => e.executionId === 'exec-1')).toBe(true);
+
+      const started = received.find(e => e.type === 'nodeStarted' && e.nodeId === 'b');
+      expect(started).toMatchObject({ inputs: { in: 1 } });
+
+      const completed = received.find(e => e.type === 'nodeCompleted' && e.nodeId === 'b');
+      expect(completed).toMatchObject({ outputs: { out: 1 }, attempts: 1 });
+    });
+
+    it('should emit failed and skipped nodes', async () => {
+      const events = new ExecutionEventEmitter();
+      const received: ExecutionEvent[] = [];
+      events.on('*', event => received.push(event));
+
+      await executeFlow(
+        createFlow(
+          [node('a', failing), node('b', pass), node('src', source), node('if', IF_CAPSULE), node('no', pass)],
+          [connect('a', 'b'), connect('src', 'if', 'out', 'value'), connect('if', 'no', 'false', 'in')]
+        ),
+        createContext({ events })
+      );
+
+      expect(received.find(e => e.type === 'nodeFailed')).toMatchObject({ nodeId: 'a', error: 'boom', routed: false });
+      expect(received.filter(e => e.type === 'nodeSkipped').map(e => 'nodeId' in e && e.nodeId).sort()).toEqual([
+        'b',
+        'no',
+      ]);
+    });
+
+    it('should generate an execution id when none is given', async () => {
+      const result = await executeFlow(createFlow([node('a', source)]), createContext());
+
+      expect(result.executionId).toMatch(/^exec_/);
+    });
+  });
+
+  describe('streamFlow', () => {
+    it('should iterate events and return the result', async () => {
+      const forwarded = new ExecutionEventEmitter();
+      const forwardedTypes: string[] = [];
+      forwarded.on('*', event => forwardedTypes.push(event.type));
+
+      const stream = streamFlow(createFlow([node('a', source)]), createContext({ events: forwarded }));
+      const types: string[] = [];
+
+      let step = await stream.next();
+      while (!step.done) {
+        types.push(step.value.type);
+        step = await stream.next();
+      }
+
+      expect(types).toEqual(['flowStarted', 'nodeStarted', 'nodeCompleted', 'flowCompleted']);
+      expect(forwardedTypes).toEqual(types);
+      expect(step.value.success).toBe(true);
+    });
+
+    it('should only yield events of its own execution', async () => {
+      const inner = { ...createFlow([node('x', pass)]), id: 'inner' };
+      const sub = createSubflowCapsule(inner, {
+        inputs: [{ id: 'in', nodeId: 'x', portId: 'in' }],
+        outputs: [{ id: 'out', nodeId: 'x', portId: 'out' }],
+      });
+      const forwarded = new ExecutionEventEmitter();
+      const forwardedIds = new Set<string>();
+      forwarded.on('*', event => forwardedIds.add(event.executionId));
+
+      const stream = streamFlow(
+        createFlow([node('a', source), node('sub', sub)], [connect('a', 'sub')]),
+        createContext({ events: forwarded })
+      );
+      const yieldedIds = new Set<string>();
+      let step = await stream.next();
+      while (!step.done) {
+        yieldedIds.add(step.value.executionId);
+        step = await stream.next();
+      }
+
+      expect(step.value.success).toBe(true);
+      expect(yieldedIds.size).toBe(1);
+      expect(forwardedIds.size).toBe(2);
+    });
+
+    it('should throw from the iterator when the execution cannot start', async () => {
+      const stream = streamFlow(toFlowDocument(createFlow([node('a', source)])), createContext());
+
+      await expect(stream.next()).rejects.toThrow('without a capsule registry');
+    });
+  });
+});
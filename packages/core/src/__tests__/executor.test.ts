@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { executeFlow, getExecutionOrder } from '../executor';
+import { defineCapsule, PORT_TYPES } from '../types';
+import { connect, createCapsule, createContext, createFlow, node, sleep } from './helpers';
+
+describe('executeFlow', () => {
+  describe('Data Flow', () => {
+    it('should pass outputs to connected inputs', async () => {
+      const source = createCapsule('Source', async () => ({ out: 2 }));
+      const double = createCapsule('Double', async inputs => ({ out: inputs.in * 2 }));
+
+      const result = await executeFlow(
+        createFlow([node('a', source), node('b', double)], [connect('a', 'b')]),
+        createContext()
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.nodeResults.b).toEqual({ out: 4 });
+    });
+
+    it('should record node errors and keep executing', async () => {
+      const failing = createCapsule('Failing', async () => {
+        throw new Error('boom');
+      });
+      const ok = createCapsule('Ok', async () => ({ out: 1 }));
+
+      const result = await executeFlow(
+        createFlow([node('a', failing), node('b', ok)]),
+        createContext()
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([{ nodeId: 'a', error: 'boom' }]);
+      expect(result.nodeResults.b).toEqual({ out: 1 });
+      expect(result.nodeExecutions.a.status).toBe('failed');
+    });
+
+    it('should report circular dependencies as a flow error', async () => {
+      const pass = createCapsule('Pass', async inputs => ({ out: inputs.in }));
+
+      const result = await executeFlow(
+        createFlow([node('a', pass), node('b', pass)], [connect('a', 'b'), connect('b', 'a')]),
+        createContext()
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0].nodeId).toBe('flow');
+    });
+  });
+
+  describe('Concurrency', () => {
+    it('should run independent nodes concurrently', async () => {
+      let active = 0;
+      let peak = 0;
+      const slow = createCapsule('Slow', async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await sleep(20);
+        active--;
+        return { out: true };
+      });
+
+      const result = await executeFlow(
+        createFlow([node('a', slow), node('b', slow), node('c', slow)]),
+        createContext()
+      );
+
+      expect(result.success).toBe(true);
+      expect(peak).toBe(3);
+    });
+
+    it('should respect maxConcurrency', async () => {
+      let active = 0;
+      let peak = 0;
+      const slow = createCapsule('Slow', async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await sleep(10);
+        active--;
+        return { out: true };
+      });
+
+      await executeFlow(
+        createFlow([node('a', slow), node('b', slow), node('c', slow), node('d', slow)]),
+        createContext({ maxConcurrency: 2 })
+      );
+
+      expect(peak).toBe(2);
+    });
+
+    it('should wait for every upstream node before starting a node', async () => {
+      const fast = createCapsule('Fast', async () => ({ out: 'fast' }));
+      const slow = createCapsule('Slow', async () => {
+        await sleep(20);
+        return { out: 'slow' };
+      });
+      const merge = defineCapsule({
+        name: 'Merge',
+        description: 'Merge test capsule',
+        icon: '🧪',
+        category: 'processing',
+        inputs: [
+          { id: 'left', name: 'Left', type: PORT_TYPES.ANY },
+          { id: 'right', name: 'Right', type: PORT_TYPES.ANY },
+        ],
+        outputs: [{ id: 'out', name: 'Out', type: PORT_TYPES.ANY }],
+        execute: async inputs => ({ out: `${inputs.left}+${inputs.right}` }),
+      });
+
+      const result = await executeFlow(
+        createFlow(
+          [node('fast', fast), node('slow', slow), node('merge', merge)],
+          [connect('fast', 'merge', 'out', 'left'), connect('slow', 'merge', 'out', 'right')]
+        ),
+        createContext()
+      );
+
+      expect(result.nodeResults.merge).toEqual({ out: 'fast+slow' });
+      expect(result.nodeExecutions.merge.startTime).toBeGreaterThanOrEqual(
+        result.nodeExecutions.slow.endTime
+      );
+    });
+
+    it('should produce results in topological order regardless of finish order', async () => {
+      const slow = createCapsule('Slow', async () => {
+        await sleep(20);
+        return { out: 'slow' };
+      });
+      const fast = createCapsule('Fast', async () => ({ out: 'fast' }));
+
+      const flow = createFlow([node('slow', slow), node('fast', fast)]);
+      const result = await executeFlow(flow, createContext());
+
+      expect(Object.keys(result.nodeResults)).toEqual(getExecutionOrder(flow));
+      expect(Object.keys(result.nodeExecutions)).toEqual(getExecutionOrder(flow));
+    });
+
+    it('should report start and end time for each node', async () => {
+      const slow = createCapsule('Slow', async () => {
+        await sleep(10);
+        return { out: true };
+      });
+
+      const result = await executeFlow(createFlow([node('a', slow)]), createContext());
+      const execution = result.nodeExecutions.a;
+
+      expect(execution.status).toBe('completed');
+      expect(execution.endTime).toBeGreaterThanOrEqual(execution.startTime);
+      expect(execution.duration).toBe(execution.endTime - execution.startTime);
+    });
+
+    it('should reject an invalid maxConcurrency', async () => {
+      const ok = createCapsule('Ok', async () => ({ out: 1 }));
+
+      const result = await executeFlow(
+        createFlow([node('a', ok)]),
+        createContext({ maxConcurrency: 0 })
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0].error).toContain('maxConcurrency');
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ExpressionError,
+  checkExpression,
+  evaluateExpression,
+  findTemplates,
+  parseExpression,
+  resolveTemplates,
+} from '../expressions';
+import type { ExpressionScope } from '../expressions';
+import { executeFlow } from '../executor';
+import { validateFlow } from '../validator';
+import { PORT_TYPES, defineCapsule } from '../types';
+import { connect, createCapsule, createContext, createFlow, node } from './helpers';
+
+const scope: ExpressionScope = {
+  env: { API_KEY: 'secret', PORT: '8080' },
+  variables: { tenant: 'acme', retries: 3, flags: { beta: true } },
+  nodes: { 'validator-1': { output: { data: { email: 'ada@example.com', tags: ['a', 'b'] } } } },
+};
+
+describe('Expressions', () => {
+  describe('evaluateExpression', () => {
+    it('should resolve references', () => {
+      expect(evaluateExpression('env.API_KEY', scope)).toBe('secret');
+      expect(evaluateExpression('variables.flags.beta', scope)).toBe(true);
+      expect(evaluateExpression('nodes.validator-1.output.data.email', scope)).toBe('ada@example.com');
+      expect(evaluateExpression('nodes["validator-1"].output.data.tags[1]', scope)).toBe('b');
+      expect(evaluateExpression('nodes.validator-1.output.data.tags.length', scope)).toBe(2);
+    });
+
+    it('should evaluate operators', () => {
+      expect(evaluateExpression('variables.retries * 2 + 1', scope)).toBe(7);
+      expect(evaluateExpression('(variables.retries - 1) % 2', scope)).toBe(0);
+      expect(evaluateExpression('"t-" + variables.tenant', scope)).toBe('t-acme');
+      expect(evaluateExpression('variables.retries >= 3 && !variables.flags.alpha', scope)).toBe(true);
+      expect(evaluateExpression('variables.tenant == "acme" ? "yes" : "no"', scope)).toBe('yes');
+      expect(evaluateExpression('variables.flags.missing ?? "default"', scope)).toBe('default');
+      expect(evaluateExpression('-variables.retries', scope)).toBe(-3);
+    });
+
+    it('should report unknown references', () => {
+      expect(() => evaluateExpression('env.MISSING', scope)).toThrow('Unknown reference "env.MISSING"');
+      expect(() => evaluateExpression('process.env', scope)).toThrow('Unknown reference "process"');
+      expect(() => evaluateExpression('nodes.other.output', scope)).toThrow(ExpressionError);
+    });
+
+    it('should report type errors', () => {
+      expect(() => evaluateExpression('variables.tenant * 2', scope)).toThrow('expects numbers');
+      expect(() => evaluateExpression('variables.tenant < 2', scope)).toThrow('cannot compare');
+    });
+
+    it('should be sandboxed', () => {
+      expect(() => evaluateExpression('variables.constructor', scope)).toThrow('not allowed');
+      expect(() => evaluateExpression('variables.__proto__', scope)).toThrow('not allowed');
+      expect(() => parseExpression('variables.tenant.toUpperCase()')).toThrow(ExpressionError);
+      expect(evaluateExpression('variables.tenant.toUpperCase', scope)).toBeUndefined();
+    });
+
+    it('should report syntax errors', () => {
+      expect(() => parseExpression('')).toThrow('Empty expression');
+      expect(() => parseExpression('1 +')).toThrow('Unexpected end');
+      expect(() => parseExpression('"open')).toThrow('Unterminated string');
+      expect(() => parseExpression('a.')).toThrow('Expected property name');
+      expect(() => parseExpression('a[b]')).toThrow('literal keys');
+    });
+  });
+
+  describe('resolveTemplates', () => {
+    it('should keep the type of standalone templates', () => {
+      expect(resolveTemplates('{{ variables.retries }}', scope)).toBe(3);
+      expect(resolveTemplates('{{ variables.flags }}', scope)).toEqual({ beta: true });
+    });
+
+    it('should interpolate templates inside text', () => {
+      expect(resolveTemplates('Bearer {{ env.API_KEY }} for {{ variables.tenant }}', scope)).toBe(
+        'Bearer secret for acme'
+      );
+    });
+
+    it('should resolve nested config values', () => {
+      expect(
+        resolveTemplates({ headers: { Authorization: 'Bearer {{ env.API_KEY }}' }, ports: ['{{ env.PORT }}', 80] }, scope)
+      ).toEqual({ headers: { Authorization: 'Bearer secret' }, ports: ['8080', 80] });
+    });
+
+    it('should list templates with their location', () => {
+      expect(findTemplates({ a: { b: 'x {{ env.A }} {{ env.B }}' }, c: ['{{ variables.c }}'] })).toEqual([
+        { location: 'a.b', expression: 'env.A', standalone: false },
+        { location: 'a.b', expression: 'env.B', standalone: false },
+        { location: 'c.0', expression: 'variables.c', standalone: true },
+      ]);
+    });
+  });
+
+  describe('checkExpression', () => {
+    it('should infer types from references', () => {
+      const resolve = () => 'string' as const;
+
+      expect(checkExpression('env.A + 1', resolve)).toEqual([]);
+      expect(checkExpression('env.A * 2', resolve)).toEqual(['Operator "*" expects numbers, got string']);
+      expect(checkExpression('1 +', resolve)[0]).toContain('Unexpected end');
+    });
+  });
+
+  describe('Flow integration', () => {
+    const send = defineCapsule({
+      name: 'Send',
+      description: 'Echo config',
+      icon: '🧪',
+      category: 'communication',
+      inputs: [{ id: 'in', name: 'In', type: PORT_TYPES.ANY }],
+      outputs: [{ id: 'out', name: 'Out', type: PORT_TYPES.ANY }],
+      execute: async (_inputs, config) => ({ out: config }),
+    });
+    const source = defineCapsule({
+      name: 'Source',
+      description: 'Emit a contact',
+      icon: '🧪',
+      category: 'data',
+      inputs: [],
+      outputs: [
+        { id: 'data', name: 'Data', type: PORT_TYPES.OBJECT },
+        { id: 'count', name: 'Count', type: PORT_TYPES.NUMBER },
+      ],
+      execute: async () => ({ data: { email: 'ada@example.com' }, count: 2 }),
+    });
+
+    it('should resolve node config at execution time', async () => {
+      const flow = createFlow(
+        [
+          node('src', source),
+          node('send', send, {
+            apiKey: '{{ env.API_KEY }}',
+            to: '{{ nodes.src.output.data.email }}',
+            tenant: 'tenant-{{ variables.tenant }}',
+          }),
+        ],
+        [connect('src', 'send', 'data', 'in')]
+      );
+
+      const result = await executeFlow(
+        flow,
+        createContext({ env: { API_KEY: 'k' }, variables: { tenant: 'acme' } })
+      );
+
+      expect(result.nodeResults.send.out).toEqual({ apiKey: 'k', to: 'ada@example.com', tenant: 'tenant-acme' });
+    });
+
+    it('should fail the node on an unknown reference', async () => {
+      const flow = createFlow([node('send', send, { apiKey: '{{ env.MISSING }}' })]);
+
+      const result = await executeFlow(flow, createContext());
+
+      expect(result.errors?.[0].error).toBe('Unknown reference "env.MISSING" in "{{ env.MISSING }}"');
+    });
+
+    it('should report template problems in validateFlow', () => {
+      const other = createCapsule('Other', async () => ({ out: 1 }));
+      const nodes = [
+        node('src', source),
+        node('other', other),
+        node('send', send, {
+          a: '{{ env.MISSING }}',
+          b: '{{ nodes.other.output.out }}',
+          c: '{{ nodes.src.output.nope }}',
+          d: '{{ nodes.src.output.count * 2 }}',
+          e: '{{ nodes.src.output.data - 1 }}',
+          f: '{{ secrets.KEY }}',
+          g: '{{ variables.tenant }}',
+        }),
+      ];
+
+      const { valid, errors } = validateFlow(nodes, [connect('src', 'send', 'data', 'in')], {
+        env: { API_KEY: 'k' },
+        variables: {},
+      });
+
+      expect(valid).toBe(false);
+      expect(errors).toEqual([
+        'Node Send: config.a: Unknown reference "env.MISSING"',
+        'Node Send: config.b: "nodes.other" is not upstream of send and may not have run',
+        'Node Send: config.c: Unknown output port "nope" on Source',
+        'Node Send: config.e: Operator "-" expects numbers, got object',
+        'Node Send: config.f: Unknown reference "secrets", expected env, variables or nodes',
+        'Node Send: config.g: Unknown reference "variables.tenant"',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  FLOW_FORMAT_VERSION,
+  FLOW_SCHEMA,
+  FlowFormatError,
+  loadFlow,
+  parseCapsuleRef,
+  saveFlow,
+} from '../flow-format';
+import { validateSchema } from '../schema';
+import { connect, createCapsule, createFlow, node } from './helpers';
+
+const legacyFlow = {
+  id: 'legacy',
+  name: 'Legacy',
+  nodes: [
+    { id: 'a', capsule: { id: 'webhook', name: 'Webhook', icon: '⌘' }, position: { x: 0, y: 0 } },
+    { id: 'b', capsule: { id: 'http', version: '1.2.0' }, position: { x: 1, y: 0 }, config: { url: 'x' } },
+  ],
+  connections: [
+    { id: 'c1', from: { nodeId: 'a', portId: 'data' }, to: { nodeId: 'b', portId: 'body' } },
+  ],
+};
+
+describe('Flow file format', () => {
+  it('should migrate unversioned files to the current format', () => {
+    const document = loadFlow(JSON.stringify(legacyFlow));
+
+    expect(document.formatVersion).toBe(FLOW_FORMAT_VERSION);
+    expect(document.nodes.map(n => n.capsule)).toEqual(['webhook', 'http@1.2.0']);
+    expect(document.connections[0]).toEqual({
+      id: 'c1',
+      fromNode: 'a',
+      fromPort: 'data',
+      toNode: 'b',
+      toPort: 'body',
+    });
+  });
+
+  it('should report schema violations with their paths', () => {
+    const invalid = {
+      formatVersion: 1,
+      id: 'bad',
+      name: 'Bad',
+      nodes: [{ id: 'a', capsule: 'http', extra: true }, { id: 'a', capsule: 'http' }],
+      connections: [{ id: 'c1', fromNode: 'a' }],
+    };
+
+    try {
+      loadFlow(invalid);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(FlowFormatError);
+      const paths = (error as FlowFormatError).violations.map(v => v.path);
+      expect(paths).toContain('$.nodes[0].extra');
+      expect(paths).toContain('$.nodes[1].id');
+      expect(paths).toContain('$.connections[0].toNode');
+    }
+  });
+
+  it('should reject files from a newer format version', () => {
+    expect(() => loadFlow({ ...legacyFlow, formatVersion: FLOW_FORMAT_VERSION + 1 })).toThrow(
+      /newer than the supported version/
+    );
+  });
+
+  it('should save with a stable key order', () => {
+    const capsule = { ...createCapsule('Echo', async inputs => ({ out: inputs.in })), id: 'echo', version: '2.0.0' };
+    const flow = createFlow([node('b', capsule, { z: 1, a: 2 }), node('a', capsule)], [connect('b', 'a')]);
+
+    const saved = saveFlow(flow);
+    const reloaded = loadFlow(saved);
+
+    expect(saved.endsWith('\n')).toBe(true);
+    expect(Object.keys(JSON.parse(saved))).toEqual(['formatVersion', 'id', 'name', 'nodes', 'connections']);
+    expect(Object.keys(reloaded.nodes[0].config!)).toEqual(['a', 'z']);
+    expect(reloaded.nodes[0].capsule).toBe('echo@2.0.0');
+    expect(saveFlow(reloaded)).toBe(saved);
+  });
+
+  it('should parse capsule references', () => {
+    expect(parseCapsuleRef('http@^1.0.0')).toEqual({ id: 'http', version: '^1.0.0' });
+    expect(parseCapsuleRef('@acme/crm')).toEqual({ id: '@acme/crm' });
+    expect(parseCapsuleRef('@acme/crm@1.0.0')).toEqual({ id: '@acme/crm', version: '1.0.0' });
+  });
+
+  it('should publish the same schema it validates with', () => {
+    const published = JSON.parse(readFileSync(join(__dirname, '../../schema/flow.schema.json'), 'utf-8'));
+    expect(published).toEqual(FLOW_SCHEMA);
+  });
+});
+
+describe('validateSchema', () => {
+  it('should validate nested values against a schema', () => {
+    const schema = {
+      type: 'object' as const,
+      required: ['name'],
+      properties: {
+        name: { type: 'string' as const, minLength: 1 },
+        tags: { type: 'array' as const, items: { type: 'string' as const } },
+      },
+    };
+
+    expect(validateSchema({ name: 'ok', tags: ['a'] }, schema)).toEqual([]);
+    expect(validateSchema({ tags: ['a', 2] }, schema).map(v => v.path)).toEqual(['$.name', '$.tags[1]']);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Shared builders for core tests
+ */
+
+import { defineCapsule, PORT_TYPES } from '../types';
+import type { Capsule, Connection, ExecutionContext, Flow, Node } from '../types';
+
+export const silentLogger = {
+  info: () => {},
+  error: () => {},
+  warn: () => {},
+};
+
+export function createContext(overrides: Partial<ExecutionContext> = {}): ExecutionContext {
+  return {
+    flowId: 'test-flow',
+    variables: {},
+    env: {},
+    logger: silentLogger,
+    ...overrides,
+  };
+}
+
+export function createCapsule(
+  name: string,
+  execute: Capsule['execute']
+): Capsule {
+  return defineCapsule({
+    name,
+    description: `${name} test capsule`,
+    icon: '🧪',
+    category: 'processing',
+    inputs: [{ id: 'in', name: 'In', type: PORT_TYPES.ANY }],
+    outputs: [{ id: 'out', name: 'Out', type: PORT_TYPES.ANY }],
+    execute,
+  });
+}
+
+export function node(id: string, capsule: Capsule, config?: Record<string, any>): Node {
+  return { id, capsule, position: { x: 0, y: 0 }, config };
+}
+
+export function connect(fromNode: string, toNode: string, fromPort = 'out', toPort = 'in'): Connection {
+  return {
+    id: `${fromNode}-${toNode}`,
+    fromNode,
+    fromPort,
+    toNode,
+    toPort,
+    color: PORT_TYPES.ANY.color,
+  };
+}
+
+export function createFlow(nodes: Node[], connections: Connection[] = []): Flow {
+  return { id: 'test-flow', name: 'Test Flow', nodes, connections };
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
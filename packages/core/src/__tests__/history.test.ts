@@ -0,0 +1,254 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { appendFile, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { executeFlow } from '../executor';
+import { EnvSecretProvider } from '../secrets';
+import {
+  DatabaseHistoryStore,
+  JsonLinesHistoryStore,
+  MemoryHistoryStore,
+} from '../history';
+import type { ExecutionHistoryStore, ExecutionRecord } from '../history';
+import type { CheckpointDatabase } from '../checkpoint';
+import { connect, createCapsule, createContext, createFlow, node } from './helpers';
+
+function record(executionId: string, overrides: Partial<ExecutionRecord> = {}): ExecutionRecord {
+  return {
+    executionId,
+    flowId: 'orders',
+    status: 'completed',
+    startTime: 1000,
+    endTime: 1010,
+    duration: 10,
+    nodes: {},
+    ...overrides,
+  };
+}
+
+async function fill(store: ExecutionHistoryStore): Promise<void> {
+  await store.save(record('a', { startTime: 1000 }));
+  await store.save(record('b', { startTime: 2000, status: 'failed' }));
+  await store.save(record('c', { startTime: 3000 }));
+  await store.save(record('d', { startTime: 3000, flowId: 'invoices' }));
+  await store.save(record('e', { startTime: 4000, status: 'cancelled' }));
+}
+
+const ids = (records: ExecutionRecord[]) => records.map(r => r.executionId);
+
+describe('Execution history', () => {
+  describe('executeFlow', () => {
+    it('should record node inputs, outputs and errors with secrets redacted', async () => {
+      const history = new MemoryHistoryStore({ maxValueSize: 40 });
+      const charge = createCapsule('Charge', async (_inputs, config) => ({ out: `charged with ${config?.apiKey}` }));
+      const report = createCapsule('Report', async inputs => ({ out: 'x'.repeat(100), in: inputs.in }));
+      const fail = createCapsule('Fail', async () => {
+        throw new Error('smtp down');
+      });
+
+      const flow = {
+        ...createFlow(
+          [node('charge', charge, { apiKey: { $secret: 'KEY' } }), node('report', report), node('email', fail)],
+          [connect('charge', 'report'), connect('report', 'email')]
+        ),
+        version: '1.2.0',
+      };
+      const result = await executeFlow(flow, createContext({
+        history,
+        executionId: 'exec-1',
+        secrets: new EnvSecretProvider({ KEY: 'sk-hidden' }),
+        trigger: { nodeId: 'charge', type: 'webhook', payload: { order: 7 } },
+      }));
+
+      const saved = await history.get('exec-1');
+      expect(saved).toMatchObject({
+        executionId: 'exec-1',
+        flowId: 'test-flow',
+        flowVersion: '1.2.0',
+        trigger: { nodeId: 'charge', type: 'webhook', payload: { order: 7 } },
+        status: 'failed',
+        duration: result.executionTime,
+        errors: [{ nodeId: 'email', error: 'smtp down' }],
+      });
+      expect(saved!.endTime - saved!.startTime).toBe(saved!.duration);
+      expect(saved!.nodes.charge).toMatchObject({ status: 'completed', inputs: {}, outputs: { out: 'charged with [REDACTED]' } });
+      expect(saved!.nodes.report.inputs).toEqual({ in: 'charged with [REDACTED]' });
+      expect(saved!.nodes.report.outputs).toEqual({
+        $truncated: { size: 141, preview: JSON.stringify(result.nodeResults.report).slice(0, 40) },
+      });
+      expect(saved!.nodes.email).toMatchObject({ status: 'failed', error: 'smtp down' });
+    });
+
+    it('should not fail the execution when the history cannot be saved', async () => {
+      const warnings: string[] = [];
+      const history = new MemoryHistoryStore();
+      history.save = async () => {
+        throw new Error('disk full');
+      };
+
+      const result = await executeFlow(
+        createFlow([node('a', createCapsule('Pass', async () => ({ out: 1 })))]),
+        createContext({ history, logger: { info: () => {}, error: () => {}, warn: msg => warnings.push(msg) } })
+      );
+
+      expect(result.success).toBe(true);
+      expect(warnings).toEqual(['Failed to save execution history: disk full']);
+    });
+  });
+
+  describe('MemoryHistoryStore', () => {
+    it('should filter by flow, status and time range, newest first', async () => {
+      const history = new MemoryHistoryStore();
+      await fill(history);
+
+      expect(ids((await history.query()).records)).toEqual(['e', 'd', 'c', 'b', 'a']);
+      expect(ids((await history.query({ flowId: 'orders', status: 'completed' })).records)).toEqual(['c', 'a']);
+      expect(ids((await history.query({ status: ['failed', 'cancelled'] })).records)).toEqual(['e', 'b']);
+      expect(ids((await history.query({ from: 2000, to: 4000 })).records)).toEqual(['d', 'c', 'b']);
+    });
+
+    it('should paginate with cursors', async () => {
+      const history = new MemoryHistoryStore();
+      await fill(history);
+
+      const first = await history.query({ limit: 2 });
+      const second = await history.query({ limit: 2, cursor: first.nextCursor });
+      const last = await history.query({ limit: 2, cursor: second.nextCursor });
+
+      expect([ids(first.records), ids(second.records), ids(last.records)]).toEqual([['e', 'd'], ['c', 'b'], ['a']]);
+      expect(last.nextCursor).toBeUndefined();
+      await expect(history.query({ cursor: 'nope' })).rejects.toThrow('Invalid history cursor: nope');
+      await expect(history.query({ limit: 0 })).rejects.toThrow('History query limit must be a positive integer, got 0');
+    });
+  });
+
+  describe('JsonLinesHistoryStore', () => {
+    let directory: string | undefined;
+
+    afterEach(async () => {
+      if (directory) await rm(directory, { recursive: true, force: true });
+      directory = undefined;
+    });
+
+    it('should append records and keep the latest one per execution', async () => {
+      directory = await mkdtemp(join(tmpdir(), 'capsulas-history-'));
+      const file = join(directory, 'logs', 'executions.jsonl');
+      const history = new JsonLinesHistoryStore(file);
+
+      await fill(history);
+      await history.save(record('a', { startTime: 1000, status: 'failed' }));
+
+      expect((await history.get('a'))?.status).toBe('failed');
+      expect(ids((await history.query({ status: 'failed' })).records)).toEqual(['b', 'a']);
+      expect((await readFile(file, 'utf-8')).trim().split('\n')).toHaveLength(6);
+
+      await history.delete('a');
+      expect(await history.get('a')).toBeNull();
+      expect((await readFile(file, 'utf-8')).trim().split('\n')).toHaveLength(4);
+    });
+
+    it('should skip and report lines that cannot be read', async () => {
+      directory = await mkdtemp(join(tmpdir(), 'capsulas-history-'));
+      const file = join(directory, 'executions.jsonl');
+      const warnings: string[] = [];
+      const history = new JsonLinesHistoryStore(file, {
+        logger: { info: () => {}, error: () => {}, warn: msg => warnings.push(msg) },
+      });
+
+      await history.save(record('a'));
+      await appendFile(file, '{"executionId":"b","fl\n');
+      await history.save(record('c', { startTime: 3000 }));
+
+      expect(ids((await history.query()).records)).toEqual(['c', 'a']);
+      expect(warnings).toEqual([expect.stringMatching(/^Skipping unreadable line 2 of .+executions\.jsonl: /)]);
+    });
+
+    it('should return nothing before the first execution', async () => {
+      directory = await mkdtemp(join(tmpdir(), 'capsulas-history-'));
+      const history = new JsonLinesHistoryStore(join(directory, 'executions.jsonl'));
+
+      expect(await history.get('a')).toBeNull();
+      expect(await history.query()).toEqual({ records: [] });
+    });
+  });
+
+  describe('DatabaseHistoryStore', () => {
+    function createFakeDatabase() {
+      const statements: Array<{ sql: string; params?: any[] }> = [];
+      const rows = new Map<string, string>();
+
+      const db: CheckpointDatabase = {
+        async query(sql, params) {
+          statements.push({ sql, params });
+          if (sql.includes('WHERE execution_id')) {
+            const data = rows.get(params?.[0]);
+            return { rows: data ? [{ data }] : [] };
+          }
+          return { rows: [...rows.values()].map(data => ({ data })) };
+        },
+        async executeSQL(sql, params) {
+          statements.push({ sql, params });
+          if (sql.startsWith('DELETE')) rows.delete(params?.[0]);
+          if (sql.startsWith('INSERT')) rows.set(params?.[0], params?.[4]);
+          return {};
+        },
+      };
+
+      return { db, statements };
+    }
+
+    it('should store records as JSON rows', async () => {
+      const { db, statements } = createFakeDatabase();
+      const history = new DatabaseHistoryStore(db);
+
+      await history.save(record('exec-1'));
+      expect(await history.get('exec-1')).toEqual(record('exec-1'));
+
+      await history.delete('exec-1');
+      expect(await history.get('exec-1')).toBeNull();
+
+      expect(statements.filter(s => s.sql.startsWith('CREATE TABLE'))).toHaveLength(1);
+      expect(statements.slice(1, 5).map(s => s.sql.split(' ')[0])).toEqual(['BEGIN', 'DELETE', 'INSERT', 'COMMIT']);
+      expect(statements[3]).toEqual({
+        sql: 'INSERT INTO capsulas_executions (execution_id, flow_id, status, started_at, data) VALUES (?, ?, ?, ?, ?)',
+        params: ['exec-1', 'orders', 'completed', 1000, JSON.stringify(record('exec-1'))],
+      });
+    });
+
+    it('should roll back a save that fails halfway', async () => {
+      const { db, statements } = createFakeDatabase();
+      const history = new DatabaseHistoryStore(db);
+      await history.save(record('exec-1'));
+
+      const executeSQL = db.executeSQL;
+      db.executeSQL = async (sql, params) => {
+        if (sql.startsWith('INSERT')) throw new Error('disk full');
+        return executeSQL(sql, params);
+      };
+
+      await expect(history.save(record('exec-1', { status: 'failed' }))).rejects.toThrow('disk full');
+      expect(statements.slice(-3).map(s => s.sql.split(' ')[0])).toEqual(['BEGIN', 'DELETE', 'ROLLBACK']);
+    });
+
+    it('should translate queries to SQL', async () => {
+      const { db, statements } = createFakeDatabase();
+      const history = new DatabaseHistoryStore(db, { tableName: 'runs', paramStyle: 'dollar' });
+      await fill(history);
+
+      const page = await history.query({ flowId: 'orders', status: ['completed', 'failed'], from: 1000, limit: 2 });
+      await history.query({ to: 5000, cursor: page.nextCursor });
+
+      const [first, second] = statements.filter(s => s.sql.startsWith('SELECT'));
+      expect(first).toEqual({
+        sql: 'SELECT data FROM runs WHERE flow_id = $1 AND status IN ($2, $3) AND started_at >= $4 ' +
+          'ORDER BY started_at DESC, execution_id DESC LIMIT 3',
+        params: ['orders', 'completed', 'failed', 1000],
+      });
+      expect(second).toEqual({
+        sql: 'SELECT data FROM runs WHERE started_at < $1 AND (started_at < $2 OR (started_at = $3 AND execution_id < $4)) ' +
+          'ORDER BY started_at DESC, execution_id DESC LIMIT 51',
+        params: [5000, 2000, 2000, 'b'],
+      });
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { request } from 'http';
+import { FlowHost } from '../host';
+import {
+  CRON_TRIGGER_CAPSULE,
+  CronTriggerSource,
+  QUEUE_TRIGGER_CAPSULE,
+  QueueTriggerSource,
+  WEBHOOK_TRIGGER_CAPSULE,
+  WebhookTriggerSource
+} from '../triggers';
+import type { TriggerSource, TriggerSubscription } from '../triggers';
+import { connect, createCapsule, createFlow, node, silentLogger, sleep } from './helpers';
+
+/**
+ * Trigger source fired by hand from the test
+ */
+class ManualSource implements TriggerSource {
+  subscriptions: TriggerSubscription[] = [];
+  closed = false;
+
+  constructor(readonly type: string) {}
+
+  async subscribe(subscription: TriggerSubscription) {
+    this.subscriptions.push(subscription);
+    return () => {
+      this.subscriptions = this.subscriptions.filter(s => s !== subscription);
+    };
+  }
+
+  async close() {
+    this.closed = true;
+  }
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+function post(port: number, path: string, body: unknown): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      { port, path, method: 'POST', headers: { 'Content-Type': 'application/json' } },
+      res => {
+        let data = '';
+        res.on('data', chunk => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+      }
+    );
+    req.on('error', reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+describe('FlowHost', () => {
+  let host: FlowHost | undefined;
+
+  afterEach(async () => {
+    await host?.stop();
+    host = undefined;
+  });
+
+  it('should run the flow from the trigger that fired', async () => {
+    const seen: any[] = [];
+    const record = createCapsule('Record', async inputs => {
+      seen.push(inputs.in);
+      return { out: inputs.in };
+    });
+    const flow = createFlow(
+      [
+        node('cron', CRON_TRIGGER_CAPSULE, { schedule: '* * * * *' }),
+        node('hook', WEBHOOK_TRIGGER_CAPSULE, { path: '/orders' }),
+        node('fromCron', record),
+        node('fromHook', record)
+      ],
+      [connect('cron', 'fromCron', 'payload'), connect('hook', 'fromHook', 'payload')]
+    );
+
+    const cron = new ManualSource('cron');
+    host = new FlowHost({ sources: [cron, new ManualSource('webhook')], context: { logger: silentLogger } });
+    await host.register(flow);
+    await host.start();
+
+    const execution = cron.subscriptions[0].fire({ tick: 1 });
+    const result = await execution.result;
+
+    expect(result.executionId).toBe(execution.executionId);
+    expect(seen).toEqual([{ tick: 1 }]);
+    expect(result.nodeExecutions.fromHook.status).toBe('skipped');
+    expect(cron.subscriptions[0].config).toEqual({ schedule: '* * * * *' });
+  });
+
+  it('should limit concurrent executions globally and per flow', async () => {
+    const gate = deferred();
+    let active = 0;
+    let peak = 0;
+    const slow = createCapsule('Slow', async () => {
+      peak = Math.max(peak, ++active);
+      await gate.promise;
+      active--;
+      return {};
+    });
+    const flowA = { ...createFlow([node('work', slow)]), id: 'a' };
+    const flowB = { ...createFlow([node('work', slow)]), id: 'b' };
+
+    host = new FlowHost({ maxConcurrency: 2, context: { logger: silentLogger } });
+    await host.register(flowA, { maxConcurrency: 1 });
+    await host.register(flowB);
+    await host.start();
+
+    const runs = [host.run('a'), host.run('a'), host.run('b'), host.run('b')];
+    await sleep(10);
+
+    expect(host.getStats()).toMatchObject({ running: 2, queued: 2 });
+    gate.resolve();
+    await Promise.all(runs.map(r => r.result));
+
+    expect(peak).toBe(2);
+    expect(host.getStats()).toMatchObject({ running: 0, queued: 0, completed: 4 });
+  });
+
+  it('should refuse events when the queue is full', async () => {
+    const gate = deferred();
+    const flow = createFlow([node('work', createCapsule('Slow', async () => gate.promise.then(() => ({}))))]);
+
+    host = new FlowHost({ maxConcurrency: 1, maxQueued: 1, context: { logger: silentLogger } });
+    await host.register(flow);
+    await host.start();
+
+    const first = host.run('test-flow');
+    const second = host.run('test-flow');
+    expect(() => host!.run('test-flow')).toThrow('Flow host queue is full (1 executions waiting)');
+
+    gate.resolve();
+    await Promise.all([first.result, second.result]);
+    expect(host.getStats().rejected).toBe(1);
+  });
+
+  it('should finish running executions and reject queued ones on stop', async () => {
+    const gate = deferred();
+    const flow = createFlow([node('work', createCapsule('Slow', async () => gate.promise.then(() => ({ out: 'done' }))))]);
+    const source = new ManualSource('cron');
+
+    host = new FlowHost({ sources: [source], maxConcurrency: 1, context: { logger: silentLogger } });
+    await host.register(flow);
+    await host.start();
+
+    const running = host.run('test-flow');
+    const queued = host.run('test-flow');
+    const stopping = host.stop();
+    gate.resolve();
+    await stopping;
+
+    expect((await running.result).success).toBe(true);
+    await expect(queued.result).rejects.toThrow('Flow host stopped before the execution started');
+    expect(() => host!.run('test-flow')).toThrow('Flow host is stopped and not accepting executions');
+    expect(source.closed).toBe(true);
+  });
+
+  it('should cancel executions still running after the shutdown timeout', async () => {
+    const flow = createFlow([
+      node('work', createCapsule('Endless', (_inputs, _config, context) => new Promise((_resolve, reject) => {
+        context!.signal.addEventListener('abort', () => reject(context!.signal.reason));
+      })))
+    ]);
+
+    host = new FlowHost({ shutdownTimeout: 10, context: { logger: silentLogger } });
+    await host.register(flow);
+    await host.start();
+
+    const execution = host.run('test-flow');
+    await sleep(5);
+    await host.stop();
+    const result = await execution.result;
+
+    expect(result.cancelled).toBe(true);
+    expect(result.nodeExecutions.work).toMatchObject({ status: 'cancelled', error: 'Flow host shutting down' });
+  });
+
+  it('should require a source for every trigger', async () => {
+    host = new FlowHost();
+
+    await expect(host.register(createFlow([node('q', QUEUE_TRIGGER_CAPSULE)]))).rejects.toThrow(
+      'No trigger source for queue (node q of flow test-flow)'
+    );
+  });
+});
+
+describe('Trigger sources', () => {
+  let host: FlowHost | undefined;
+
+  afterEach(async () => {
+    await host?.stop();
+    host = undefined;
+  });
+
+  it('should schedule cron triggers and remove them on stop', async () => {
+    const jobs = new Map<string, () => Promise<void> | void>();
+    const scheduler = {
+      schedule: (options: { name: string; handler: () => Promise<void> | void }) => {
+        jobs.set(options.name, options.handler);
+        return options.name;
+      },
+      remove: (jobId: string) => jobs.delete(jobId)
+    };
+    const ran: any[] = [];
+    const flow = createFlow(
+      [node('cron', CRON_TRIGGER_CAPSULE, { schedule: '0 * * * *' }), node('job', createCapsule('Job', async inputs => {
+        ran.push(inputs.in);
+        return {};
+      }))],
+      [connect('cron', 'job', 'meta')]
+    );
+
+    host = new FlowHost({ sources: [new CronTriggerSource(scheduler)], context: { logger: silentLogger } });
+    await host.register(flow);
+    await host.start();
+    await jobs.get('test-flow.cron')!();
+
+    expect(ran).toEqual([{ schedule: '0 * * * *' }]);
+    await host.stop();
+    expect(jobs.size).toBe(0);
+  });
+
+  it('should run queue jobs and fail jobs whose flow fails', async () => {
+    let processor!: (job: { id: string; name: string; data: any }) => Promise<any>;
+    const queue = { process: (p: typeof processor) => { processor = p; } };
+    const flow = createFlow(
+      [node('queue', QUEUE_TRIGGER_CAPSULE, { job: 'resize' }), node('resize', createCapsule('Resize', async inputs => {
+        if (inputs.in.width < 0) throw new Error('Invalid width');
+        return { out: inputs.in.width / 2 };
+      }))],
+      [connect('queue', 'resize', 'payload')]
+    );
+
+    host = new FlowHost({ sources: [new QueueTriggerSource(queue)], context: { logger: silentLogger } });
+    await host.register(flow);
+    await host.start();
+
+    await expect(processor({ id: '1', name: 'resize', data: { width: 100 } })).resolves.toHaveProperty('executionId');
+    await expect(processor({ id: '2', name: 'resize', data: { width: -1 } })).rejects.toThrow(
+      'Flow test-flow failed: Invalid width'
+    );
+    await expect(processor({ id: '3', name: 'other', data: {} })).rejects.toThrow('No flow handles queue job other');
+  });
+
+  it('should serve webhook triggers over HTTP', async () => {
+    const webhooks = new WebhookTriggerSource({ port: 0, host: '127.0.0.1' });
+    const flow = createFlow(
+      [
+        node('accepted', WEBHOOK_TRIGGER_CAPSULE, { path: '/orders' }),
+        node('sync', WEBHOOK_TRIGGER_CAPSULE, { path: '/checks', respond: 'result' }),
+        node('check', createCapsule('Check', async inputs => {
+          if (!inputs.in.ok) throw new Error('Check failed');
+          return {};
+        }))
+      ],
+      [connect('sync', 'check', 'payload')]
+    );
+
+    host = new FlowHost({ sources: [webhooks], context: { logger: silentLogger } });
+    await host.register(flow);
+    await host.start();
+    const port = webhooks.port!;
+
+    const accepted = await post(port, '/orders', { id: 1 });
+    const passed = await post(port, '/checks', { ok: true });
+    const failed = await post(port, '/checks', { ok: false });
+    const missing = await post(port, '/nope', {});
+
+    expect(accepted.status).toBe(202);
+    expect(accepted.body.executionId).toMatch(/^exec_/);
+    expect(passed).toMatchObject({ status: 200, body: { success: true } });
+    expect(failed).toMatchObject({ status: 500, body: { success: false, errors: [{ nodeId: 'check', error: 'Check failed' }] } });
+    expect(missing.status).toBe(404);
+
+    await host.stop();
+    expect(webhooks.port).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { executeFlow } from '../executor';
+import { MemoryHistoryStore } from '../history';
+import { createMapCapsule } from '../map';
+import { connect, createCapsule, createContext, createFlow, node, sleep } from './helpers';
+
+const double = createCapsule('Double', async inputs => {
+  if (inputs.in < 0) {
+    throw new Error(`negative: ${inputs.in}`);
+  }
+  return { out: inputs.in * 2 };
+});
+const increment = createCapsule('Increment', async inputs => ({ out: inputs.in + 1 }));
+
+const body = createFlow([node('double', double), node('increment', increment)], [connect('double', 'increment')]);
+const mapCapsule = createMapCapsule(body, {
+  input: { nodeId: 'double', portId: 'in' },
+  output: { nodeId: 'increment', portId: 'out' },
+});
+
+function buildFlow(items: any, config?: Record<string, any>) {
+  const source = createCapsule('Source', async () => ({ out: items }));
+  return createFlow(
+    [node('src', source), node('map', mapCapsule, config)],
+    [connect('src', 'map', 'out', 'items')]
+  );
+}
+
+describe('createMapCapsule', () => {
+  it('should run the body once per item and collect results in order', async () => {
+    const result = await executeFlow(buildFlow([1, 2, 3]), createContext());
+
+    expect(result.success).toBe(true);
+    expect(result.nodeResults.map).toEqual({ results: [3, 5, 7], errors: [] });
+  });
+
+  it('should handle an empty array', async () => {
+    const result = await executeFlow(buildFlow([]), createContext());
+
+    expect(result.nodeResults.map).toEqual({ results: [], errors: [] });
+  });
+
+  it('should fail the node when items is not an array', async () => {
+    const result = await executeFlow(buildFlow('nope'), createContext());
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toEqual({ nodeId: 'map', error: 'Map input "items" must be an array' });
+  });
+
+  it('should fail fast on the first failing item', async () => {
+    const result = await executeFlow(buildFlow([1, -1, 2]), createContext());
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0].error).toBe('Map item 1 failed: negative: -1');
+  });
+
+  it('should collect errors and keep going', async () => {
+    const result = await executeFlow(buildFlow([1, -1, 2], { mode: 'collectErrors' }), createContext());
+
+    expect(result.success).toBe(true);
+    expect(result.nodeResults.map).toEqual({
+      results: [3, null, 5],
+      errors: [{ index: 1, error: 'negative: -1' }],
+    });
+  });
+
+  it('should record only the parent execution in the history', async () => {
+    const history = new MemoryHistoryStore();
+    const result = await executeFlow(buildFlow([1, 2, 3]), createContext({ history }));
+
+    const { records } = await history.query();
+    expect(records).toHaveLength(1);
+    expect(records[0].executionId).toBe(result.executionId);
+  });
+
+  it('should respect the configured concurrency', async () => {
+    let active = 0;
+    let peak = 0;
+    const slow = createCapsule('Slow', async inputs => {
+      active++;
+      peak = Math.max(peak, active);
+      await sleep(10);
+      active--;
+      return { out: inputs.in };
+    });
+    const slowMap = createMapCapsule(createFlow([node('slow', slow)]), {
+      input: { nodeId: 'slow', portId: 'in' },
+      output: { nodeId: 'slow', portId: 'out' },
+    });
+    const source = createCapsule('Source', async () => ({ out: [1, 2, 3, 4, 5] }));
+
+    const result = await executeFlow(
+      createFlow([node('src', source), node('map', slowMap, { concurrency: 2 })], [connect('src', 'map', 'out', 'items')]),
+      createContext()
+    );
+
+    expect(result.nodeResults.map.results).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it('should reject a body without the referenced nodes', () => {
+    expect(() =>
+      createMapCapsule(body, {
+        input: { nodeId: 'missing', portId: 'in' },
+        output: { nodeId: 'increment', portId: 'out' },
+      })
+    ).toThrow('has no node missing');
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { executeFlow } from '../executor';
+import { getRetryDelay, runWithPolicy } from '../policy';
+import { validateFlow } from '../validator';
+import { connect, createCapsule, createContext, createFlow, node, sleep } from './helpers';
+
+function flaky(failures: number) {
+  let calls = 0;
+  return createCapsule('Flaky', async () => {
+    calls++;
+    if (calls <= failures) {
+      throw new Error(`failure ${calls}`);
+    }
+    return { out: calls };
+  });
+}
+
+const failing = createCapsule('Failing', async () => {
+  throw new Error('boom');
+});
+const pass = createCapsule('Pass', async inputs => ({ out: inputs.in }));
+
+describe('Node policies', () => {
+  describe('getRetryDelay', () => {
+    it('should use a fixed delay by default', () => {
+      expect(getRetryDelay({ retries: 3, delay: 100 }, 1)).toBe(100);
+      expect(getRetryDelay({ retries: 3, delay: 100 }, 3)).toBe(100);
+    });
+
+    it('should back off exponentially up to maxDelay', () => {
+      const retry = { retries: 5, backoff: 'exponential' as const, delay: 100, maxDelay: 350 };
+      expect(getRetryDelay(retry, 1)).toBe(100);
+      expect(getRetryDelay(retry, 2)).toBe(200);
+      expect(getRetryDelay(retry, 3)).toBe(350);
+    });
+  });
+
+  describe('runWithPolicy', () => {
+    it('should time out a slow attempt', async () => {
+      await expect(runWithPolicy(() => sleep(50), { timeout: 5 })).rejects.toThrow('Timed out after 5ms');
+    });
+
+    it('should abort a timed-out attempt before retrying', async () => {
+      const log: string[] = [];
+      let attempts = 0;
+
+      await runWithPolicy(
+        async signal => {
+          const attempt = ++attempts;
+          log.push(`start ${attempt}`);
+          signal.addEventListener('abort', () => log.push(`abort ${attempt}: ${signal.reason.message}`));
+          if (attempt === 1) await sleep(50);
+        },
+        { timeout: 5, retry: { retries: 1, delay: 1 } }
+      );
+
+      expect(log).toEqual(['start 1', 'abort 1: Timed out after 5ms', 'start 2']);
+    });
+
+    it('should report retries', async () => {
+      const retries: number[] = [];
+      let calls = 0;
+
+      const value = await runWithPolicy(
+        async () => {
+          calls++;
+          if (calls < 3) throw new Error('again');
+          return 'done';
+        },
+        { retry: { retries: 2, delay: 1 } },
+        attempt => retries.push(attempt)
+      );
+
+      expect(value).toBe('done');
+      expect(retries).toEqual([1, 2]);
+    });
+  });
+
+  describe('Retry', () => {
+    it('should retry a failing node until it succeeds', async () => {
+      const result = await executeFlow(
+        createFlow([{ ...node('a', flaky(2)), policy: { retry: { retries: 2, delay: 1 } } }]),
+        createContext()
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.nodeResults.a).toEqual({ out: 3 });
+      expect(result.nodeExecutions.a.attempts).toBe(3);
+    });
+
+    it('should fail once retries are exhausted', async () => {
+      const result = await executeFlow(
+        createFlow([{ ...node('a', flaky(5)), policy: { retry: { retries: 1, delay: 1 } } }]),
+        createContext()
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([{ nodeId: 'a', error: 'failure 2' }]);
+      expect(result.nodeExecutions.a.attempts).toBe(2);
+    });
+  });
+
+  describe('Timeout', () => {
+    it('should fail an attempt that exceeds the timeout', async () => {
+      const slow = createCapsule('Slow', async () => {
+        await sleep(50);
+        return { out: true };
+      });
+
+      const result = await executeFlow(
+        createFlow([{ ...node('a', slow), policy: { timeout: 5 } }]),
+        createContext()
+      );
+
+      expect(result.nodeExecutions.a.status).toBe('failed');
+      expect(result.nodeExecutions.a.error).toBe('Timed out after 5ms');
+    });
+  });
+
+  describe('onError', () => {
+    it('should keep running independent nodes by default', async () => {
+      const result = await executeFlow(
+        createFlow([node('a', failing), node('b', pass)]),
+        createContext()
+      );
+
+      expect(result.nodeExecutions.b.status).toBe('completed');
+    });
+
+    it('should stop starting nodes when the policy is stop', async () => {
+      const result = await executeFlow(
+        createFlow([{ ...node('a', failing), policy: { onError: 'stop' } }, node('b', pass), node('c', pass)], [
+          connect('b', 'c'),
+        ]),
+        createContext({ maxConcurrency: 1 })
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.nodeExecutions.a.status).toBe('failed');
+      expect(result.nodeExecutions.b.status).toBe('skipped');
+      expect(result.nodeExecutions.c.status).toBe('skipped');
+    });
+
+    it('should route errors to the error port', async () => {
+      const flow = createFlow(
+        [
+          { ...node('a', failing), policy: { onError: 'route' } },
+          node('ok', pass),
+          node('handler', pass),
+        ],
+        [connect('a', 'ok'), connect('a', 'handler', 'error', 'in')]
+      );
+
+      const result = await executeFlow(flow, createContext());
+
+      expect(result.success).toBe(true);
+      expect(result.nodeExecutions.a.status).toBe('failed');
+      expect(result.nodeExecutions.ok.status).toBe('skipped');
+      expect(result.nodeResults.handler).toEqual({ out: 'boom' });
+    });
+
+    it('should skip the error branch when the node succeeds', async () => {
+      const flow = createFlow(
+        [{ ...node('a', pass), policy: { onError: 'route' } }, node('ok', pass), node('handler', pass)],
+        [connect('a', 'ok'), connect('a', 'handler', 'error', 'in')]
+      );
+
+      const result = await executeFlow(flow, createContext());
+
+      expect(result.nodeExecutions.ok.status).toBe('completed');
+      expect(result.nodeExecutions.handler.status).toBe('skipped');
+    });
+
+    it('should accept connections from the error port in validateFlow', () => {
+      const flow = createFlow(
+        [{ ...node('a', failing), policy: { onError: 'route' } }, node('handler', pass)],
+        [connect('a', 'handler', 'error', 'in')]
+      );
+
+      expect(validateFlow(flow.nodes, flow.connections).valid).toBe(true);
+      expect(validateFlow([node('a', failing), node('handler', pass)], flow.connections).valid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { executeFlow } from '../executor';
+import { PortTypeRegistry, createPortTypeRegistry } from '../port-types';
+import { diagnoseFlow, getCompatibleTypes, isPortCompatible } from '../validator';
+import { PORT_TYPES, defineCapsule } from '../types';
+import type { PortType } from '../types';
+import { connect, createContext, createFlow, node } from './helpers';
+
+const INVOICE = { id: 'invoice', name: 'Invoice', color: '#673ab7' };
+
+/**
+ * Capsule emitting `value` on an output of `type`
+ */
+function emit(type: PortType, value: unknown) {
+  return defineCapsule({
+    name: `Emit ${type.name}`,
+    description: 'Emits a fixed value',
+    icon: '🧪',
+    category: 'processing',
+    inputs: [],
+    outputs: [{ id: 'out', name: 'Out', type }],
+    execute: async () => ({ out: value })
+  });
+}
+
+/**
+ * Capsule echoing an input of `type`
+ */
+function receive(type: PortType) {
+  return defineCapsule({
+    name: `Receive ${type.name}`,
+    description: 'Echoes its input',
+    icon: '🧪',
+    category: 'processing',
+    inputs: [{ id: 'in', name: 'In', type, required: true }],
+    outputs: [{ id: 'out', name: 'Out', type }],
+    execute: async inputs => ({ out: inputs.in })
+  });
+}
+
+function projectTypes(): PortTypeRegistry {
+  return createPortTypeRegistry()
+    .register({ ...INVOICE, parents: ['object'] })
+    .registerCoercion('invoice', 'string', invoice => `Invoice ${invoice.number}`);
+}
+
+describe('Port type registry', () => {
+  it('should keep the built-in compatibility', () => {
+    expect(isPortCompatible('user', 'object')).toBe(true);
+    expect(isPortCompatible('auth', 'string')).toBe(true);
+    expect(isPortCompatible('data', 'array')).toBe(true);
+    expect(isPortCompatible('string', 'number')).toBe(false);
+    expect(isPortCompatible('object', 'user')).toBe(false);
+    expect(getCompatibleTypes('data')).toEqual(['data', 'object', 'array']);
+    expect(getCompatibleTypes('any')).toHaveLength(Object.keys(PORT_TYPES).length);
+  });
+
+  it('should connect types through the built-in coercions', () => {
+    const types = createPortTypeRegistry();
+
+    expect(isPortCompatible('number', 'string')).toBe(true);
+    expect(getCompatibleTypes('file')).toEqual(['file', 'string']);
+    expect(types.coerce('number', 'string', 42)).toBe('42');
+    expect(types.coerce('file', 'string', { path: '/uploads/a.pdf', size: 10 })).toBe('/uploads/a.pdf');
+    expect(() => types.coerce('file', 'string', {})).toThrow('File has no path');
+  });
+
+  it('should let custom types connect to their ancestors and coercion targets', () => {
+    const types = projectTypes().register({ id: 'credit-note', name: 'Credit Note', color: '#000', parents: ['invoice'] });
+
+    expect(types.getAncestors('credit-note')).toEqual(['invoice', 'object']);
+    expect(types.isCompatible('credit-note', 'object')).toBe(true);
+    expect(types.getCoercion('credit-note', 'string')).toBeDefined();
+    expect(types.getCompatibleTypes('invoice')).toEqual(['invoice', 'object', 'string']);
+    expect(types.isCompatible('object', 'invoice')).toBe(false);
+  });
+
+  it('should reject duplicate types and unknown parents', () => {
+    const types = createPortTypeRegistry();
+
+    expect(() => types.register(PORT_TYPES.STRING)).toThrow('Port type string is already registered');
+    expect(() => types.register({ id: 'geo', name: 'Geo', color: '#000', parents: ['point'] })).toThrow(
+      'Port type geo has unknown parent type point'
+    );
+    expect(() => types.registerCoercion('geo', 'string', String)).toThrow('Port type geo is not registered');
+  });
+});
+
+describe('Port types in flows', () => {
+  it('should validate connections against the registry passed in the options', () => {
+    const flow = createFlow(
+      [
+        node('invoice', emit(INVOICE, {})),
+        node('object', receive(PORT_TYPES.OBJECT)),
+        node('text', receive(PORT_TYPES.STRING)),
+        node('count', receive(PORT_TYPES.NUMBER))
+      ],
+      [connect('invoice', 'object'), connect('invoice', 'text'), connect('invoice', 'count')]
+    );
+
+    const incompatible = diagnoseFlow(flow.nodes, flow.connections, { portTypes: projectTypes() })
+      .filter(d => d.code === 'incompatible-types');
+
+    expect(incompatible).toEqual([
+      expect.objectContaining({ connectionId: 'invoice-count', hint: 'Invoice outputs connect to: invoice, object, string' })
+    ]);
+  });
+
+  it('should not compare schemas of connections that convert their value', () => {
+    const flow = createFlow(
+      [node('number', emit(PORT_TYPES.NUMBER, 1)), node('text', receive(PORT_TYPES.STRING))],
+      [connect('number', 'text')]
+    );
+
+    expect(diagnoseFlow(flow.nodes, flow.connections).filter(d => d.severity === 'error')).toEqual([]);
+  });
+
+  it('should convert values crossing connections', async () => {
+    const flow = createFlow(
+      [
+        node('total', emit(PORT_TYPES.NUMBER, 19.5)),
+        node('invoice', emit(INVOICE, { number: 'F-12' })),
+        node('totalText', receive(PORT_TYPES.STRING)),
+        node('invoiceText', receive(PORT_TYPES.STRING)),
+        node('invoiceObject', receive(PORT_TYPES.OBJECT))
+      ],
+      [connect('total', 'totalText'), connect('invoice', 'invoiceText'), connect('invoice', 'invoiceObject')]
+    );
+
+    const result = await executeFlow(flow, createContext({ portTypes: projectTypes() }));
+
+    expect(result.success).toBe(true);
+    expect(result.nodeResults.totalText).toEqual({ out: '19.5' });
+    expect(result.nodeResults.invoiceText).toEqual({ out: 'Invoice F-12' });
+    expect(result.nodeResults.invoiceObject).toEqual({ out: { number: 'F-12' } });
+  });
+
+  it('should fail the node when a value cannot be converted', async () => {
+    const flow = createFlow(
+      [node('file', emit(PORT_TYPES.FILE, { name: 'a.pdf' })), node('path', receive(PORT_TYPES.STRING))],
+      [connect('file', 'path')]
+    );
+
+    const result = await executeFlow(flow, createContext());
+
+    expect(result.errors).toEqual([
+      { nodeId: 'path', error: 'Connection file-path: cannot convert File to String: File has no path' }
+    ]);
+  });
+});
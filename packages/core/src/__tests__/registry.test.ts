@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BUILT_IN_CAPSULES, CapsuleRegistry, createDefaultRegistry } from '../registry';
+import { executeFlow } from '../executor';
+import { loadFlow } from '../flow-format';
+import { satisfies } from '../semver';
+import type { Capsule } from '../types';
+import { createCapsule, createContext } from './helpers';
+
+function versioned(id: string, version: string, category: Capsule['category'] = 'processing'): Capsule {
+  return {
+    ...createCapsule(id, async inputs => ({ out: `${id}@${version}:${inputs.in ?? ''}` })),
+    id,
+    version,
+    category,
+  };
+}
+
+describe('CapsuleRegistry', () => {
+  let projectDir: string | undefined;
+
+  afterEach(async () => {
+    if (projectDir) await rm(projectDir, { recursive: true, force: true });
+    projectDir = undefined;
+  });
+
+  it('should resolve the highest version matching a range', () => {
+    const registry = new CapsuleRegistry([
+      versioned('http', '1.0.0'),
+      versioned('http', '1.4.2'),
+      versioned('http', '2.0.0'),
+    ]);
+
+    expect(registry.resolve('http')?.version).toBe('2.0.0');
+    expect(registry.resolve('http', '^1.0.0')?.version).toBe('1.4.2');
+    expect(registry.resolve('http@~1.0.0')?.version).toBe('1.0.0');
+    expect(registry.resolve('http@^3.0.0')).toBeUndefined();
+    expect(() => registry.get('http@^3.0.0')).toThrow('available: 1.0.0, 1.4.2, 2.0.0');
+    expect(() => registry.get('missing')).toThrow('Capsule not found: missing');
+  });
+
+  it('should reject duplicate registrations', () => {
+    const registry = new CapsuleRegistry([versioned('http', '1.0.0')]);
+    expect(() => registry.register(versioned('http', '1.0.0'))).toThrow('already registered');
+  });
+
+  it('should list the latest version of each capsule by category', () => {
+    const registry = new CapsuleRegistry([
+      versioned('email', '1.0.0', 'communication'),
+      versioned('cache', '1.0.0', 'data'),
+      versioned('cache', '1.1.0', 'data'),
+    ]);
+
+    expect(registry.list().map(c => `${c.id}@${c.version}`)).toEqual(['cache@1.1.0', 'email@1.0.0']);
+    expect(registry.list('communication').map(c => c.id)).toEqual(['email']);
+    expect(registry.categories()).toEqual(['communication', 'data']);
+  });
+
+  it('should list capsules that only have prerelease versions', () => {
+    const registry = new CapsuleRegistry([
+      versioned('beta', '2.0.0-beta.1', 'ai'),
+      versioned('beta', '2.0.0-beta.2', 'ai'),
+      versioned('cache', '1.0.0', 'data'),
+    ]);
+
+    expect(registry.list().map(c => `${c.id}@${c.version}`)).toEqual(['beta@2.0.0-beta.2', 'cache@1.0.0']);
+    expect(registry.categories()).toEqual(['ai', 'data']);
+  });
+
+  it('should start the default registry with the built-in capsules', () => {
+    const registry = createDefaultRegistry();
+
+    expect(registry.list()).toHaveLength(BUILT_IN_CAPSULES.length);
+    expect(registry.resolve('core.if')).toBe(BUILT_IN_CAPSULES[0]);
+
+    createDefaultRegistry().register(versioned('cache', '1.0.0', 'data'));
+    expect(createDefaultRegistry().resolve('cache')).toBeUndefined();
+  });
+
+  it('should load plugin packages from node_modules', async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'capsulas-registry-'));
+    const plugin = (name: string, source: string) =>
+      mkdir(join(projectDir!, 'node_modules', name), { recursive: true }).then(() =>
+        writeFile(join(projectDir!, 'node_modules', name, 'index.js'), source)
+      );
+    const capsuleSource = (id: string) =>
+      `{ id: '${id}', version: '1.0.0', name: '${id}', description: '', icon: '', category: 'integration', inputs: [], outputs: [] }`;
+
+    await plugin('capsulas-capsule-stripe', `module.exports = ${capsuleSource('stripe')};`);
+    await plugin('@acme/capsulas-capsule-crm', `module.exports = { capsules: [${capsuleSource('acme.crm')}] };`);
+    await plugin('lodash', `throw new Error('should not be loaded');`);
+
+    const registry = new CapsuleRegistry();
+    const loaded = await registry.loadPlugins(projectDir);
+
+    expect(loaded).toEqual([
+      { packageName: '@acme/capsulas-capsule-crm', capsules: ['acme.crm@1.0.0'] },
+      { packageName: 'capsulas-capsule-stripe', capsules: ['stripe@1.0.0'] },
+    ]);
+    expect(registry.has('stripe@^1.0.0')).toBe(true);
+  });
+
+  it('should execute a flow document by hydrating its nodes', async () => {
+    const registry = new CapsuleRegistry([versioned('echo', '1.0.0'), versioned('echo', '2.0.0')]);
+    const document = loadFlow({
+      formatVersion: 1,
+      id: 'doc',
+      name: 'Doc',
+      nodes: [
+        { id: 'a', capsule: 'echo@^1.0.0' },
+        { id: 'b', capsule: 'echo' },
+      ],
+      connections: [{ id: 'c1', fromNode: 'a', fromPort: 'out', toNode: 'b', toPort: 'in' }],
+    });
+
+    const result = await executeFlow(document, createContext({ registry }));
+
+    expect(result.success).toBe(true);
+    expect(result.nodeResults.b).toEqual({ out: 'echo@2.0.0:echo@1.0.0:' });
+    await expect(executeFlow(document, createContext())).rejects.toThrow('without a capsule registry');
+  });
+});
+
+describe('satisfies', () => {
+  it.each([
+    ['1.2.3', '^1.0.0', true],
+    ['2.0.0', '^1.0.0', false],
+    ['0.2.5', '^0.2.1', true],
+    ['0.3.0', '^0.2.1', false],
+    ['1.2.9', '~1.2.3', true],
+    ['1.3.0', '~1.2.3', false],
+    ['1.5.0', '1.x', true],
+    ['1.5.0', '>=1.0.0 <1.5.0', false],
+    ['3.1.0', '1.x || >=3.0.0', true],
+    ['2.0.0-beta.1', '^1.0.0 || >=2.0.0', false],
+    ['2.0.0-beta.2', '>=2.0.0-beta.1', true],
+  ])('%s satisfies %s: %s', (version, range, expected) => {
+    expect(satisfies(version, range)).toBe(expected);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createMapCapsule } from '../map';
+import { isReplayable, loadRecording, recordExecution, replayExecution, saveRecording } from '../replay';
+import { CODE_CAPSULE } from '../sandbox';
+import { PORT_TYPES, defineCapsule } from '../types';
+import type { Capsule } from '../types';
+import { connect, createCapsule, createContext, createFlow, node, sleep } from './helpers';
+
+/**
+ * Capsule standing for an external API call
+ */
+function api(respond: () => Promise<any>): Capsule {
+  return defineCapsule({
+    name: 'API',
+    description: 'Calls an external API',
+    icon: '🧪',
+    category: 'integration',
+    inputs: [{ id: 'in', name: 'In', type: PORT_TYPES.ANY }],
+    outputs: [{ id: 'out', name: 'Out', type: PORT_TYPES.ANY }],
+    execute: async () => ({ out: await respond() })
+  });
+}
+
+// Builds a job from the API response, as generateJobId would
+const enqueue = createCapsule('Enqueue', async inputs => ({
+  out: { id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`, price: inputs.in.price }
+}));
+
+function checkout(charge: Capsule, job: Capsule = enqueue) {
+  return createFlow(
+    [node('quote', api(async () => ({ price: Math.round(Math.random() * 100) }))), node('job', job), node('charge', charge)],
+    [connect('quote', 'job'), connect('job', 'charge')]
+  );
+}
+
+describe('Record and replay', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('should replay an execution offline with the same results', async () => {
+    let charges = 0;
+    const charge = api(async () => `charged ${++charges}`);
+
+    const { result, recording } = await recordExecution(checkout(charge), createContext({ variables: { region: 'eu' } }));
+    expect(recording.nodes.job.clock).toHaveLength(1);
+    expect(recording.nodes.job.random).toHaveLength(1);
+    expect(recording.nodes.quote.outputs).toEqual(result.nodeResults.quote);
+
+    const replay = await replayExecution(checkout(charge), recording, createContext());
+
+    expect(replay.divergence).toBeUndefined();
+    expect(replay.result.nodeResults).toEqual(result.nodeResults);
+    expect(charges).toBe(1);
+  });
+
+  it('should return the recorded outputs of maps instead of running their body', async () => {
+    let calls = 0;
+    const body = createFlow([node('call', api(async () => ++calls))]);
+    const map = createMapCapsule(body, { input: { nodeId: 'call', portId: 'in' }, output: { nodeId: 'call', portId: 'out' } });
+    const flow = () =>
+      createFlow(
+        [node('items', createCapsule('Items', async () => ({ out: [1, 2] }))), node('map', map)],
+        [connect('items', 'map', 'out', 'items')]
+      );
+
+    const { result, recording } = await recordExecution(flow(), createContext());
+    const replay = await replayExecution(flow(), recording, createContext());
+
+    expect(replay.divergence).toBeUndefined();
+    expect(replay.result.nodeResults.map).toEqual(result.nodeResults.map);
+    expect(calls).toBe(2);
+  });
+
+  it('should replay recorded failures', async () => {
+    const charge = api(async () => {
+      throw new Error('card declined');
+    });
+
+    const { recording } = await recordExecution(checkout(charge), createContext());
+    const replay = await replayExecution(checkout(api(async () => 'charged')), recording, createContext());
+
+    expect(replay.divergence).toBeUndefined();
+    expect(replay.result.errors).toEqual([{ nodeId: 'charge', error: 'card declined' }]);
+  });
+
+  it('should report the first node behaving differently', async () => {
+    const charge = api(async () => 'charged');
+    const { recording } = await recordExecution(checkout(charge), createContext());
+
+    const discounted = createCapsule('Enqueue', async inputs => ({
+      out: { id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`, price: inputs.in.price - 1 }
+    }));
+    const replay = await replayExecution(checkout(charge, discounted), recording, createContext());
+
+    expect(replay.divergence).toMatchObject({
+      nodeId: 'job',
+      kind: 'outputs',
+      message: 'Node job produced different outputs',
+      expected: recording.nodes.job.outputs
+    });
+    expect(replay.result.nodeResults.charge).toEqual(recording.nodes.charge.outputs);
+  });
+
+  it('should report nodes reading more values than recorded', async () => {
+    const { recording } = await recordExecution(checkout(api(async () => 'charged')), createContext());
+
+    const twice = createCapsule('Enqueue', async inputs => ({
+      out: { id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`, price: inputs.in.price, at: Date.now() }
+    }));
+    const replay = await replayExecution(checkout(api(async () => 'charged'), twice), recording, createContext());
+
+    expect(replay.divergence).toEqual({
+      nodeId: 'job',
+      kind: 'clock',
+      message: 'Node job read the clock more often than when recorded'
+    });
+  });
+
+  it('should leave the clock and random values of code outside the nodes alone', async () => {
+    const slow = createCapsule('Enqueue', async inputs => {
+      const id = `job_${Date.now()}_${Math.random()}`;
+      await sleep(20);
+      return { out: { id, price: inputs.in.price } };
+    });
+    const { recording } = await recordExecution(checkout(api(async () => 'charged'), slow), createContext());
+
+    const outside: number[] = [];
+    const timer = setInterval(() => outside.push(Date.now(), Math.random()), 1);
+    try {
+      const replay = await replayExecution(checkout(api(async () => 'charged'), slow), recording, createContext());
+
+      expect(replay.divergence).toBeUndefined();
+    } finally {
+      clearInterval(timer);
+    }
+    expect(outside).not.toContain(recording.nodes.job.clock[0]);
+    expect(outside).not.toContain(recording.nodes.job.random[0]);
+  });
+
+  it('should not rerun nested flows or sandboxed code', () => {
+    const pass = createCapsule('Pass', async inputs => ({ out: inputs.in }));
+
+    expect(isReplayable(node('pass', pass))).toBe(true);
+    expect(isReplayable(node('nested', { ...pass, nested: true }))).toBe(false);
+    expect(isReplayable(node('code', CODE_CAPSULE))).toBe(false);
+  });
+
+  it('should save and load replay files', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'capsulas-replay-'));
+    const file = join(directory, 'runs', 'checkout.replay.json');
+    const { recording } = await recordExecution(checkout(api(async () => 'charged')), createContext());
+
+    await saveRecording(file, recording);
+    expect(await loadRecording(file)).toEqual(recording);
+
+    await writeFile(file, JSON.stringify({ ...recording, version: 2 }));
+    await expect(loadRecording(file)).rejects.toThrow(`Unsupported recording version 2 in ${file}`);
+  });
+
+  it('should reject recordings of other flows and overlapping recordings', async () => {
+    const flow = checkout(api(async () => 'charged'));
+    const { recording } = await recordExecution(flow, createContext());
+
+    await expect(replayExecution({ ...flow, id: 'other' }, recording, createContext())).rejects.toThrow(
+      `Recording ${recording.executionId} belongs to flow test-flow, not other`
+    );
+
+    const first = recordExecution(flow, createContext());
+    await expect(recordExecution(flow, createContext())).rejects.toThrow(
+      'Another execution is already being recorded or replayed'
+    );
+    await first;
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import ts from 'typescript';
+import { executeFlow } from '../executor';
+import { CODE_CAPSULE, SandboxError, createCodeCapsule, runSandboxed } from '../sandbox';
+import { connect, createCapsule, createContext, createFlow, node } from './helpers';
+
+describe('runSandboxed', () => {
+  it('should run the code with its arguments and return a structured clone', async () => {
+    const { value, logs } = await runSandboxed(
+      `console.log('items', input.items.length);
+       return { total: input.items.reduce((sum, item) => sum + item, 0), at: new Date(0), seen: new Set(input.items) };`,
+      { input: { items: [1, 2, 3] } }
+    );
+
+    expect(value.total).toBe(6);
+    expect(value.at).toEqual(new Date(0));
+    expect(value.seen).toEqual(new Set([1, 2, 3]));
+    expect(logs).toEqual([{ level: 'info', message: 'items 3' }]);
+  });
+
+  it('should hide Node.js and refuse code generation', async () => {
+    const { value } = await runSandboxed('return [typeof require, typeof process, typeof fs, typeof fetch];');
+    expect(value).toEqual(['undefined', 'undefined', 'undefined', 'undefined']);
+
+    await expect(runSandboxed(`return input.constructor.constructor('return process')();`, { input: {} })).rejects.toThrow(
+      'Code generation from strings disallowed'
+    );
+  });
+
+  it('should not run code outside the function body', async () => {
+    const escape = `});
+      Array.isArray = value => { globalThis.leak = value; return false; };
+      (async function () {`;
+
+    await expect(runSandboxed(escape, { input: {} })).rejects.toThrow(/^Syntax error in code: /);
+  });
+
+  it('should keep worker objects out of reach when the code replaces intrinsics', async () => {
+    const { value } = await runSandboxed(
+      `const leaks = [];
+       const grab = value => { if (value && typeof value === 'object') leaks.push(value); };
+       Array.isArray = value => { grab(value); return false; };
+       Object.keys = value => { grab(value); return []; };
+       JSON.parse = text => { grab(text); return []; };
+       Array.prototype.join = function () { grab(this); return ''; };
+       Promise.prototype.then = function () { grab(this); };
+       console.log(input, [1]);
+       await fs.readdir(dir).catch(() => null);
+       return leaks.map(leak => {
+         try { return typeof leak.constructor.constructor('return process')(); } catch (error) { return error.message; }
+       });`,
+      { input: { items: [1] }, dir: tmpdir() },
+      { permissions: { fs: [tmpdir()] } }
+    );
+
+    expect(value.every((result: string) => result !== 'object')).toBe(true);
+  });
+
+  it('should stop code running past its time limit', async () => {
+    const error = await runSandboxed('while (true) {}', {}, { timeout: 50 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(SandboxError);
+    expect(error).toMatchObject({ kind: 'timeout', message: 'Code exceeded its time limit of 50ms' });
+  });
+
+  it('should stop code using more memory than allowed', async () => {
+    const error = await runSandboxed(
+      'const chunks = []; while (true) chunks.push(new Array(100000).fill(chunks.length));',
+      {},
+      { memoryLimit: 16, timeout: 10000 }
+    ).catch(e => e);
+
+    expect(error).toMatchObject({ kind: 'memory', message: 'Code exceeded its memory limit of 16MB' });
+  });
+
+  it('should only reach granted directories and hosts', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sandbox-'));
+    try {
+      const options = { permissions: { fs: [dir], network: ['api.example.com'] } };
+
+      const { value } = await runSandboxed(
+        `await fs.writeFile(dir + '/out.txt', 'hello');
+         return [await fs.readFile(dir + '/out.txt'), await fs.readdir(dir)];`,
+        { dir },
+        options
+      );
+      expect(value).toEqual(['hello', ['out.txt']]);
+      expect(readFileSync(join(dir, 'out.txt'), 'utf8')).toBe('hello');
+
+      await expect(runSandboxed(`return fs.readFile(dir + '/../x');`, { dir }, options)).rejects.toMatchObject({
+        kind: 'permission',
+        message: expect.stringMatching(/^Access to .+ is not allowed$/)
+      });
+      await expect(runSandboxed(`return fetch('http://127.0.0.1:1/');`, {}, options)).rejects.toMatchObject({
+        kind: 'permission',
+        message: 'Network access to 127.0.0.1 is not allowed'
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should terminate the code when the signal aborts', async () => {
+    const controller = new AbortController();
+    const running = runSandboxed('while (true) {}', {}, { timeout: 10000, signal: controller.signal });
+    setTimeout(() => controller.abort(new Error('Stopped by user')), 50);
+
+    await expect(running).rejects.toThrow('Stopped by user');
+  });
+
+  it('should report syntax errors and values that cannot be passed on', async () => {
+    await expect(runSandboxed('return {')).rejects.toThrow(/^Syntax error in code: /);
+    await expect(runSandboxed('return () => 1;')).rejects.toThrow(/^Code returned a value that cannot be passed on/);
+    await expect(runSandboxed('return input;', { input: 1n })).rejects.toThrow(/^Cannot pass arguments to code: /);
+  });
+});
+
+describe('Code capsule', () => {
+  const source = createCapsule('Source', async () => ({ out: { name: 'ada' } }));
+
+  it('should run the node code on its input', async () => {
+    const result = await executeFlow(
+      createFlow(
+        [node('src', source), node('code', CODE_CAPSULE, { code: 'return input.name.toUpperCase();' })],
+        [connect('src', 'code')]
+      ),
+      createContext()
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.nodeResults.code).toEqual({ out: 'ADA' });
+  });
+
+  it('should fail the node when the code reaches a limit', async () => {
+    const capsule = createCodeCapsule({ timeout: 100 });
+    const result = await executeFlow(
+      createFlow([node('code', capsule, { code: 'while (true) {}', timeout: 5000 })]),
+      createContext()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([{ nodeId: 'code', error: 'Code exceeded its time limit of 100ms' }]);
+  });
+
+  it('should run TypeScript through the transpile option', async () => {
+    const capsule = createCodeCapsule({
+      transpile: code => ts.transpileModule(code, { compilerOptions: { target: ts.ScriptTarget.ES2020 } }).outputText
+    });
+    const code = 'const name: string = input.name; return `hi ${name}`;';
+
+    const result = await executeFlow(
+      createFlow([node('src', source), node('code', capsule, { code, language: 'typescript' })], [connect('src', 'code')]),
+      createContext()
+    );
+    const untranspiled = await executeFlow(
+      createFlow([node('code', CODE_CAPSULE, { code, language: 'typescript' })]),
+      createContext()
+    );
+
+    expect(result.nodeResults.code).toEqual({ out: 'hi ada' });
+    expect(untranspiled.errors?.[0].error).toBe('TypeScript code needs a code capsule created with a transpile function');
+  });
+
+  it('should have side effects only when granted permissions', () => {
+    expect(CODE_CAPSULE.sideEffects).toBeFalsy();
+    expect(createCodeCapsule({ permissions: { network: ['*'] } }).sideEffects).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { executeFlow } from '../executor';
+import { isSchemaAssignable } from '../schema';
+import type { JsonSchema } from '../schema';
+import { PortValidationError, validateFlow } from '../validator';
+import { PORT_TYPES } from '../types';
+import type { Capsule } from '../types';
+import { connect, createCapsule, createContext, createFlow, node } from './helpers';
+
+const userSchema: JsonSchema = {
+  type: 'object',
+  required: ['id', 'email'],
+  properties: { id: { type: 'string' }, email: { type: 'string' } },
+};
+
+function withPorts(capsule: Capsule, input?: JsonSchema, output?: JsonSchema): Capsule {
+  return {
+    ...capsule,
+    inputs: [{ id: 'in', name: 'In', type: PORT_TYPES.USER, schema: input }],
+    outputs: [{ id: 'out', name: 'Out', type: PORT_TYPES.USER, schema: output }],
+  };
+}
+
+describe('isSchemaAssignable', () => {
+  it('should accept narrower schemas', () => {
+    expect(isSchemaAssignable({ type: 'integer' }, { type: 'number' })).toEqual([]);
+    expect(isSchemaAssignable({ enum: ['a', 'b'] }, { type: 'string', enum: ['a', 'b', 'c'] })).toEqual([]);
+    expect(
+      isSchemaAssignable(
+        { ...userSchema, required: ['id', 'email', 'name'], properties: { ...userSchema.properties, name: { type: 'string' } } },
+        userSchema
+      )
+    ).toEqual([]);
+    expect(isSchemaAssignable({}, userSchema)).toEqual([]);
+  });
+
+  it('should report structural mismatches with their paths', () => {
+    const source: JsonSchema = {
+      type: 'object',
+      required: ['id'],
+      properties: { id: { type: 'integer' } },
+    };
+
+    expect(isSchemaAssignable(source, userSchema)).toEqual([
+      { path: '$.email', message: 'Required property may be missing' },
+      { path: '$.id', message: 'integer is not assignable to string' },
+    ]);
+    expect(isSchemaAssignable({ type: 'array', items: { type: 'string' } }, { type: 'array', items: { type: 'number' } }))
+      .toEqual([{ path: '$[]', message: 'string is not assignable to number' }]);
+  });
+
+  it('should require every source alternative to fit', () => {
+    const target: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+
+    expect(isSchemaAssignable({ type: 'integer' }, target)).toEqual([]);
+    expect(isSchemaAssignable({ oneOf: [{ type: 'string' }, { type: 'boolean' }] }, target)).toHaveLength(1);
+  });
+});
+
+describe('Port schemas', () => {
+  const partialUser = { type: 'object' as const, required: ['id'], properties: { id: { type: 'string' as const } } };
+
+  it('should report connections whose schemas are not assignable', () => {
+    const source = withPorts(createCapsule('Source', async () => ({ out: { id: '1' } })), undefined, partialUser);
+    const sink = withPorts(createCapsule('Sink', async () => ({})), userSchema);
+    const flow = createFlow([node('a', source), node('b', sink)], [connect('a', 'b')]);
+
+    expect(validateFlow(flow.nodes, flow.connections).errors).toEqual([
+      'Connection a-b: Incompatible schemas - Out → In at $.email: Required property may be missing',
+    ]);
+  });
+
+  it('should reject values that do not match the input port schema at runtime', async () => {
+    const source = createCapsule('Source', async () => ({ out: { id: 42 } }));
+    let received = false;
+    const sink = withPorts(createCapsule('Sink', async () => { received = true; return {}; }), userSchema);
+    const flow = createFlow([node('a', source), node('b', sink)], [connect('a', 'b')]);
+
+    const result = await executeFlow(flow, createContext());
+
+    expect(received).toBe(false);
+    expect(result.nodeExecutions.b.status).toBe('failed');
+    expect(result.errors).toEqual([
+      {
+        nodeId: 'b',
+        error: 'Connection a-b (a.out → b.in): $.email: Required property is missing; $.id: Expected string, got integer',
+      },
+    ]);
+  });
+
+  it('should not validate ports of the built-in types', async () => {
+    const source = createCapsule('Source', async () => ({ out: null }));
+    const sink = {
+      ...createCapsule('Sink', async inputs => ({ out: inputs.in })),
+      inputs: [{ id: 'in', name: 'In', type: PORT_TYPES.STRING }],
+    };
+    const flow = createFlow([node('a', source), node('b', sink)], [connect('a', 'b')]);
+
+    const result = await executeFlow(flow, createContext());
+
+    expect(result.success).toBe(true);
+    expect(result.nodeResults.b).toEqual({ out: null });
+  });
+
+  it('should expose the connection and violations on the error', () => {
+    const error = new PortValidationError(connect('a', 'b'), [{ path: '$', message: 'Expected string, got null' }]);
+
+    expect(error.name).toBe('PortValidationError');
+    expect(error.connection.id).toBe('a-b');
+    expect(error.violations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { executeFlow } from '../executor';
+import { ExecutionEventEmitter } from '../events';
+import {
+  EncryptedFileSecretProvider,
+  EnvSecretProvider,
+  REDACTED,
+  SecretRedactor,
+  resolveSecrets,
+  saveEncryptedSecrets
+} from '../secrets';
+import { validateFlow } from '../validator';
+import type { Capsule } from '../types';
+import { createCapsule, createContext, createFlow, node } from './helpers';
+
+const STRIPE_KEY = 'sk_live_51Habcdefghijklmnop';
+const secrets = new EnvSecretProvider({ STRIPE_KEY });
+
+describe('Secret references', () => {
+  it('should resolve references in node config', async () => {
+    let received: any;
+    const charge = createCapsule('Charge', async (_inputs, config) => {
+      received = config;
+      return { out: 'charged' };
+    });
+
+    const result = await executeFlow(
+      createFlow([node('charge', charge, { apiKey: { $secret: 'STRIPE_KEY' }, headers: [{ $secret: 'STRIPE_KEY' }] })]),
+      createContext({ secrets })
+    );
+
+    expect(result.success).toBe(true);
+    expect(received).toEqual({ apiKey: STRIPE_KEY, headers: [STRIPE_KEY] });
+  });
+
+  it('should fail the node when a secret cannot be resolved', async () => {
+    const flow = createFlow([node('charge', createCapsule('Charge', async () => ({})), { apiKey: { $secret: 'MISSING' } })]);
+
+    const missing = await executeFlow(flow, createContext({ secrets }));
+    const noProvider = await executeFlow(flow, createContext());
+
+    expect(missing.errors).toEqual([{ nodeId: 'charge', error: 'Secret not found: MISSING' }]);
+    expect(noProvider.errors![0].error).toBe('Secret MISSING cannot be resolved: no secret provider configured');
+  });
+
+  it('should read environment variables with a prefix', async () => {
+    const provider = new EnvSecretProvider({ APP_SECRET_TOKEN: 't0k3n' }, 'APP_SECRET_');
+
+    expect(await provider.get('TOKEN')).toBe('t0k3n');
+    expect(await resolveSecrets({ nested: { token: { $secret: 'TOKEN' } }, keep: 1 }, provider)).toEqual({
+      nested: { token: 't0k3n' },
+      keep: 1
+    });
+  });
+});
+
+describe('Redaction', () => {
+  const leaky: Capsule = createCapsule('Leaky', async (_inputs, config, context) => {
+    context!.execution.logger!.info(`Calling API with ${config!.apiKey}`);
+    if (config!.fail) throw new Error(`Unauthorized key ${config!.apiKey}`);
+    return { out: { echoed: `Bearer ${config!.apiKey}` } };
+  });
+
+  it('should redact secrets from logs, events and results', async () => {
+    const logs: string[] = [];
+    const events = new ExecutionEventEmitter();
+    const completed: any[] = [];
+    events.on('nodeCompleted', event => completed.push(event.outputs));
+
+    const result = await executeFlow(
+      createFlow([node('leaky', leaky, { apiKey: { $secret: 'STRIPE_KEY' } })]),
+      createContext({
+        secrets,
+        events,
+        logger: { info: m => logs.push(m), warn: m => logs.push(m), error: m => logs.push(m) }
+      })
+    );
+
+    expect(result.nodeResults.leaky).toEqual({ out: { echoed: `Bearer ${REDACTED}` } });
+    expect(completed).toEqual([{ out: { echoed: `Bearer ${REDACTED}` } }]);
+    expect(logs).toContain(`Calling API with ${REDACTED}`);
+    expect(JSON.stringify({ logs, result })).not.toContain(STRIPE_KEY);
+  });
+
+  it('should redact secrets from errors', async () => {
+    const result = await executeFlow(
+      createFlow([node('leaky', leaky, { apiKey: { $secret: 'STRIPE_KEY' }, fail: true })]),
+      createContext({ secrets })
+    );
+
+    expect(result.errors).toEqual([{ nodeId: 'leaky', error: `Unauthorized key ${REDACTED}` }]);
+    expect(result.nodeExecutions.leaky.error).toBe(`Unauthorized key ${REDACTED}`);
+  });
+
+  it('should replace the longest secret first', () => {
+    const redactor = new SecretRedactor().add('abc').add('abcdef').add('');
+
+    expect(redactor.size).toBe(2);
+    expect(redactor.redact('x abcdef y abc')).toBe(`x ${REDACTED} y ${REDACTED}`);
+    expect(redactor.redactValue({ list: ['abc', 1], when: new Date(0) })).toEqual({
+      list: [REDACTED, 1],
+      when: new Date(0)
+    });
+  });
+});
+
+describe('EncryptedFileSecretProvider', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  // Same shape as the encryption capsule's EncryptionService
+  const key = randomBytes(32);
+  const encryption = {
+    encrypt(text: string) {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv('aes-256-gcm', key, iv);
+      const encrypted = cipher.update(text, 'utf8', 'hex') + cipher.final('hex');
+      return { encrypted, iv: iv.toString('hex'), tag: cipher.getAuthTag().toString('hex') };
+    },
+    decrypt(encrypted: string, iv: string, tag?: string) {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'hex'));
+      decipher.setAuthTag(Buffer.from(tag!, 'hex'));
+      return { decrypted: decipher.update(encrypted, 'hex', 'utf8') + decipher.final('utf8') };
+    }
+  };
+
+  it('should decrypt secrets written with saveEncryptedSecrets', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'capsulas-secrets-'));
+    const filePath = join(directory, 'secrets.enc.json');
+
+    await saveEncryptedSecrets(filePath, { STRIPE_KEY }, encryption);
+    const provider = new EncryptedFileSecretProvider(filePath, encryption);
+
+    expect(await readFile(filePath, 'utf-8')).not.toContain(STRIPE_KEY);
+    expect(await provider.get('STRIPE_KEY')).toBe(STRIPE_KEY);
+    expect(await provider.get('OTHER')).toBeUndefined();
+  });
+});
+
+describe('Inline credential warnings', () => {
+  const capsule = createCapsule('HTTP', async () => ({}));
+
+  it('should warn about credentials stored in config', () => {
+    const { valid, diagnostics } = validateFlow([
+      node('a', capsule, { apiKey: 'abc123', url: 'https://example.com' }),
+      node('b', capsule, { auth: { header: STRIPE_KEY } }),
+      node('c', { ...capsule, configSchema: { signingKey: { type: 'string', secret: true } } }, { signingKey: 'hunter2' })
+    ], []);
+
+    expect(valid).toBe(true);
+    expect(diagnostics.filter(d => d.code === 'inline-secret')).toEqual([
+      expect.objectContaining({
+        severity: 'warning',
+        nodeId: 'a',
+        path: 'config.apiKey',
+        message: 'Node HTTP: config.apiKey holds a credential in plain text'
+      }),
+      expect.objectContaining({ nodeId: 'b', message: 'Node HTTP: config.auth.header holds a Stripe key in plain text' }),
+      expect.objectContaining({ nodeId: 'c', message: 'Node HTTP: config.signingKey holds a secret in plain text' })
+    ]);
+  });
+
+  it('should accept secret references and templates', () => {
+    const { diagnostics } = validateFlow([
+      node('a', capsule, { apiKey: { $secret: 'API_KEY' }, token: '{{ env.TOKEN }}', password: '' })
+    ], []);
+
+    expect(diagnostics.filter(d => d.code === 'inline-secret')).toEqual([]);
+  });
+});
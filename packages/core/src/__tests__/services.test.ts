@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import { executeFlow } from '../executor';
+import { ServiceContainer } from '../services';
+import { createSubflowCapsule } from '../subflow';
+import { connect, createCapsule, createContext, createFlow, node, silentLogger } from './helpers';
+
+/**
+ * Service recording its lifecycle in a shared log
+ */
+class FakeDatabase {
+  constructor(readonly config: Record<string, any>, private log: string[]) {}
+
+  async initialize() {
+    this.log.push(`init ${this.config.url}`);
+  }
+
+  async cleanup() {
+    this.log.push(`cleanup ${this.config.url}`);
+  }
+}
+
+function databases(log: string[]) {
+  return new ServiceContainer({ database: config => new FakeDatabase(config, log) });
+}
+
+const query = createCapsule('Query', async (_inputs, config, context) => {
+  const db = await context!.services!.get<FakeDatabase>('database', { url: config!.url });
+  return { out: db };
+});
+
+describe('ServiceContainer', () => {
+  it('should share one instance per config, including concurrent first calls', async () => {
+    const log: string[] = [];
+    const container = databases(log);
+
+    const [a, b] = await Promise.all([
+      container.get('database', { url: 'pg://a', pool: { max: 5 } }),
+      container.get('database', { pool: { max: 5 }, url: 'pg://a' })
+    ]);
+    const other = await container.get('database', { url: 'pg://b' });
+
+    expect(a).toBe(b);
+    expect(other).not.toBe(a);
+    expect(container.size).toBe(2);
+    expect(log).toEqual(['init pg://a', 'init pg://b']);
+  });
+
+  it('should clean up newest first and report failing cleanups', async () => {
+    const log: string[] = [];
+    const container = databases(log).register('broken', () => ({
+      cleanup: () => {
+        throw new Error('connection reset');
+      }
+    }));
+
+    await container.get('database', { url: 'pg://a' });
+    await container.get('broken');
+    await container.get('database', { url: 'pg://b' });
+
+    expect(await container.cleanup()).toEqual(['broken: connection reset']);
+    expect(log).toEqual(['init pg://a', 'init pg://b', 'cleanup pg://b', 'cleanup pg://a']);
+    expect(container.size).toBe(0);
+  });
+
+  it('should let the next caller retry a service that failed to initialize', async () => {
+    let attempts = 0;
+    const container = new ServiceContainer({
+      flaky: () => ({
+        initialize: async () => {
+          if (++attempts === 1) throw new Error('timeout');
+        }
+      })
+    });
+
+    await expect(container.get('flaky')).rejects.toThrow('Service flaky failed to initialize: timeout');
+    await expect(container.get('flaky')).resolves.toBeDefined();
+    expect(attempts).toBe(2);
+    expect(await container.cleanup()).toEqual([]);
+  });
+
+  it('should reject unknown services', async () => {
+    await expect(new ServiceContainer().get('queue')).rejects.toThrow('Service not registered: queue');
+  });
+});
+
+describe('Managed services during execution', () => {
+  it('should share services between nodes and clean them up when the run ends', async () => {
+    const log: string[] = [];
+    const services = databases(log);
+
+    const result = await executeFlow(
+      createFlow([node('a', query, { url: 'pg://main' }), node('b', query, { url: 'pg://main' })]),
+      createContext({ services })
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.nodeResults.a.out).toBe(result.nodeResults.b.out);
+    expect(log).toEqual(['init pg://main', 'cleanup pg://main']);
+    expect(services.size).toBe(0);
+  });
+
+  it('should clean up run services when the flow fails', async () => {
+    const log: string[] = [];
+    const fail = createCapsule('Fail', async () => {
+      throw new Error('boom');
+    });
+
+    const result = await executeFlow(
+      createFlow([node('query', query, { url: 'pg://main' }), node('fail', fail)], [connect('query', 'fail')]),
+      createContext({ services: databases(log) })
+    );
+
+    expect(result.success).toBe(false);
+    expect(log).toEqual(['init pg://main', 'cleanup pg://main']);
+  });
+
+  it('should clean up run services when the execution is cancelled', async () => {
+    const log: string[] = [];
+    const controller = new AbortController();
+    const wait = createCapsule('Wait', (_inputs, _config, context) => new Promise((_resolve, reject) => {
+      controller.abort(new Error('Stopped by user'));
+      context!.signal.addEventListener('abort', () => reject(context!.signal.reason));
+    }));
+
+    const result = await executeFlow(
+      createFlow([node('query', query, { url: 'pg://main' }), node('wait', wait)], [connect('query', 'wait')]),
+      createContext({ services: databases(log), signal: controller.signal })
+    );
+
+    expect(result.cancelled).toBe(true);
+    expect(log).toEqual(['init pg://main', 'cleanup pg://main']);
+  });
+
+  it('should keep shared services alive across runs', async () => {
+    const log: string[] = [];
+    const services = new ServiceContainer({ database: config => new FakeDatabase(config, log) }, 'shared');
+    const flow = createFlow([node('query', query, { url: 'pg://main' })]);
+
+    const first = await executeFlow(flow, createContext({ services }));
+    const second = await executeFlow(flow, createContext({ services }));
+
+    expect(first.nodeResults.query.out).toBe(second.nodeResults.query.out);
+    expect(log).toEqual(['init pg://main']);
+
+    await services.cleanup();
+    expect(log).toEqual(['init pg://main', 'cleanup pg://main']);
+  });
+
+  it('should share run services with subflows', async () => {
+    const log: string[] = [];
+    const inner = { ...createFlow([node('query', query, { url: 'pg://main' })]), id: 'inner' };
+    const sub = createSubflowCapsule(inner, { inputs: [], outputs: [{ id: 'db', nodeId: 'query', portId: 'out' }] });
+
+    const result = await executeFlow(
+      createFlow([node('query', query, { url: 'pg://main' }), node('sub', sub)]),
+      createContext({ services: databases(log) })
+    );
+
+    expect(result.nodeResults.sub.db).toBe(result.nodeResults.query.out);
+    expect(log).toEqual(['init pg://main', 'cleanup pg://main']);
+  });
+
+  it('should log cleanup failures without failing the run', async () => {
+    const warnings: string[] = [];
+    const services = new ServiceContainer({
+      cache: () => ({
+        cleanup: async () => {
+          throw new Error('socket closed');
+        }
+      })
+    });
+    const useCache = createCapsule('UseCache', async (_inputs, _config, context) => {
+      await context!.services!.get('cache');
+      return {};
+    });
+
+    const result = await executeFlow(
+      createFlow([node('use', useCache)]),
+      createContext({
+        services,
+        logger: { ...silentLogger, warn: (message: string) => warnings.push(message) }
+      })
+    );
+
+    expect(result.success).toBe(true);
+    expect(warnings).toEqual(['Service cleanup failed: cache: socket closed']);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import { executeFlow } from '../executor';
+import { StreamTee, collectStream } from '../streams';
+import { diagnoseFlow } from '../validator';
+import { PORT_TYPES, defineCapsule } from '../types';
+import type { PortType } from '../types';
+import { connect, createCapsule, createContext, createFlow, node, sleep } from './helpers';
+
+async function* count(to: number, log: string[] = []) {
+  for (let i = 1; i <= to; i++) {
+    log.push(`produce ${i}`);
+    yield i;
+  }
+}
+
+/**
+ * Capsule streaming the items returned by `produce`
+ */
+function producer(produce: () => AsyncIterable<unknown>, type: PortType = PORT_TYPES.NUMBER) {
+  return defineCapsule({
+    name: 'Producer',
+    description: 'Streams items',
+    icon: '🧪',
+    category: 'processing',
+    inputs: [],
+    outputs: [{ id: 'out', name: 'Out', type, stream: true }],
+    execute: async () => ({ out: produce() })
+  });
+}
+
+/**
+ * Capsule reading a stream input with `read`
+ */
+function consumer(read: (items: AsyncIterable<any>) => Promise<unknown>, type: PortType = PORT_TYPES.NUMBER) {
+  return defineCapsule({
+    name: 'Consumer',
+    description: 'Reads a stream',
+    icon: '🧪',
+    category: 'processing',
+    inputs: [{ id: 'in', name: 'In', type, required: true, stream: true }],
+    outputs: [{ id: 'out', name: 'Out', type: PORT_TYPES.ANY }],
+    execute: async inputs => ({ out: await read(inputs.in) })
+  });
+}
+
+describe('StreamTee', () => {
+  it('should hold the producer back until the slowest reader catches up', async () => {
+    const log: string[] = [];
+    const tee = new StreamTee(count(10, log), 2, 2);
+    const [fast, slow] = tee.readers;
+
+    await slow.next();
+    const fastItems = collectStream(fast);
+    await sleep(10);
+    expect(log).toEqual(['produce 1', 'produce 2', 'produce 3']);
+
+    const slowItems = collectStream(slow);
+    expect(await fastItems).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(await slowItems).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(await tee.finished).toBe(10);
+  });
+
+  it('should deliver the items read before a failure', async () => {
+    async function* failing() {
+      yield 'a';
+      throw new Error('connection lost');
+    }
+    const tee = new StreamTee(failing(), 1);
+    const items: string[] = [];
+
+    await expect((async () => {
+      for await (const item of tee.readers[0]) items.push(item);
+    })()).rejects.toThrow('connection lost');
+    expect(items).toEqual(['a']);
+    await expect(tee.finished).rejects.toThrow('connection lost');
+  });
+
+  it('should close the source once every reader stopped', async () => {
+    let closed = false;
+    async function* endless() {
+      try {
+        for (let i = 0; ; i++) yield i;
+      } finally {
+        closed = true;
+      }
+    }
+    const tee = new StreamTee(endless(), 1);
+
+    for await (const item of tee.readers[0]) {
+      if (item === 2) break;
+    }
+
+    expect(await tee.finished).toBe(3);
+    expect(closed).toBe(true);
+  });
+});
+
+describe('Streaming ports in flows', () => {
+  it('should pass items downstream as they are produced', async () => {
+    const log: string[] = [];
+    const flow = createFlow(
+      [
+        node('tokens', producer(() => count(3, log))),
+        node('socket', consumer(async items => {
+          for await (const item of items) log.push(`send ${item}`);
+          return 'sent';
+        }))
+      ],
+      [connect('tokens', 'socket')]
+    );
+
+    const result = await executeFlow(flow, createContext());
+
+    expect(result.success).toBe(true);
+    expect(log).toEqual(['produce 1', 'send 1', 'produce 2', 'send 2', 'produce 3', 'send 3']);
+    expect(result.nodeResults).toEqual({ tokens: { out: { $stream: { items: 3 } } }, socket: { out: 'sent' } });
+    expect(result.nodeExecutions.tokens.status).toBe('completed');
+  });
+
+  it('should collect a stream read by a plain input and split it between readers', async () => {
+    const flow = createFlow(
+      [
+        node('rows', producer(() => count(4))),
+        node('csv', createCapsule('CSV', async inputs => ({ out: inputs.in.join(',') }))),
+        node('total', consumer(async items => {
+          let sum = 0;
+          for await (const item of items) sum += item;
+          return sum;
+        }))
+      ],
+      [connect('rows', 'csv'), connect('rows', 'total')]
+    );
+
+    const result = await executeFlow(flow, createContext());
+
+    expect(result.nodeResults.csv).toEqual({ out: '1,2,3,4' });
+    expect(result.nodeResults.total).toEqual({ out: 10 });
+  });
+
+  it('should fail the producer and its readers when the stream fails', async () => {
+    async function* failing() {
+      yield 1;
+      throw new Error('cursor closed');
+    }
+    const flow = createFlow(
+      [node('rows', producer(failing)), node('csv', consumer(collectStream))],
+      [connect('rows', 'csv')]
+    );
+
+    const result = await executeFlow(flow, createContext());
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      { nodeId: 'rows', error: 'Stream out failed: cursor closed' },
+      { nodeId: 'csv', error: 'cursor closed' }
+    ]);
+  });
+
+  it('should stop producing when the reader stops early or fails', async () => {
+    let closed = false;
+    async function* endless() {
+      try {
+        for (let i = 1; ; i++) yield i;
+      } finally {
+        closed = true;
+      }
+    }
+    const flow = createFlow(
+      [
+        node('rows', producer(endless)),
+        node('first', consumer(async items => {
+          for await (const item of items) throw new Error(`rejected ${item}`);
+        }))
+      ],
+      [connect('rows', 'first')]
+    );
+
+    const result = await executeFlow(flow, createContext());
+
+    expect(closed).toBe(true);
+    expect(result.nodeExecutions.rows.status).toBe('completed');
+    expect(result.errors).toEqual([{ nodeId: 'first', error: 'rejected 1' }]);
+  });
+
+  it('should check each item against the input port schema', async () => {
+    const positive = { id: 'positive', name: 'Positive', color: '#000', schema: { type: 'number', minimum: 0 } } as const;
+    const flow = createFlow(
+      [
+        node('numbers', producer(async function* () { yield 1; yield -1; })),
+        node('sum', consumer(collectStream, positive))
+      ],
+      [connect('numbers', 'sum')]
+    );
+
+    const result = await executeFlow(flow, createContext());
+
+    expect(result.errors).toEqual([
+      { nodeId: 'sum', error: 'Connection numbers-sum (numbers.out → sum.in): $: Expected at least 0' }
+    ]);
+  });
+
+  it('should validate connections between stream and plain ports', () => {
+    const flow = createFlow(
+      [
+        node('tokens', producer(() => count(1), PORT_TYPES.STRING)),
+        node('text', consumer(collectStream, PORT_TYPES.STRING)),
+        node('list', defineCapsule({ ...createCapsule('List', async () => ({})), inputs: [{ id: 'in', name: 'In', type: PORT_TYPES.ARRAY }] })),
+        node('word', defineCapsule({ ...createCapsule('Word', async () => ({})), inputs: [{ id: 'in', name: 'In', type: PORT_TYPES.STRING }] }))
+      ],
+      [connect('tokens', 'text'), connect('tokens', 'list'), connect('tokens', 'word')]
+    );
+
+    const incompatible = diagnoseFlow(flow.nodes, flow.connections).filter(d => d.code === 'incompatible-types');
+
+    expect(incompatible).toEqual([
+      expect.objectContaining({
+        connectionId: 'tokens-word',
+        message: 'Connection tokens-word: Incompatible types - Out (String stream) → In (String)'
+      })
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { executeFlow } from '../executor';
+import { createSubflowCapsule, findSubflowCycle } from '../subflow';
+import { validateFlow } from '../validator';
+import { PORT_TYPES, defineCapsule } from '../types';
+import type { Flow } from '../types';
+import { connect, createCapsule, createContext, createFlow, node } from './helpers';
+
+const normalize = defineCapsule({
+  name: 'Normalize',
+  description: 'Lowercase an email',
+  icon: '🧪',
+  category: 'processing',
+  inputs: [{ id: 'email', name: 'Email', type: PORT_TYPES.STRING, required: true }],
+  outputs: [{ id: 'out', name: 'Out', type: PORT_TYPES.STRING }],
+  execute: async inputs => ({ out: String(inputs.email).toLowerCase() }),
+});
+const wrap = createCapsule('Wrap', async inputs => ({ out: `<${inputs.in}>` }));
+
+function contactFlow(): Flow {
+  return {
+    ...createFlow([node('normalize', normalize), node('wrap', wrap)], [connect('normalize', 'wrap', 'out', 'in')]),
+    id: 'contact-flow',
+    name: 'Contact',
+  };
+}
+
+const contactCapsule = () =>
+  createSubflowCapsule(contactFlow(), {
+    inputs: [{ id: 'email', nodeId: 'normalize', portId: 'email' }],
+    outputs: [{ id: 'result', nodeId: 'wrap', portId: 'out', name: 'Result' }],
+  });
+
+describe('Subflows', () => {
+  it('should derive ports from the inner flow', () => {
+    const capsule = contactCapsule();
+
+    expect(capsule.id).toBe('subflow.contact-flow');
+    expect(capsule.inputs).toEqual([
+      { id: 'email', name: 'Email', type: PORT_TYPES.STRING, required: true, description: undefined },
+    ]);
+    expect(capsule.outputs[0]).toMatchObject({ id: 'result', name: 'Result', type: PORT_TYPES.ANY });
+    expect(capsule.subflow?.id).toBe('contact-flow');
+  });
+
+  it('should run the subflow as a node and expose its result', async () => {
+    const source = createCapsule('Source', async () => ({ out: 'Ada@Example.com' }));
+
+    const result = await executeFlow(
+      createFlow([node('src', source), node('contact', contactCapsule())], [connect('src', 'contact', 'out', 'email')]),
+      createContext()
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.nodeResults.contact).toEqual({ result: '<ada@example.com>' });
+    expect(result.subflowResults?.contact.nodeResults.wrap).toEqual({ out: '<ada@example.com>' });
+  });
+
+  it('should nest subflows', async () => {
+    const inner = createFlow([node('contact', contactCapsule())]);
+    const outerFlow: Flow = { ...inner, id: 'outer-flow', name: 'Outer' };
+    const outer = createSubflowCapsule(outerFlow, {
+      inputs: [{ id: 'email', nodeId: 'contact', portId: 'email' }],
+      outputs: [{ id: 'result', nodeId: 'contact', portId: 'result' }],
+    });
+    const source = createCapsule('Source', async () => ({ out: 'X@Y.io' }));
+
+    const result = await executeFlow(
+      createFlow([node('src', source), node('outer', outer)], [connect('src', 'outer', 'out', 'email')]),
+      createContext()
+    );
+
+    expect(result.nodeResults.outer).toEqual({ result: '<x@y.io>' });
+    expect(result.subflowResults?.outer.subflowResults?.contact.success).toBe(true);
+  });
+
+  it('should fail the node when the subflow fails', async () => {
+    const failing = createCapsule('Failing', async () => {
+      throw new Error('boom');
+    });
+    const capsule = createSubflowCapsule(
+      { ...createFlow([node('f', failing)]), id: 'failing-flow', name: 'Failing' },
+      { inputs: [], outputs: [{ id: 'out', nodeId: 'f', portId: 'out' }] }
+    );
+
+    const result = await executeFlow(createFlow([node('sub', capsule)]), createContext());
+
+    expect(result.errors).toEqual([{ nodeId: 'sub', error: 'Subflow "Failing" failed at f: boom' }]);
+    expect(result.subflowResults?.sub.success).toBe(false);
+  });
+
+  it('should reject mappings to unknown nodes or ports', () => {
+    expect(() =>
+      createSubflowCapsule(contactFlow(), { inputs: [{ id: 'x', nodeId: 'nope', portId: 'in' }], outputs: [] })
+    ).toThrow('has no node nope');
+    expect(() =>
+      createSubflowCapsule(contactFlow(), { inputs: [{ id: 'x', nodeId: 'wrap', portId: 'nope' }], outputs: [] })
+    ).toThrow('input port nope not found on wrap');
+  });
+
+  describe('Cycle detection', () => {
+    function createCycle() {
+      const flowA = contactFlow();
+      const capsuleA = createSubflowCapsule(flowA, {
+        inputs: [{ id: 'email', nodeId: 'normalize', portId: 'email' }],
+        outputs: [],
+      });
+      const flowB: Flow = { ...createFlow([node('a', capsuleA)]), id: 'flow-b', name: 'B' };
+      const capsuleB = createSubflowCapsule(flowB, {
+        inputs: [{ id: 'email', nodeId: 'a', portId: 'email' }],
+        outputs: [],
+      });
+      // Close the loop after creation: flow A now contains B, which contains A
+      flowA.nodes.push(node('b', capsuleB));
+      return { flowA, capsuleB };
+    }
+
+    it('should find cycles across subflow references', () => {
+      const { flowA } = createCycle();
+
+      expect(findSubflowCycle(flowA)).toEqual(['contact-flow', 'flow-b', 'contact-flow']);
+      expect(findSubflowCycle(contactFlow())).toBeNull();
+    });
+
+    it('should reject circular subflows at creation and validation', () => {
+      const { flowA, capsuleB } = createCycle();
+
+      expect(() => createSubflowCapsule(flowA, { inputs: [], outputs: [] })).toThrow('Circular subflow reference');
+
+      const validation = validateFlow([node('b', capsuleB)], []);
+      expect(validation.valid).toBe(false);
+      expect(validation.errors.some(e => e.includes('Circular subflow reference'))).toBe(true);
+    });
+
+    it('should fail at runtime when a subflow runs inside itself', async () => {
+      const { capsuleB } = createCycle();
+
+      const result = await executeFlow(
+        { ...createFlow([node('b', capsuleB)]), id: 'root' },
+        createContext()
+      );
+
+      expect(result.success).toBe(false);
+      expect(JSON.stringify(result.subflowResults)).toContain('Circular subflow reference');
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { executeFlow } from '../executor';
+import { toFlowDocument } from '../flow-format';
+import { CapsuleRegistry } from '../registry';
+import {
+  FlowAssertionError,
+  getSnapshotPath,
+  recordFixtures,
+  runFlowTest,
+  runFlowTestFile
+} from '../testing';
+import type { Capsule } from '../types';
+import { connect, createCapsule, createContext, createFlow, node } from './helpers';
+
+const fetchOrder: Capsule = {
+  ...createCapsule('Fetch Order', async () => {
+    throw new Error('network access in a test');
+  }),
+  id: 'fetch-order',
+  sideEffects: true
+};
+
+const total: Capsule = {
+  ...createCapsule('Total', async inputs => ({
+    out: inputs.in.items.reduce((sum: number, item: { price: number }) => sum + item.price, 0)
+  })),
+  id: 'total'
+};
+
+const order = { id: 'o-1', items: [{ price: 5 }, { price: 7 }] };
+
+function orderFlow() {
+  return createFlow([node('fetch', fetchOrder), node('sum', total)], [connect('fetch', 'sum')]);
+}
+
+describe('runFlowTest', () => {
+  it('should replace nodes with fixed outputs and record inputs', async () => {
+    const run = await runFlowTest(orderFlow(), { mocks: { fetch: { outputs: { out: order } } } });
+
+    expect(run.result.success).toBe(true);
+    expect(run.inputs('sum')).toEqual({ in: order });
+    expect(run.outputs('sum')).toEqual({ out: 12 });
+    run.assert({ success: true, nodes: { sum: { status: 'completed', outputs: { out: 12 }, calls: 1 } } });
+  });
+
+  it('should call mock functions with inputs and config', async () => {
+    const run = await runFlowTest(
+      createFlow([node('fetch', fetchOrder, { id: '{{ variables.orderId }}' }), node('sum', total)], [
+        connect('fetch', 'sum')
+      ]),
+      {
+        variables: { orderId: 'o-1' },
+        mocks: { fetch: (_inputs, config) => ({ out: { ...order, id: config.id } }) }
+      }
+    );
+
+    expect(run.calls.fetch[0].config).toEqual({ id: 'o-1' });
+    expect(run.calls.fetch[0].outputs).toEqual({ out: order });
+  });
+
+  it('should simulate failures with error mocks', async () => {
+    const run = await runFlowTest(orderFlow(), { mocks: { fetch: { error: 'Order not found' } } });
+
+    run.assertNode('fetch', { status: 'failed', error: 'Order not found' });
+    run.assertNode('sum', { status: 'skipped', calls: 0 });
+  });
+
+  it('should fail unmocked nodes with side effects', async () => {
+    const run = await runFlowTest(orderFlow());
+
+    expect(run.status('fetch')).toBe('failed');
+    expect(run.result.nodeExecutions.fetch.error).toBe('Node fetch (Fetch Order) has side effects and is not mocked');
+  });
+
+  it('should replay recorded fixtures', async () => {
+    const live = await executeFlow(
+      createFlow([node('fetch', createCapsule('Live', async () => ({ out: order }))), node('sum', total)], [
+        connect('fetch', 'sum')
+      ]),
+      createContext()
+    );
+
+    const run = await runFlowTest(orderFlow(), { fixtures: { fetch: recordFixtures(live).fetch } });
+
+    expect(run.outputs('sum')).toEqual({ out: 12 });
+  });
+
+  it('should reject mocks for unknown nodes', async () => {
+    await expect(runFlowTest(orderFlow(), { mocks: { fetc: { outputs: {} } } })).rejects.toThrow(
+      'Mocked nodes not found in flow test-flow: fetc'
+    );
+  });
+
+  it('should list every unmet expectation', async () => {
+    const run = await runFlowTest(orderFlow(), { mocks: { fetch: { outputs: { out: order } } } });
+
+    expect(run.check({ success: false, nodes: { sum: { outputs: { out: 13 } }, missing: {} } })).toEqual([
+      'success: expected false, got true',
+      'nodes.sum.outputs.out: expected 13, got 12',
+      'nodes.missing: node not found in flow test-flow'
+    ]);
+    expect(() => run.assertNode('sum', { inputs: { in: { id: 'o-2' } } })).toThrow(FlowAssertionError);
+  });
+
+  it('should produce snapshots without timings or ids', async () => {
+    const run = await runFlowTest(orderFlow(), { mocks: { fetch: { outputs: { out: order } } } });
+
+    expect(run.snapshot()).toEqual({
+      success: true,
+      errors: [],
+      nodes: {
+        fetch: { status: 'completed', attempts: 1, inputs: {}, outputs: { out: order } },
+        sum: { status: 'completed', attempts: 1, inputs: { in: order }, outputs: { out: 12 } }
+      }
+    });
+  });
+});
+
+describe('runFlowTestFile', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  async function writeSuite(expectedTotal: number, fetched = order): Promise<string> {
+    directory = directory ?? await mkdtemp(join(tmpdir(), 'capsulas-flowtest-'));
+    await writeFile(join(directory, 'order.flow.json'), JSON.stringify(toFlowDocument(orderFlow())));
+    await writeFile(join(directory, 'fixtures.json'), JSON.stringify({ fetch: { out: fetched } }));
+
+    const testFile = join(directory, 'order.flowtest.json');
+    await writeFile(testFile, JSON.stringify({
+      flow: './order.flow.json',
+      fixtures: './fixtures.json',
+      tests: [
+        { name: 'sums prices', expect: { nodes: { sum: { outputs: { out: expectedTotal } } } }, snapshot: true },
+        { name: 'handles missing orders', mocks: { fetch: { error: 'Not found' } }, expect: { success: false } }
+      ]
+    }));
+    return testFile;
+  }
+
+  it('should run test cases and write snapshots on first run', async () => {
+    const testFile = await writeSuite(12);
+    const registry = new CapsuleRegistry([fetchOrder, total]);
+
+    const result = await runFlowTestFile(testFile, { registry, ci: false });
+
+    expect(result.passed).toBe(true);
+    expect(result.tests.map(t => [t.name, t.passed, t.snapshotWritten])).toEqual([
+      ['sums prices', true, true],
+      ['handles missing orders', true, undefined]
+    ]);
+    const stored = JSON.parse(await readFile(getSnapshotPath(testFile), 'utf-8'));
+    expect(stored['sums prices'].nodes.sum.outputs).toEqual({ out: 12 });
+  });
+
+  it('should fail on expectation and snapshot mismatches', async () => {
+    const registry = new CapsuleRegistry([fetchOrder, total]);
+    const testFile = await writeSuite(12);
+    await runFlowTestFile(testFile, { registry, ci: false });
+
+    const cheaper = { id: 'o-1', items: [{ price: 1 }] };
+    const result = await runFlowTestFile(await writeSuite(12, cheaper), { registry });
+
+    expect(result.passed).toBe(false);
+    expect(result.tests[0].failures).toContain('nodes.sum.outputs.out: expected 12, got 1');
+    expect(result.tests[0].failures).toContain('snapshot.nodes.sum.outputs.out: expected 12, got 1');
+
+    const updated = await runFlowTestFile(await writeSuite(1, cheaper), { registry, updateSnapshots: true });
+    expect(updated.passed).toBe(true);
+  });
+
+  it('should fail on missing snapshots in CI', async () => {
+    const testFile = await writeSuite(12);
+    const registry = new CapsuleRegistry([fetchOrder, total]);
+
+    const result = await runFlowTestFile(testFile, { registry, ci: true });
+
+    expect(result.tests[0]).toMatchObject({
+      passed: false,
+      failures: [`snapshot: missing from ${getSnapshotPath(testFile)}, snapshots are not written in CI`],
+    });
+    await expect(readFile(getSnapshotPath(testFile), 'utf-8')).rejects.toThrow('ENOENT');
+  });
+
+  it('should reject snapshot files that cannot be parsed', async () => {
+    const testFile = await writeSuite(12);
+    const registry = new CapsuleRegistry([fetchOrder, total]);
+    await mkdir(dirname(getSnapshotPath(testFile)), { recursive: true });
+    await writeFile(getSnapshotPath(testFile), '{ "sums prices": ');
+
+    await expect(runFlowTestFile(testFile, { registry, ci: false })).rejects.toThrow(
+      `Invalid snapshot file ${getSnapshotPath(testFile)}`
+    );
+    expect(await readFile(getSnapshotPath(testFile), 'utf-8')).toBe('{ "sums prices": ');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { diagnoseFlow, validateFlow } from '../validator';
+import { MERGE_CAPSULE } from '../control';
+import { connect, createCapsule, createFlow, node } from './helpers';
+
+const echo = createCapsule('Echo', async inputs => ({ out: inputs.in }));
+
+function codes(flow: ReturnType<typeof createFlow>) {
+  return diagnoseFlow(flow.nodes, flow.connections).map(d => `${d.severity}:${d.code}:${d.nodeId ?? d.connectionId}`);
+}
+
+describe('diagnoseFlow', () => {
+  it('should report cycles instead of throwing', () => {
+    const flow = createFlow(
+      [node('a', echo), node('b', echo), node('c', echo), node('d', echo)],
+      [connect('a', 'b'), connect('b', 'c'), connect('c', 'b'), connect('c', 'd')]
+    );
+
+    const diagnostics = diagnoseFlow(flow.nodes, flow.connections);
+
+    expect(diagnostics.find(d => d.code === 'cycle')?.message).toBe('Circular dependency: b → c → b');
+    expect(codes(flow)).toContain('error:multiple-connections:b');
+    expect(codes(flow)).toContain('warning:unreachable-node:d');
+  });
+
+  it('should allow several connections into a merge capsule', () => {
+    const flow = createFlow(
+      [node('a', echo), node('b', echo), node('m', MERGE_CAPSULE), node('x', echo)],
+      [connect('a', 'm'), connect('b', 'm'), connect('a', 'x', 'out', 'in'), connect('b', 'x', 'out', 'in')]
+    );
+
+    const diagnostics = diagnoseFlow(flow.nodes, flow.connections).filter(d => d.code === 'multiple-connections');
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ nodeId: 'x', portId: 'in', message: 'Node Echo: Input "In" has 2 connections (a-x, b-x)' }),
+    ]);
+  });
+
+  it('should warn about unknown config keys with a suggestion', () => {
+    const http = { ...echo, configSchema: { timeout: { type: 'number' }, baseURL: { type: 'string' } } };
+    const flow = createFlow([node('a', http, { timeot: 10, in: 'value', other: true })]);
+
+    expect(diagnoseFlow(flow.nodes, flow.connections)).toEqual([
+      expect.objectContaining({ code: 'unknown-config-key', path: 'config.timeot', hint: 'Did you mean "timeout"?' }),
+      expect.objectContaining({ code: 'unknown-config-key', path: 'config.other', hint: 'Known keys: timeout, baseURL, in' }),
+    ]);
+  });
+
+  it('should flag disconnected nodes and unused outputs of side effects', () => {
+    const send = { ...echo, sideEffects: true };
+    const flow = createFlow(
+      [
+        node('a', echo),
+        node('send', send),
+        node('audit', send),
+        node('log', echo, { prefix: '{{ nodes.audit.output }}' }),
+        node('lonely', echo),
+      ],
+      [connect('a', 'send'), connect('a', 'audit'), connect('audit', 'log')]
+    );
+
+    expect(codes(flow)).toEqual(['warning:disconnected-node:lonely', 'info:unused-output:send']);
+  });
+
+  it('should keep error messages in validateFlow', () => {
+    const flow = createFlow([node('a', echo), node('b', echo)], [connect('a', 'b'), connect('b', 'a')]);
+    const result = validateFlow(flow.nodes, flow.connections);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Circular dependency: a → b → a']);
+    expect(result.diagnostics[0]).toMatchObject({ code: 'cycle', severity: 'error', nodeId: 'a' });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @capsulas/core - Typed flow builder
+ *
+ * Assembles flows in code. With capsules defined from `as const` ports,
+ * connect() only accepts existing port ids and input ports whose type
+ * accepts the value of the output port.
+ */
+
+import { Capsule, Connection, Flow, Node, NodePolicy, Port, PortValue } from './types';
+
+type AnyCapsule = Capsule<any, any>;
+
+/**
+ * Output port ids of a capsule
+ */
+export type OutputPortId<C extends AnyCapsule> = C['outputs'][number]['id'];
+
+/**
+ * Value type of one output port of a capsule
+ */
+export type OutputPortValue<C extends AnyCapsule, P> = string extends OutputPortId<C>
+  ? any
+  : PortValue<Extract<C['outputs'][number], { id: P }>['type']>;
+
+/**
+ * Input port ids of a capsule that accept values of type V
+ */
+export type CompatibleInputPortId<C extends AnyCapsule, V> = string extends C['inputs'][number]['id']
+  ? string
+  : {
+      [P in C['inputs'][number] as P['id']]: [V] extends [PortValue<P['type']>] ? P['id'] : never;
+    }[C['inputs'][number]['id']];
+
+/**
+ * Placement and behaviour of a node added to a builder
+ */
+export interface FlowBuilderNodeOptions {
+  config?: Record<string, any>;
+  position?: { x: number; y: number };
+  policy?: NodePolicy;
+}
+
+/**
+ * Type-checked flow assembly
+ *
+ * @example
+ * const flow = new FlowBuilder({ id: 'signup', name: 'Signup' })
+ *   .node('parse', parseCapsule)
+ *   .node('save', saveCapsule)
+ *   .connect('parse', 'user', 'save', 'record')
+ *   .build();
+ */
+export class FlowBuilder<N extends Record<string, AnyCapsule> = {}> {
+  private nodes: Node[] = [];
+  private connections: Connection[] = [];
+
+  constructor(private readonly flow: Omit<Flow, 'nodes' | 'connections'>) {}
+
+  /**
+   * Add a node
+   * @throws Error if the id is already used
+   */
+  node<Id extends string, C extends AnyCapsule>(
+    id: Id extends keyof N ? never : Id,
+    capsule: C,
+    options: FlowBuilderNodeOptions = {}
+  ): FlowBuilder<N & { [K in Id]: C }> {
+    if (this.nodes.some(n => n.id === id)) {
+      throw new Error(`Node ${id} is already in flow ${this.flow.id}`);
+    }
+
+    this.nodes.push({
+      id,
+      capsule: capsule as Capsule,
+      position: options.position ?? { x: 0, y: 0 },
+      config: options.config,
+      policy: options.policy
+    });
+
+    return this as unknown as FlowBuilder<N & { [K in Id]: C }>;
+  }
+
+  /**
+   * Connect an output port to an input port
+   * @throws Error if either node or port does not exist
+   */
+  connect<
+    F extends keyof N & string,
+    FP extends OutputPortId<N[F]>,
+    T extends keyof N & string,
+    TP extends CompatibleInputPortId<N[T], OutputPortValue<N[F], FP>>
+  >(fromNode: F, fromPort: FP, toNode: T, toPort: TP): this {
+    const source = this.findPort(fromNode, fromPort, 'outputs');
+    this.findPort(toNode, toPort, 'inputs');
+
+    this.connections.push({
+      id: `${fromNode}.${fromPort}-${toNode}.${toPort}`,
+      fromNode,
+      fromPort,
+      toNode,
+      toPort,
+      color: source.type.color
+    });
+
+    return this;
+  }
+
+  /**
+   * Create the flow
+   */
+  build(): Flow {
+    return {
+      ...this.flow,
+      nodes: [...this.nodes],
+      connections: [...this.connections]
+    };
+  }
+
+  private findPort(nodeId: string, portId: string, direction: 'inputs' | 'outputs'): Port {
+    const node = this.nodes.find(n => n.id === nodeId);
+    if (!node) {
+      throw new Error(`Node ${nodeId} is not in flow ${this.flow.id}`);
+    }
+
+    const port = node.capsule[direction].find(p => p.id === portId);
+    if (!port) {
+      throw new Error(
+        `${direction === 'inputs' ? 'Input' : 'Output'} port ${portId} not found on ${node.capsule.name}`
+      );
+    }
+
+    return port;
+  }
+}
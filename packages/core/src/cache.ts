@@ -0,0 +1,137 @@
+/**
+ * @capsulas/core - Memoized node outputs
+ *
+ * Caches the outputs of pure nodes keyed by a hash of the capsule, its
+ * resolved config and its inputs, so re-running a flow only executes the
+ * nodes whose config or inputs changed and their downstream dependents.
+ */
+
+import { createHash } from 'crypto';
+import type { Capsule, Node } from './types';
+
+/**
+ * Storage backend for memoized node outputs
+ */
+export interface NodeOutputCache {
+  get(key: string): Promise<Record<string, any> | undefined>;
+  set(key: string, outputs: Record<string, any>): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory output cache evicting the least recently used entries
+ */
+export class MemoryNodeOutputCache implements NodeOutputCache {
+  private entries = new Map<string, string>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  async get(key: string): Promise<Record<string, any> | undefined> {
+    const stored = this.entries.get(key);
+    if (stored === undefined) return undefined;
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, stored);
+    return JSON.parse(stored);
+  }
+
+  async set(key: string, outputs: Record<string, any>): Promise<void> {
+    // Stored serialized so callers cannot mutate cached outputs
+    this.entries.delete(key);
+    this.entries.set(key, JSON.stringify(outputs));
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Serialize a value with object keys sorted
+ * Returns undefined when the value holds functions, symbols or cycles.
+ */
+export function stableStringify(value: any): string | undefined {
+  const seen = new Set<any>();
+
+  const serialize = (current: any): string | undefined => {
+    if (current && typeof current.toJSON === 'function') current = current.toJSON();
+    if (current === null || typeof current === 'number' || typeof current === 'boolean' || typeof current === 'string') {
+      return JSON.stringify(current);
+    }
+    if (typeof current !== 'object' || seen.has(current)) return undefined;
+
+    seen.add(current);
+    let result: string | undefined;
+
+    if (Array.isArray(current)) {
+      const items = current.map(item => (item === undefined ? 'null' : serialize(item)));
+      result = items.includes(undefined) ? undefined : `[${items.join(',')}]`;
+    } else {
+      const fields: string[] = [];
+      for (const key of Object.keys(current).sort()) {
+        if (current[key] === undefined) continue;
+        const serialized = serialize(current[key]);
+        if (serialized === undefined) {
+          seen.delete(current);
+          return undefined;
+        }
+        fields.push(`${JSON.stringify(key)}:${serialized}`);
+      }
+      result = `{${fields.join(',')}}`;
+    }
+
+    seen.delete(current);
+    return result;
+  };
+
+  return serialize(value);
+}
+
+/**
+ * Whether a node's outputs may be memoized
+ * Capsules with side effects, triggers, subflows or `memoize: false` and nodes
+ * with `policy.memoize: false` always run.
+ */
+export function isMemoizable(node: Node): boolean {
+  return (
+    !node.capsule.sideEffects &&
+    !node.capsule.trigger &&
+    !node.capsule.subflow &&
+    node.capsule.memoize !== false &&
+    node.policy?.memoize !== false
+  );
+}
+
+/**
+ * Hash identifying one execution of a capsule
+ *
+ * @param capsule - Capsule the node runs; its id and version are part of the key
+ * @param config - Node config after template resolution
+ * @param inputs - Values received on the input ports
+ * @returns Hex SHA-256 digest, or undefined when config or inputs cannot be serialized
+ */
+export function computeNodeCacheKey(
+  capsule: Capsule,
+  config: Record<string, any>,
+  inputs: Record<string, any>
+): string | undefined {
+  const serialized = stableStringify({
+    capsule: capsule.id,
+    version: capsule.version ?? null,
+    config,
+    inputs
+  });
+
+  return serialized === undefined
+    ? undefined
+    : createHash('sha256').update(serialized).digest('hex');
+}
@@ -0,0 +1,214 @@
+/**
+ * @capsulas/core - Execution checkpoints
+ *
+ * Pluggable stores persisting the progress of a flow execution so a failed
+ * run can be resumed without repeating the nodes that already completed.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SqlTable } from './sql';
+import type { NodeExecution } from './types';
+
+/**
+ * Overall status recorded in a checkpoint
+ */
+export type CheckpointStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Snapshot of an execution, saved after every node
+ * Resolved secret values in `nodeResults` are redacted, and the nodes whose
+ * results held one are listed in `redactedNodes`.
+ */
+export interface ExecutionCheckpoint {
+  executionId: string;
+  flowId: string;
+  status: CheckpointStatus;
+  nodeResults: Record<string, any>;
+  nodeExecutions: Record<string, NodeExecution>;
+  /** Nodes whose results had secrets redacted; they run again on resume */
+  redactedNodes?: string[];
+  updatedAt: number;
+}
+
+/**
+ * Storage backend for checkpoints
+ */
+export interface CheckpointStore {
+  save(checkpoint: ExecutionCheckpoint): Promise<void>;
+  load(executionId: string): Promise<ExecutionCheckpoint | null>;
+  delete(executionId: string): Promise<void>;
+}
+
+/**
+ * In-memory checkpoint store, mostly useful for tests and single-process runs
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, string>();
+
+  async save(checkpoint: ExecutionCheckpoint): Promise<void> {
+    // Stored serialized so later mutations of the execution state do not leak in
+    this.checkpoints.set(checkpoint.executionId, JSON.stringify(checkpoint));
+  }
+
+  async load(executionId: string): Promise<ExecutionCheckpoint | null> {
+    const stored = this.checkpoints.get(executionId);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  async delete(executionId: string): Promise<void> {
+    this.checkpoints.delete(executionId);
+  }
+}
+
+/**
+ * Checkpoint store writing one JSON file per execution
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private readonly directory: string) {}
+
+  async save(checkpoint: ExecutionCheckpoint): Promise<void> {
+    const file = this.getPath(checkpoint.executionId);
+    const tempFile = `${file}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so a crash never leaves a truncated checkpoint
+    await fs.writeFile(tempFile, JSON.stringify(checkpoint, null, 2), 'utf-8');
+    await fs.rename(tempFile, file);
+  }
+
+  async load(executionId: string): Promise<ExecutionCheckpoint | null> {
+    try {
+      const content = await fs.readFile(this.getPath(executionId), 'utf-8');
+      return JSON.parse(content);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(executionId: string): Promise<void> {
+    await fs.rm(this.getPath(executionId), { force: true });
+  }
+
+  private getPath(executionId: string): string {
+    if (!/^[\w.-]+$/.test(executionId)) {
+      throw new Error(`Invalid execution id for file checkpoint: ${executionId}`);
+    }
+
+    return path.join(this.directory, `${executionId}.json`);
+  }
+}
+
+/**
+ * Subset of the database capsule's DatabaseService used for checkpoints
+ */
+export interface CheckpointDatabase {
+  query(sql: string, params?: any[]): Promise<{ rows: any[] }>;
+  executeSQL(sql: string, params?: any[]): Promise<unknown>;
+  /** Used for multi-statement writes when present, as pooled connections need it */
+  transaction?<T>(callback: (trx: { execute(sql: string, params?: any[]): Promise<unknown> }) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Run write statements atomically
+ *
+ * Uses the database's `transaction` when it has one and plain
+ * BEGIN/COMMIT/ROLLBACK statements otherwise.
+ *
+ * @param db - Database to write to
+ * @param statements - SQL and parameters of each statement, in order
+ */
+export async function executeInTransaction(
+  db: CheckpointDatabase,
+  statements: Array<{ sql: string; params?: any[] }>
+): Promise<void> {
+  if (db.transaction) {
+    await db.transaction(async trx => {
+      for (const { sql, params } of statements) {
+        await trx.execute(sql, params);
+      }
+    });
+    return;
+  }
+
+  await db.executeSQL('BEGIN');
+  try {
+    for (const { sql, params } of statements) {
+      await db.executeSQL(sql, params);
+    }
+  } catch (error) {
+    await db.executeSQL('ROLLBACK').catch(() => undefined);
+    throw error;
+  }
+  await db.executeSQL('COMMIT');
+}
+
+export interface DatabaseCheckpointStoreOptions {
+  /** Defaults to "capsulas_checkpoints" */
+  tableName?: string;
+  /** Parameter placeholder style: "?" (SQLite/MySQL) or "$1" (PostgreSQL) */
+  paramStyle?: 'question' | 'dollar';
+}
+
+/**
+ * Checkpoint store backed by the database capsule
+ *
+ * @example
+ * const db = createDatabaseService({ type: 'postgres', ... });
+ * await db.initialize();
+ * const store = new DatabaseCheckpointStore(db, { paramStyle: 'dollar' });
+ */
+export class DatabaseCheckpointStore implements CheckpointStore {
+  private readonly table: SqlTable;
+
+  constructor(private readonly db: CheckpointDatabase, options: DatabaseCheckpointStoreOptions = {}) {
+    this.table = new SqlTable(
+      db,
+      options.tableName || 'capsulas_checkpoints',
+      'execution_id TEXT PRIMARY KEY, flow_id TEXT, status TEXT, data TEXT, updated_at BIGINT',
+      options.paramStyle || 'question',
+      'checkpoint'
+    );
+  }
+
+  async save(checkpoint: ExecutionCheckpoint): Promise<void> {
+    await this.table.ensure();
+    await executeInTransaction(this.db, [
+      {
+        sql: `DELETE FROM ${this.table.name} WHERE execution_id = ${this.table.param(1)}`,
+        params: [checkpoint.executionId]
+      },
+      {
+        sql:
+          `INSERT INTO ${this.table.name} (execution_id, flow_id, status, data, updated_at) ` +
+          `VALUES (${this.table.param(1)}, ${this.table.param(2)}, ${this.table.param(3)}, ${this.table.param(4)}, ${this.table.param(5)})`,
+        params: [
+          checkpoint.executionId,
+          checkpoint.flowId,
+          checkpoint.status,
+          JSON.stringify(checkpoint),
+          checkpoint.updatedAt
+        ]
+      }
+    ]);
+  }
+
+  async load(executionId: string): Promise<ExecutionCheckpoint | null> {
+    await this.table.ensure();
+    const result = await this.db.query(
+      `SELECT data FROM ${this.table.name} WHERE execution_id = ${this.table.param(1)}`,
+      [executionId]
+    );
+    const row = result.rows[0];
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async delete(executionId: string): Promise<void> {
+    await this.table.ensure();
+    await this.db.executeSQL(
+      `DELETE FROM ${this.table.name} WHERE execution_id = ${this.table.param(1)}`,
+      [executionId]
+    );
+  }
+}
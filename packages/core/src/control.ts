@@ -0,0 +1,175 @@
+/**
+ * @capsulas/core - Control flow capsules
+ *
+ * Built-in capsules for conditional branching. Branch capsules only emit
+ * the output port of the branch taken; nodes downstream of the other ports
+ * are skipped. A merge capsule runs with whichever branch reached it.
+ */
+
+import { Capsule, PORT_TYPES, defineCapsule } from './types';
+
+/**
+ * Comparison operators supported by conditions
+ */
+export type ConditionOperator =
+  | 'truthy'
+  | 'falsy'
+  | 'exists'
+  | 'equals'
+  | 'notEquals'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in';
+
+/**
+ * Condition evaluated against the value flowing into a branch node
+ */
+export interface Condition {
+  /** Dot-separated path into the value, e.g. "data.valid" */
+  path?: string;
+  operator: ConditionOperator;
+  value?: any;
+}
+
+/**
+ * Read a dot-separated path from a value
+ */
+export function getValueAtPath(value: any, path?: string): any {
+  if (!path) return value;
+
+  return path.split('.').reduce(
+    (current, key) => (current === null || current === undefined ? undefined : current[key]),
+    value
+  );
+}
+
+/**
+ * Evaluate a condition against a value
+ */
+export function evaluateCondition(value: any, condition: Condition): boolean {
+  const actual = getValueAtPath(value, condition.path);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'truthy':
+      return Boolean(actual);
+    case 'falsy':
+      return !actual;
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'equals':
+      return actual === expected;
+    case 'notEquals':
+      return actual !== expected;
+    case 'gt':
+      return actual > expected;
+    case 'gte':
+      return actual >= expected;
+    case 'lt':
+      return actual < expected;
+    case 'lte':
+      return actual <= expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    default:
+      throw new Error(`Unknown condition operator: ${(condition as Condition).operator}`);
+  }
+}
+
+/**
+ * If/else capsule
+ *
+ * Routes `value` to the `true` or `false` output. The decision comes from the
+ * `condition` input when connected, otherwise from `config.condition`
+ * (defaults to the truthiness of `value`).
+ */
+export const IF_CAPSULE: Capsule = defineCapsule({
+  id: 'core.if',
+  name: 'If',
+  version: '1.0.0',
+  description: 'Route a value to the true or false branch',
+  icon: '⑂',
+  category: 'processing',
+  control: 'branch',
+  inputs: [
+    { id: 'value', name: 'Value', type: PORT_TYPES.ANY, required: true },
+    { id: 'condition', name: 'Condition', type: PORT_TYPES.ANY, description: 'Overrides config.condition when connected' }
+  ],
+  outputs: [
+    { id: 'true', name: 'True', type: PORT_TYPES.ANY },
+    { id: 'false', name: 'False', type: PORT_TYPES.ANY }
+  ],
+  configSchema: {
+    condition: { type: 'object', description: 'Condition evaluated against value' }
+  },
+  execute: async (inputs, config) => {
+    const passed = 'condition' in inputs
+      ? Boolean(inputs.condition)
+      : evaluateCondition(inputs.value, config?.condition || { operator: 'truthy' });
+
+    return { [passed ? 'true' : 'false']: inputs.value ?? null };
+  }
+});
+
+/**
+ * Create a switch capsule with one output port per case
+ *
+ * The value at `config.path` is stringified and matched against the case
+ * names; unmatched values go to the `default` output.
+ *
+ * @param cases - Case names, used as output port ids
+ */
+export function createSwitchCapsule(cases: string[]): Capsule {
+  if (cases.includes('default')) {
+    throw new Error('Switch case "default" is reserved');
+  }
+
+  return defineCapsule({
+    id: 'core.switch',
+    name: 'Switch',
+    version: '1.0.0',
+    description: 'Route a value to the output matching its case',
+    icon: '⑃',
+    category: 'processing',
+    control: 'branch',
+    inputs: [{ id: 'value', name: 'Value', type: PORT_TYPES.ANY, required: true }],
+    outputs: [
+      ...cases.map(name => ({ id: name, name, type: PORT_TYPES.ANY })),
+      { id: 'default', name: 'Default', type: PORT_TYPES.ANY }
+    ],
+    config: { cases },
+    configSchema: {
+      path: { type: 'string', description: 'Path of the value to switch on' }
+    },
+    // The cases are not part of the cache key
+    memoize: false,
+    execute: async (inputs, config) => {
+      const key = String(getValueAtPath(inputs.value, config?.path));
+      const port = cases.includes(key) ? key : 'default';
+
+      return { [port]: inputs.value ?? null };
+    }
+  });
+}
+
+/**
+ * Merge capsule
+ *
+ * Accepts several connections on its `in` port and forwards the value of
+ * whichever branch ran. Skipped only when every incoming branch was skipped.
+ */
+export const MERGE_CAPSULE: Capsule = defineCapsule({
+  id: 'core.merge',
+  name: 'Merge',
+  version: '1.0.0',
+  description: 'Continue with whichever branch ran',
+  icon: '⑁',
+  category: 'processing',
+  control: 'merge',
+  inputs: [{ id: 'in', name: 'In', type: PORT_TYPES.ANY, required: true }],
+  outputs: [{ id: 'out', name: 'Out', type: PORT_TYPES.ANY }],
+  configSchema: {},
+  execute: async inputs => ({ out: inputs.in })
+});
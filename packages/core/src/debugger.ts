@@ -0,0 +1,494 @@
+/**
+ * @capsulas/core - Flow debugger
+ *
+ * Debug sessions run a flow one node at a time, pausing before or after
+ * nodes at breakpoints so their inputs and outputs can be inspected and
+ * edited. A session is driven through methods or a JSON protocol, and
+ * several clients (editor, desktop app, REPL) can attach to it at once.
+ */
+
+import { executeFlow } from './executor';
+import type { FlowDocument } from './flow-format';
+import type { ExecutionContext, ExecutionResult, Flow, NodeInterception } from './types';
+import { generateExecutionId } from './utils';
+
+/**
+ * Point of a node where a session can pause
+ */
+export type DebugPhase = 'before' | 'after';
+
+/**
+ * Where to pause: at a node, or before the node a connection feeds
+ */
+export type BreakpointOptions =
+  | { nodeId: string; phase?: DebugPhase }
+  | { connectionId: string };
+
+export interface Breakpoint {
+  id: string;
+  nodeId?: string;
+  connectionId?: string;
+  phase: DebugPhase;
+}
+
+/**
+ * Why a session paused
+ * - entry: before the first node, with `stopOnEntry`
+ * - breakpoint: a breakpoint matched
+ * - step: after step()
+ * - pause: after pause()
+ */
+export type PauseReason = 'entry' | 'breakpoint' | 'step' | 'pause';
+
+export interface DebugPause {
+  nodeId: string;
+  phase: DebugPhase;
+  reason: PauseReason;
+  breakpointId?: string;
+  /** Inputs of the node, including edits made while paused */
+  inputs: Record<string, any>;
+  config: Record<string, any>;
+  /** Outputs of the node when paused after it, including edits */
+  outputs?: Record<string, any>;
+}
+
+export type DebugSessionStatus = 'idle' | 'running' | 'paused' | 'completed' | 'failed';
+
+/**
+ * Snapshot of a session, as returned by the `state` command
+ */
+export interface DebugState {
+  status: DebugSessionStatus;
+  executionId: string;
+  pause?: DebugPause;
+  breakpoints: Breakpoint[];
+  /** Outputs of the nodes completed so far */
+  outputs: Record<string, Record<string, any>>;
+  result?: ExecutionResult;
+  /** Why the execution could not run */
+  error?: string;
+}
+
+export type DebugEvent =
+  | { type: 'paused'; pause: DebugPause }
+  | { type: 'resumed' }
+  | { type: 'breakpoints'; breakpoints: Breakpoint[] }
+  | { type: 'completed'; result: ExecutionResult }
+  /** The execution could not run, e.g. a FlowDocument without a registry */
+  | { type: 'failed'; error: string };
+
+export interface DebugSessionOptions {
+  /** Pause before the first node */
+  stopOnEntry?: boolean;
+}
+
+/**
+ * Commands of the JSON protocol
+ * Arguments: setBreakpoint takes BreakpointOptions, removeBreakpoint `{ id }`,
+ * stop `{ reason? }`, setInput and setOutput `{ port, value }`.
+ */
+export type DebugCommand =
+  | 'start'
+  | 'state'
+  | 'setBreakpoint'
+  | 'removeBreakpoint'
+  | 'continue'
+  | 'step'
+  | 'pause'
+  | 'stop'
+  | 'setInput'
+  | 'setOutput';
+
+export interface DebugRequestMessage {
+  type: 'request';
+  seq: number;
+  command: DebugCommand;
+  arguments?: any;
+}
+
+export interface DebugResponseMessage {
+  type: 'response';
+  /** seq of the request answered */
+  requestSeq: number;
+  command: string;
+  success: boolean;
+  body?: any;
+  /** Error message when success is false */
+  message?: string;
+}
+
+export interface DebugEventMessage {
+  type: 'event';
+  event: DebugEvent['type'];
+  body: Omit<DebugEvent, 'type'>;
+}
+
+export type DebugMessage = DebugRequestMessage | DebugResponseMessage | DebugEventMessage;
+
+/**
+ * Client attached to a session through connect()
+ */
+export interface DebugConnection {
+  /** Handle one JSON request; the response is sent through `send` */
+  receive(message: string): Promise<void>;
+  close(): void;
+}
+
+interface PausedNode {
+  pause: DebugPause;
+  /** Ports edited while paused */
+  overrides: Record<string, any>;
+  resume: () => void;
+}
+
+/**
+ * Interactive execution of one flow
+ *
+ * Nodes run one at a time (`maxConcurrency: 1`) so the session always has a
+ * single current node. Nodes of subflows run without pausing.
+ *
+ * @example
+ * const session = new DebugSession(flow, context, { stopOnEntry: true });
+ * session.setBreakpoint({ nodeId: 'ai', phase: 'after' });
+ * session.on(event => event.type === 'paused' && console.log(event.pause));
+ * const result = session.start();
+ * session.step();
+ */
+export class DebugSession {
+  readonly executionId: string;
+  private breakpoints = new Map<string, Breakpoint>();
+  private listeners = new Set<(event: DebugEvent) => void>();
+  private controller = new AbortController();
+  private breakOnNext: PauseReason | undefined;
+  private paused: PausedNode | undefined;
+  private outputs: Record<string, Record<string, any>> = {};
+  private result: ExecutionResult | undefined;
+  private error: string | undefined;
+  private running: Promise<ExecutionResult> | undefined;
+  private nextBreakpointId = 1;
+
+  constructor(
+    private readonly flow: Flow | FlowDocument,
+    private readonly context: ExecutionContext,
+    options: DebugSessionOptions = {}
+  ) {
+    this.executionId = context.executionId || generateExecutionId();
+    this.breakOnNext = options.stopOnEntry ? 'entry' : undefined;
+  }
+
+  get status(): DebugSessionStatus {
+    if (this.result) return 'completed';
+    if (this.error !== undefined) return 'failed';
+    if (this.paused) return 'paused';
+    return this.running ? 'running' : 'idle';
+  }
+
+  /**
+   * Run the flow; resolves when it completes or is stopped
+   * @throws Error if the session was already started
+   */
+  start(): Promise<ExecutionResult> {
+    if (this.running) {
+      throw new Error('Debug session already started');
+    }
+
+    const { signal } = this.context;
+    if (signal?.aborted) this.controller.abort(signal.reason);
+    const onAbort = () => this.stop(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    this.running = executeFlow(this.flow, {
+      ...this.context,
+      executionId: this.executionId,
+      maxConcurrency: 1,
+      signal: this.controller.signal,
+      interceptor: {
+        beforeNode: node => this.intercept('before', node),
+        afterNode: node => {
+          if (node.executionId === this.executionId) this.outputs[node.nodeId] = node.outputs;
+          return this.intercept('after', node, node.outputs);
+        }
+      }
+    })
+      .then(
+        result => {
+          this.result = result;
+          this.emit({ type: 'completed', result });
+          return result;
+        },
+        error => {
+          this.error = error instanceof Error ? error.message : String(error);
+          this.emit({ type: 'failed', error: this.error });
+          throw error;
+        }
+      )
+      .finally(() => signal?.removeEventListener('abort', onAbort));
+
+    return this.running;
+  }
+
+  /**
+   * Pause at a node or connection
+   * @throws Error if the node or connection is not in the flow
+   */
+  setBreakpoint(options: BreakpointOptions): Breakpoint {
+    const breakpoint: Breakpoint = { id: String(this.nextBreakpointId++), phase: 'before' };
+
+    if ('connectionId' in options) {
+      if (!this.flow.connections.some(c => c.id === options.connectionId)) {
+        throw new Error(`Connection ${options.connectionId} not found in flow ${this.flow.id}`);
+      }
+      breakpoint.connectionId = options.connectionId;
+    } else {
+      if (!this.flow.nodes.some(n => n.id === options.nodeId)) {
+        throw new Error(`Node ${options.nodeId} not found in flow ${this.flow.id}`);
+      }
+      breakpoint.nodeId = options.nodeId;
+      breakpoint.phase = options.phase ?? 'before';
+    }
+
+    this.breakpoints.set(breakpoint.id, breakpoint);
+    this.emit({ type: 'breakpoints', breakpoints: this.listBreakpoints() });
+    return breakpoint;
+  }
+
+  removeBreakpoint(id: string): boolean {
+    const removed = this.breakpoints.delete(id);
+    if (removed) this.emit({ type: 'breakpoints', breakpoints: this.listBreakpoints() });
+    return removed;
+  }
+
+  listBreakpoints(): Breakpoint[] {
+    return [...this.breakpoints.values()];
+  }
+
+  /**
+   * Run until the next breakpoint
+   */
+  continue(): void {
+    this.resume(undefined);
+  }
+
+  /**
+   * Run until the next pause point: after the current node, or before the next one
+   */
+  step(): void {
+    this.resume('step');
+  }
+
+  /**
+   * Pause at the next pause point
+   */
+  pause(): void {
+    if (this.status !== 'running') {
+      throw new Error(`Cannot pause a debug session that is ${this.status}`);
+    }
+    this.breakOnNext = 'pause';
+  }
+
+  /**
+   * Cancel the execution; the current node is reported as cancelled
+   */
+  stop(reason: unknown = 'Debug session stopped'): void {
+    if (this.controller.signal.aborted) return;
+    this.controller.abort(reason instanceof Error ? reason : new Error(String(reason)));
+    this.paused?.resume();
+  }
+
+  /**
+   * Replace an input of the node the session is paused before
+   * @throws Error if not paused before a node
+   */
+  setInput(port: string, value: any): void {
+    const paused = this.requirePause('before', 'Inputs');
+    paused.overrides[port] = value;
+    paused.pause.inputs = { ...paused.pause.inputs, [port]: value };
+  }
+
+  /**
+   * Replace an output of the node the session is paused after
+   * @throws Error if not paused after a node
+   */
+  setOutput(port: string, value: any): void {
+    const paused = this.requirePause('after', 'Outputs');
+    paused.overrides[port] = value;
+    paused.pause.outputs = { ...paused.pause.outputs, [port]: value };
+    this.outputs[paused.pause.nodeId] = paused.pause.outputs;
+  }
+
+  getState(): DebugState {
+    return {
+      status: this.status,
+      executionId: this.executionId,
+      ...(this.paused && { pause: this.paused.pause }),
+      breakpoints: this.listBreakpoints(),
+      outputs: { ...this.outputs },
+      ...(this.result && { result: this.result }),
+      ...(this.error !== undefined && { error: this.error })
+    };
+  }
+
+  /**
+   * Listen to session events
+   * @returns Function removing the listener
+   */
+  on(listener: (event: DebugEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Handle one protocol request
+   */
+  async handle(request: DebugRequestMessage): Promise<DebugResponseMessage> {
+    const response = { type: 'response' as const, requestSeq: request.seq, command: request.command };
+    const args = request.arguments ?? {};
+
+    try {
+      let body: any;
+      switch (request.command) {
+        case 'start':
+          // Clients learn about a failed run from the failed event
+          this.start().catch(() => {});
+          body = { executionId: this.executionId };
+          break;
+        case 'state':
+          body = this.getState();
+          break;
+        case 'setBreakpoint':
+          body = this.setBreakpoint(args);
+          break;
+        case 'removeBreakpoint':
+          body = { removed: this.removeBreakpoint(args.id) };
+          break;
+        case 'continue':
+          this.continue();
+          break;
+        case 'step':
+          this.step();
+          break;
+        case 'pause':
+          this.pause();
+          break;
+        case 'stop':
+          this.stop(args.reason);
+          break;
+        case 'setInput':
+          this.setInput(args.port, args.value);
+          break;
+        case 'setOutput':
+          this.setOutput(args.port, args.value);
+          break;
+        default:
+          throw new Error(`Unknown debug command: ${request.command}`);
+      }
+      return { ...response, success: true, ...(body !== undefined && { body }) };
+    } catch (error) {
+      return { ...response, success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Attach a client speaking the JSON protocol
+   *
+   * @param send - Delivers a JSON message to the client, e.g. over a WebSocket or stdout
+   */
+  connect(send: (message: string) => void): DebugConnection {
+    const unsubscribe = this.on(({ type, ...body }) => {
+      const message: DebugEventMessage = { type: 'event', event: type, body };
+      send(JSON.stringify(message));
+    });
+
+    return {
+      receive: async (message: string) => {
+        let request: DebugRequestMessage;
+        try {
+          request = JSON.parse(message);
+        } catch (error) {
+          const response: DebugResponseMessage = {
+            type: 'response',
+            requestSeq: 0,
+            command: '',
+            success: false,
+            message: `Invalid debug message: ${(error as Error).message}`
+          };
+          send(JSON.stringify(response));
+          return;
+        }
+        send(JSON.stringify(await this.handle(request)));
+      },
+      close: unsubscribe
+    };
+  }
+
+  /**
+   * Pause the execution when a breakpoint or pending step matches the node
+   * @returns Ports edited while paused
+   */
+  private intercept(
+    phase: DebugPhase,
+    node: NodeInterception,
+    outputs?: Record<string, any>
+  ): Promise<Record<string, any> | void> | void {
+    // Subflow nodes and a stopped session never pause
+    if (node.executionId !== this.executionId || this.controller.signal.aborted) return;
+
+    const breakpoint = this.listBreakpoints().find(b =>
+      b.phase === phase &&
+      (b.nodeId === node.nodeId || (b.connectionId && node.connections.some(c => c.id === b.connectionId)))
+    );
+    const reason = this.breakOnNext ?? (breakpoint && 'breakpoint');
+    if (!reason) return;
+
+    this.breakOnNext = undefined;
+    const pause: DebugPause = {
+      nodeId: node.nodeId,
+      phase,
+      reason,
+      ...(reason === 'breakpoint' && { breakpointId: breakpoint!.id }),
+      inputs: node.inputs,
+      config: node.config,
+      ...(outputs && { outputs })
+    };
+
+    return new Promise(resolve => {
+      const overrides: Record<string, any> = {};
+      this.paused = {
+        pause,
+        overrides,
+        resume: () => {
+          this.paused = undefined;
+          resolve(overrides);
+        }
+      };
+      this.emit({ type: 'paused', pause });
+    });
+  }
+
+  private resume(breakOnNext: PauseReason | undefined): void {
+    if (!this.paused) {
+      throw new Error(`Cannot resume a debug session that is ${this.status}`);
+    }
+    this.breakOnNext = breakOnNext;
+    this.paused.resume();
+    this.emit({ type: 'resumed' });
+  }
+
+  private requirePause(phase: DebugPhase, what: string): PausedNode {
+    if (this.paused?.pause.phase !== phase) {
+      throw new Error(`${what} can only be edited while paused ${phase} a node`);
+    }
+    return this.paused;
+  }
+
+  private emit(event: DebugEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        // A failing client must not break the session
+        this.context.logger?.error(`Debug session listener failed: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * @capsulas/core - Execution lifecycle events
+ *
+ * Typed events emitted while a flow runs, consumable through an emitter or
+ * as an async iterator.
+ */
+
+import { executeFlow } from './executor';
+import { generateExecutionId } from './utils';
+import type { ExecutionResult, Flow, ExecutionContext } from './types';
+import type { FlowDocument } from './flow-format';
+
+interface BaseExecutionEvent {
+  executionId: string;
+  flowId: string;
+  timestamp: number;
+}
+
+export interface FlowStartedEvent extends BaseExecutionEvent {
+  type: 'flowStarted';
+  flowName: string;
+  /** Node ids in execution order */
+  nodeIds: string[];
+}
+
+export interface NodeStartedEvent extends BaseExecutionEvent {
+  type: 'nodeStarted';
+  nodeId: string;
+  capsuleId: string;
+  inputs: Record<string, any>;
+}
+
+export interface NodeCompletedEvent extends BaseExecutionEvent {
+  type: 'nodeCompleted';
+  nodeId: string;
+  outputs: Record<string, any>;
+  duration: number;
+  attempts: number;
+  cached?: boolean;
+}
+
+export interface NodeFailedEvent extends BaseExecutionEvent {
+  type: 'nodeFailed';
+  nodeId: string;
+  error: string;
+  duration: number;
+  attempts: number;
+  /** True when the error was routed to the node's error port */
+  routed: boolean;
+}
+
+export interface NodeSkippedEvent extends BaseExecutionEvent {
+  type: 'nodeSkipped';
+  nodeId: string;
+}
+
+export interface NodeCancelledEvent extends BaseExecutionEvent {
+  type: 'nodeCancelled';
+  nodeId: string;
+  reason: string;
+  duration: number;
+  attempts: number;
+}
+
+export interface FlowCompletedEvent extends BaseExecutionEvent {
+  type: 'flowCompleted';
+  result: ExecutionResult;
+}
+
+export type ExecutionEvent =
+  | FlowStartedEvent
+  | NodeStartedEvent
+  | NodeCompletedEvent
+  | NodeFailedEvent
+  | NodeSkippedEvent
+  | NodeCancelledEvent
+  | FlowCompletedEvent;
+
+export type ExecutionEventType = ExecutionEvent['type'];
+
+/**
+ * Event fields supplied by the emitting code; the executor adds the rest
+ */
+export type ExecutionEventPayload = {
+  [T in ExecutionEventType]: Omit<Extract<ExecutionEvent, { type: T }>, keyof BaseExecutionEvent>;
+}[ExecutionEventType];
+
+export type ExecutionEventHandler<T extends ExecutionEventType = ExecutionEventType> = (
+  event: Extract<ExecutionEvent, { type: T }>
+) => void;
+
+/**
+ * Emitter for execution lifecycle events
+ *
+ * Handlers registered for '*' receive every event. Handler errors are
+ * reported to the logger passed to `emit` (the executor passes the
+ * execution's logger) and never interrupt the execution.
+ */
+export class ExecutionEventEmitter {
+  private handlers = new Map<ExecutionEventType | '*', Array<ExecutionEventHandler<any>>>();
+
+  on<T extends ExecutionEventType>(type: T | '*', handler: ExecutionEventHandler<T>): () => void {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, []);
+    }
+    this.handlers.get(type)!.push(handler);
+
+    return () => this.off(type, handler);
+  }
+
+  off<T extends ExecutionEventType>(type: T | '*', handler: ExecutionEventHandler<T>): void {
+    const handlers = this.handlers.get(type);
+    if (handlers) {
+      const index = handlers.indexOf(handler);
+      if (index !== -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  emit(event: ExecutionEvent, logger?: { error: (message: string) => void }): void {
+    const handlers = [...(this.handlers.get(event.type) || []), ...(this.handlers.get('*') || [])];
+
+    handlers.forEach(handler => {
+      try {
+        handler(event);
+      } catch (error) {
+        // Prevent handler errors from breaking the execution
+        logger?.error(`Execution event handler failed: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+}
+
+/**
+ * Execute a flow and iterate over its lifecycle events as they happen
+ *
+ * The iterator ends after the `flowCompleted` event. Events are also
+ * forwarded to `context.events` when provided. Events of nested map and
+ * subflow executions are forwarded but not yielded.
+ * If the execution cannot start, e.g. a flow document without a registry,
+ * the iterator throws its error.
+ *
+ * @example
+ * for await (const event of streamFlow(flow, context)) {
+ *   if (event.type === 'nodeStarted') highlight(event.nodeId);
+ * }
+ */
+export async function* streamFlow(
+  flow: Flow | FlowDocument,
+  context: ExecutionContext
+): AsyncGenerator<ExecutionEvent, ExecutionResult> {
+  const events = new ExecutionEventEmitter();
+  const queue: ExecutionEvent[] = [];
+  const executionId = context.executionId || generateExecutionId();
+  let wake: (() => void) | null = null;
+
+  events.on('*', event => {
+    context.events?.emit(event, context.logger);
+    if (event.executionId !== executionId) return;
+    queue.push(event);
+    wake?.();
+  });
+
+  const execution = executeFlow(flow, { ...context, executionId, events });
+  let done = false;
+  const close = () => {
+    done = true;
+    wake?.();
+  };
+  // The rejection itself surfaces when the iterator returns `execution`
+  execution.then(close, close);
+
+  while (true) {
+    while (queue.length > 0) {
+      yield queue.shift()!;
+    }
+
+    if (done) break;
+
+    await new Promise<void>(resolve => (wake = resolve));
+    wake = null;
+  }
+
+  return execution;
+}
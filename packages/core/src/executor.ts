@@ -2,7 +2,29 @@
  * @capsulas/core - Flow execution engine
  */
 
-import { Flow, Node, Connection, ExecutionContext, ExecutionResult } from './types';
+import {
+  ERROR_PORT_ID,
+  Flow,
+  Node,
+  Connection,
+  ExecutionContext,
+  ExecutionResult,
+  NodeExecution,
+  NodeExecutionStatus
+} from './types';
+import { runWithPolicy } from './policy';
+import { resolveTemplates } from './expressions';
+import { generateExecutionId } from './utils';
+import type { ExecutionEvent, ExecutionEventPayload } from './events';
+import type { CheckpointStatus, ExecutionCheckpoint } from './checkpoint';
+import { FlowDocument, isFlowDocument } from './flow-format';
+import { coerceConnectionValue, validateConnectionValue } from './validator';
+import { computeNodeCacheKey, isMemoizable } from './cache';
+import { resolveSecrets, SecretRedactor } from './secrets';
+import type { ServiceContainer } from './services';
+import { defaultPortTypes } from './port-types';
+import { createExecutionRecord } from './history';
+import { StreamTee, collectStream, isAsyncIterable, isStreamSummary, mapStream, toStream } from './streams';
 
 /**
  * Topological sort for dependency resolution
@@ -58,94 +80,752 @@ function topologicalSort(nodes: Node[], connections: Connection[]): Node[] {
   return sorted;
 }
 
+/**
+ * Build the set of upstream node ids for every node
+ * Connections referencing unknown nodes are ignored
+ */
+function buildDependencies(nodes: Node[], connections: Connection[]): Map<string, Set<string>> {
+  const dependencies = new Map<string, Set<string>>();
+
+  for (const node of nodes) {
+    dependencies.set(node.id, new Set());
+  }
+
+  for (const conn of connections) {
+    if (dependencies.has(conn.fromNode)) {
+      dependencies.get(conn.toNode)?.add(conn.fromNode);
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Run nodes as soon as all their upstream nodes have finished
+ * Ready nodes are started in topological order, at most `maxConcurrency` at a time.
+ * Once `shouldStop` returns true no new node is started; running nodes are awaited.
+ */
+async function runScheduled(
+  sortedNodes: Node[],
+  dependencies: Map<string, Set<string>>,
+  maxConcurrency: number,
+  runNode: (node: Node) => Promise<void>,
+  shouldStop: () => boolean
+): Promise<void> {
+  const started = new Set<string>();
+  const finished = new Set<string>();
+  const running = new Map<string, Promise<string>>();
+
+  const isReady = (node: Node) =>
+    !started.has(node.id) &&
+    Array.from(dependencies.get(node.id) || []).every(depId => finished.has(depId));
+
+  while (finished.size < sortedNodes.length) {
+    for (const node of sortedNodes) {
+      if (running.size >= maxConcurrency || shouldStop()) break;
+
+      if (isReady(node)) {
+        started.add(node.id);
+        running.set(node.id, runNode(node).then(() => node.id));
+      }
+    }
+
+    if (running.size === 0) break;
+
+    const finishedId = await Promise.race(running.values());
+    running.delete(finishedId);
+    finished.add(finishedId);
+  }
+}
+
+/**
+ * Re-key a record so its entries follow the topological order of the flow
+ * Keeps results deterministic regardless of which node finished first
+ */
+function orderByNodes<T>(sortedNodes: Node[], record: Record<string, T>): Record<string, T> {
+  const ordered: Record<string, T> = {};
+
+  for (const node of sortedNodes) {
+    if (node.id in record) {
+      ordered[node.id] = record[node.id];
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * Check whether data actually flowed across a connection
+ * A connection is dead when its source did not complete, or when the source is
+ * a branch capsule that did not emit the connected output port. The `error`
+ * port of a node routing its errors is live only when that node failed.
+ */
+function isConnectionLive(
+  conn: Connection,
+  sourceNode: Node,
+  nodeResults: Record<string, any>,
+  nodeExecutions: Record<string, NodeExecution>
+): boolean {
+  const status = nodeExecutions[conn.fromNode]?.status;
+  const routesErrors = sourceNode.policy?.onError === 'route';
+
+  if (status === 'failed') {
+    return routesErrors && conn.fromPort === ERROR_PORT_ID;
+  }
+
+  if (status !== 'completed' || (routesErrors && conn.fromPort === ERROR_PORT_ID)) {
+    return false;
+  }
+
+  if (sourceNode.capsule.control === 'branch') {
+    return nodeResults[conn.fromNode]?.[conn.fromPort] !== undefined;
+  }
+
+  return true;
+}
+
 /**
  * Execute a flow
  *
- * @param flow - The flow to execute
+ * Independent nodes run concurrently, bounded by `context.maxConcurrency`.
+ * Nodes downstream of a branch not taken or of a failed node are skipped;
+ * merge capsules run as long as one incoming branch is live. Each node's
+ * `policy` controls retries, per-attempt timeouts and what happens on failure.
+ * `{{ }}` templates in node configs are resolved just before the node runs.
+ * Lifecycle events are emitted on `context.events`, and a checkpoint is saved
+ * to `context.checkpoints` after every node. The finished execution is
+ * recorded in `context.history`.
+ *
+ * Outputs that are AsyncIterables are streamed: dependents start as soon as
+ * the producer returns and read items as they are produced. The producer
+ * completes, and its output becomes `{ $stream: { items } }`, once the
+ * stream has ended.
+ *
+ * @param flow - The flow to execute, or a flow document whose capsule
+ * references are resolved through `context.registry`
  * @param context - Execution context with variables and environment
  * @returns Execution result with node outputs and errors
  */
 export async function executeFlow(
-  flow: Flow,
+  flow: Flow | FlowDocument,
+  context: ExecutionContext
+): Promise<ExecutionResult> {
+  return runFlow(hydrateFlow(flow, context), context);
+}
+
+/**
+ * Resume a checkpointed execution
+ *
+ * Nodes that completed in the checkpointed run keep their results and are not
+ * executed again; failed, skipped and never-started nodes run normally.
+ * Nodes whose checkpointed results had secrets redacted run again.
+ *
+ * @param flowOrDocument - The flow that was executed, or its flow document
+ * @param executionId - Id of the execution to resume
+ * @param context - Execution context; `checkpoints` must hold the checkpoint
+ * @returns Execution result of the resumed run, under the same execution id
+ */
+export async function resumeExecution(
+  flowOrDocument: Flow | FlowDocument,
+  executionId: string,
   context: ExecutionContext
+): Promise<ExecutionResult> {
+  const flow = hydrateFlow(flowOrDocument, context);
+
+  if (!context.checkpoints) {
+    throw new Error('Cannot resume execution without a checkpoint store');
+  }
+
+  const checkpoint = await context.checkpoints.load(executionId);
+
+  if (!checkpoint) {
+    throw new Error(`No checkpoint found for execution ${executionId}`);
+  }
+
+  if (checkpoint.flowId !== flow.id) {
+    throw new Error(
+      `Execution ${executionId} belongs to flow ${checkpoint.flowId}, not ${flow.id}`
+    );
+  }
+
+  return runFlow(flow, { ...context, executionId }, checkpoint);
+}
+
+/**
+ * Message describing why an execution was aborted
+ */
+function describeAbortReason(reason: unknown): string {
+  if (typeof reason === 'string' && reason) return reason;
+  if (reason instanceof Error && reason.name !== 'AbortError') return reason.message;
+  return 'Execution cancelled';
+}
+
+/**
+ * Resolve a flow document's capsule references through the context registry
+ * @throws Error if the context has no registry
+ */
+export function hydrateFlow(flow: Flow | FlowDocument, context: ExecutionContext): Flow {
+  if (!isFlowDocument(flow)) return flow;
+
+  if (!context.registry) {
+    throw new Error(`Cannot execute flow document ${flow.id} without a capsule registry`);
+  }
+
+  return context.registry.hydrateFlow(flow);
+}
+
+/**
+ * Shared implementation of executeFlow and resumeExecution
+ */
+async function runFlow(
+  flow: Flow,
+  context: ExecutionContext,
+  resumeFrom?: ExecutionCheckpoint
 ): Promise<ExecutionResult> {
   const startTime = Date.now();
   const nodeResults: Record<string, any> = {};
+  const nodeExecutions: Record<string, NodeExecution> = {};
   const errors: Array<{ nodeId: string; error: string }> = [];
+  const subflowResults: Record<string, ExecutionResult> = {};
+  const nodeInputs: Record<string, Record<string, any>> = {};
+  const executionId = context.executionId || generateExecutionId();
+
+  // Restore nodes that already completed in the checkpointed run
+  const restored = new Set<string>();
+  for (const node of flow.nodes) {
+    const previous = resumeFrom?.nodeExecutions[node.id];
+    const outputs = resumeFrom?.nodeResults[node.id];
+    // Streamed outputs are gone once read and redacted ones lost their
+    // secrets: their producers run again
+    const streamed = outputs && Object.values(outputs).some(isStreamSummary);
+    const redacted = resumeFrom?.redactedNodes?.includes(node.id);
+    if (previous?.status === 'completed' && !streamed && !redacted) {
+      restored.add(node.id);
+      nodeExecutions[node.id] = previous;
+      nodeResults[node.id] = resumeFrom!.nodeResults[node.id];
+    }
+  }
 
-  const logger = context.logger || {
+  const baseLogger = context.logger || {
     info: (msg: string) => console.log(`[INFO] ${msg}`),
     error: (msg: string) => console.error(`[ERROR] ${msg}`),
     warn: (msg: string) => console.warn(`[WARN] ${msg}`)
   };
 
+  // Secret values resolved from node configs never leave the run unredacted
+  const redactor = new SecretRedactor();
+  const logger = {
+    info: (msg: string) => baseLogger.info(redactor.redact(msg)),
+    error: (msg: string) => baseLogger.error(redactor.redact(msg)),
+    warn: (msg: string) => baseLogger.warn(redactor.redact(msg))
+  };
+
+  const emit = (event: ExecutionEventPayload) => {
+    context.events?.emit(redactor.redactValue({
+      ...event,
+      executionId,
+      flowId: flow.id,
+      timestamp: Date.now()
+    }) as ExecutionEvent, logger);
+  };
+
+  // Producers whose streams are still being read, and the tasks completing them
+  const streaming = new Set<string>();
+  const pendingStreams: Promise<void>[] = [];
+  // Reader of a split stream for each connection it flows through
+  const streamReaders = new Map<string, AsyncIterableIterator<any>>();
+
+  // Saves are chained so checkpoints land in the order they were taken. A
+  // failed save is logged and never blocks later checkpoints or the run.
+  let checkpointChain: Promise<void> = Promise.resolve();
+  const saveCheckpoint = (status: CheckpointStatus): Promise<void> => {
+    const store = context.checkpoints;
+    if (!store) return checkpointChain;
+
+    const settled = <T>(record: Record<string, T>) =>
+      Object.fromEntries(Object.entries(record).filter(([nodeId]) => !streaming.has(nodeId)));
+    const results = settled(nodeResults);
+    const redactedNodes = Object.keys(results).filter(nodeId => redactor.containsSecret(results[nodeId]));
+    const checkpoint: ExecutionCheckpoint = {
+      executionId,
+      flowId: flow.id,
+      status,
+      nodeResults: redactor.redactValue(results),
+      nodeExecutions: settled(nodeExecutions),
+      ...(redactedNodes.length > 0 && { redactedNodes }),
+      updatedAt: Date.now()
+    };
+    checkpointChain = checkpointChain.then(async () => {
+      try {
+        await store.save(checkpoint);
+      } catch (error) {
+        logger.error(`Failed to save checkpoint: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+    return checkpointChain;
+  };
+
+  // The output cache is an optimization: its failures are logged, never fatal
+  const readCache = async (nodeId: string, key: string): Promise<Record<string, any> | undefined> => {
+    try {
+      return await context.cache!.get(key);
+    } catch (error) {
+      logger.warn(`Output cache read failed for node ${nodeId}: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  };
+  const writeCache = async (nodeId: string, key: string, outputs: Record<string, any>): Promise<void> => {
+    try {
+      await context.cache!.set(key, outputs);
+    } catch (error) {
+      logger.warn(`Output cache write failed for node ${nodeId}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Like the cache, the history never fails an execution
+  const saveHistory = async (result: ExecutionResult): Promise<void> => {
+    if (!context.history) return;
+    try {
+      await context.history.save(createExecutionRecord(flow, result, redactor.redactValue(nodeInputs), {
+        startTime,
+        trigger: context.trigger && redactor.redactValue(context.trigger),
+        maxValueSize: context.history.maxValueSize
+      }));
+    } catch (error) {
+      logger.warn(`Failed to save execution history: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Stop reading the streams flowing into a node, so their producers are not held back
+  const releaseStreams = (nodeId: string) => {
+    for (const conn of flow.connections) {
+      const reader = conn.toNode === nodeId && streamReaders.get(conn.id);
+      if (reader) {
+        streamReaders.delete(conn.id);
+        void reader.return!();
+      }
+    }
+  };
+
+  // The caller's signal and the deadline both abort this controller
+  const controller = new AbortController();
+  const signal = controller.signal;
+  const abort = (reason: string) => {
+    if (!signal.aborted) controller.abort(new Error(reason));
+  };
+  const onCallerAbort = () => abort(describeAbortReason(context.signal!.reason));
+  let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+
+  if (context.signal?.aborted) {
+    onCallerAbort();
+  } else {
+    context.signal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+
+  if (context.deadline !== undefined) {
+    const remaining = context.deadline - Date.now();
+    if (remaining <= 0) {
+      abort('Execution deadline exceeded');
+    } else {
+      deadlineTimer = setTimeout(() => abort('Execution deadline exceeded'), remaining);
+    }
+  }
+
+  // Run-scoped services get fresh instances, cleaned up when this execution ends
+  const services: ServiceContainer | undefined =
+    context.services?.lifetime === 'run' ? context.services.fork() : context.services;
+
+  const portTypes = context.portTypes ?? defaultPortTypes;
+  const maxConcurrency = context.maxConcurrency ?? Infinity;
+  let stopped = false;
+
   try {
+    if (!(maxConcurrency >= 1)) {
+      throw new Error(`maxConcurrency must be at least 1, got ${context.maxConcurrency}`);
+    }
+
     // Sort nodes by dependencies
     const sortedNodes = topologicalSort(flow.nodes, flow.connections);
+    const dependencies = buildDependencies(flow.nodes, flow.connections);
+    const nodesById = new Map(flow.nodes.map(n => [n.id, n]));
 
     logger.info(`Executing flow "${flow.name}" with ${sortedNodes.length} nodes`);
+    emit({ type: 'flowStarted', flowName: flow.name, nodeIds: sortedNodes.map(n => n.id) });
+    await saveCheckpoint('running');
+
+    // Execute each node once its upstream nodes are done
+    await runScheduled(sortedNodes, dependencies, maxConcurrency, async node => {
+      if (restored.has(node.id)) {
+        logger.info(`Node ${node.id} restored from checkpoint`);
+        releaseStreams(node.id);
+        return;
+      }
+
+      const nodeStart = Date.now();
+      let status: NodeExecutionStatus = 'completed';
+
+      // Only connections whose source node exists carry data
+      const inputConnections = flow.connections.filter(
+        c => c.toNode === node.id && nodesById.has(c.fromNode)
+      );
+      const liveConnections = inputConnections.filter(c =>
+        isConnectionLive(c, nodesById.get(c.fromNode)!, nodeResults, nodeExecutions)
+      );
+
+      const shouldRun = node.capsule.control === 'merge'
+        ? inputConnections.length === 0 || liveConnections.length > 0
+        : liveConnections.length === inputConnections.length;
+
+      if (!shouldRun) {
+        logger.info(`Skipping node ${node.id}: upstream branch not taken or failed`);
+        nodeExecutions[node.id] = {
+          nodeId: node.id,
+          status: 'skipped',
+          startTime: nodeStart,
+          endTime: nodeStart,
+          duration: 0,
+          attempts: 0
+        };
+        emit({ type: 'nodeSkipped', nodeId: node.id });
+        releaseStreams(node.id);
+        await saveCheckpoint('running');
+        return;
+      }
+
+      let attempts = 0;
+      let nodeError: string | undefined;
+      let cached = false;
+      let streams: Array<{ port: string; tee: StreamTee }> = [];
 
-    // Execute each node in order
-    for (const node of sortedNodes) {
       try {
         logger.info(`Executing node: ${node.capsule.name} (${node.id})`);
 
-        // Gather inputs from connected nodes
-        const inputs: Record<string, any> = {};
+        // Gather inputs from connected nodes, converting them to the input port type
+        // and checking them against the input port schemas
+        let inputs: Record<string, any> = {};
 
-        const inputConnections = flow.connections.filter(c => c.toNode === node.id);
-
-        for (const conn of inputConnections) {
+        for (const conn of liveConnections) {
           const sourceResult = nodeResults[conn.fromNode];
           if (sourceResult) {
-            inputs[conn.toPort] = sourceResult[conn.fromPort];
+            const port = node.capsule.inputs.find(p => p.id === conn.toPort);
+            const fromPort = nodesById.get(conn.fromNode)!.capsule.outputs.find(p => p.id === conn.fromPort);
+            const receive = (value: unknown) => {
+              if (port && fromPort) value = coerceConnectionValue(conn, fromPort, port, value, portTypes);
+              if (port) validateConnectionValue(conn, port, value);
+              return value;
+            };
+            const value = streamReaders.get(conn.id) ?? sourceResult[conn.fromPort];
+
+            if (port?.stream && value !== undefined) {
+              // Stream inputs check each item as the node reads it
+              inputs[conn.toPort] = mapStream(isAsyncIterable(value) ? value : toStream(value), receive);
+            } else if (isAsyncIterable(value)) {
+              // Plain inputs wait for the whole stream
+              const items = await collectStream(value);
+              if (port) validateConnectionValue(conn, port, items);
+              inputs[conn.toPort] = items;
+            } else {
+              inputs[conn.toPort] = receive(value);
+            }
           }
         }
 
-        // Merge with node config
-        const config = { ...node.config };
+        // Resolve {{ }} templates and { $secret } references in the node config
+        const secrets = new Set<string>();
+        const config = await resolveSecrets(resolveTemplates({ ...node.config }, {
+          env: context.env,
+          variables: context.variables,
+          nodes: Object.fromEntries(
+            Object.keys(nodeResults).map(id => [id, { output: nodeResults[id] }])
+          )
+        }), context.secrets, secrets);
+        secrets.forEach(secret => redactor.add(secret));
+
+        // A debugger may pause here and override inputs
+        const interception = context.interceptor && {
+          flowId: flow.id,
+          executionId,
+          nodeId: node.id,
+          inputs: redactor.redactValue(inputs),
+          config: redactor.redactValue(config),
+          connections: liveConnections
+        };
+        const inputOverrides = await context.interceptor?.beforeNode?.(interception!);
+        if (inputOverrides) inputs = { ...inputs, ...inputOverrides };
+        if (interception && signal.aborted) throw signal.reason;
+
+        nodeInputs[node.id] = inputs;
+        emit({ type: 'nodeStarted', nodeId: node.id, capsuleId: node.capsule.id, inputs });
+
+        // Pure nodes whose config and inputs are unchanged reuse their memoized outputs
+        const cacheKey = context.cache && isMemoizable(node) && !Object.values(inputs).some(isAsyncIterable)
+          ? computeNodeCacheKey(node.capsule, config, inputs)
+          : undefined;
+        const cachedOutputs = cacheKey ? await readCache(node.id, cacheKey) : undefined;
 
         // Execute the capsule
-        if (node.capsule.execute) {
-          const result = await node.capsule.execute(inputs, config);
+        const execute = node.capsule.execute;
+        if (cachedOutputs) {
+          cached = true;
+          nodeResults[node.id] = cachedOutputs;
+          logger.info(`Node ${node.id} reused cached outputs`);
+        } else if (execute) {
+          const result = await runWithPolicy(
+            attemptSignal => {
+              attempts++;
+              return execute(inputs, config, {
+                nodeId: node.id,
+                flowId: flow.id,
+                execution: { ...context, signal: attemptSignal, logger, services },
+                signal: attemptSignal,
+                services,
+                reportSubflowResult: subflowResult => {
+                  subflowResults[node.id] = subflowResult;
+                }
+              });
+            },
+            node.policy,
+            (attempt, error, delay) => {
+              const message = error instanceof Error ? error.message : String(error);
+              logger.warn(`Node ${node.id} attempt ${attempt} failed: ${message} - retrying in ${delay}ms`);
+            },
+            signal
+          );
           nodeResults[node.id] = result;
+          if (cacheKey && !Object.values(result ?? {}).some(isAsyncIterable)) {
+            await writeCache(node.id, cacheKey, result);
+          }
           logger.info(`Node ${node.id} completed successfully`);
         } else {
           logger.warn(`Node ${node.id} has no execute function - skipping`);
           nodeResults[node.id] = {};
         }
+
+        // ...and here, to inspect and override outputs
+        const outputOverrides = await context.interceptor?.afterNode?.({
+          ...interception!,
+          inputs: redactor.redactValue(inputs),
+          outputs: redactor.redactValue(nodeResults[node.id])
+        });
+        if (outputOverrides) nodeResults[node.id] = { ...nodeResults[node.id], ...outputOverrides };
+        if (interception && signal.aborted) throw signal.reason;
+
+        // Split each stream output between the connections reading it
+        streams = Object.entries(nodeResults[node.id] ?? {})
+          .filter(([, value]) => isAsyncIterable(value))
+          .map(([port, value]) => {
+            const readers = flow.connections.filter(
+              c => c.fromNode === node.id && c.fromPort === port && nodesById.has(c.toNode)
+            );
+            const tee = new StreamTee(value as AsyncIterable<any>, readers.length);
+            readers.forEach((conn, i) => streamReaders.set(conn.id, tee.readers[i]));
+            return { port, tee };
+          });
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error(`Node ${node.id} failed: ${errorMessage}`);
-        errors.push({
+        const errorMessage = redactor.redact(error instanceof Error ? error.message : String(error));
+        const onError = node.policy?.onError || 'continue';
+
+        if (signal.aborted) {
+          // Interrupted by cancellation: neither a result nor a node failure
+          status = 'cancelled';
+          nodeError = describeAbortReason(signal.reason);
+          logger.warn(`Node ${node.id} cancelled: ${nodeError}`);
+        } else if (onError === 'route') {
+          status = 'failed';
+          nodeError = errorMessage;
+          nodeResults[node.id] = { [ERROR_PORT_ID]: errorMessage };
+          // Handled failure: only connections from the error port stay live
+          logger.warn(`Node ${node.id} failed: ${errorMessage} - routed to error port`);
+        } else {
+          status = 'failed';
+          nodeError = errorMessage;
+          nodeResults[node.id] = { [ERROR_PORT_ID]: errorMessage };
+          logger.error(`Node ${node.id} failed: ${errorMessage}`);
+          errors.push({
+            nodeId: node.id,
+            error: errorMessage
+          });
+
+          // Dependents are skipped; independent nodes keep running unless the policy stops the flow
+          if (onError === 'stop') {
+            stopped = true;
+          }
+        }
+      }
+
+      // Record the outcome once the node is done, streams included
+      const complete = async () => {
+        releaseStreams(node.id);
+
+        const nodeEnd = Date.now();
+        nodeExecutions[node.id] = {
           nodeId: node.id,
-          error: errorMessage
-        });
+          status,
+          startTime: nodeStart,
+          endTime: nodeEnd,
+          duration: nodeEnd - nodeStart,
+          attempts,
+          ...(nodeError !== undefined && { error: nodeError }),
+          ...(cached && { cached })
+        };
+
+        if (status === 'cancelled') {
+          emit({
+            type: 'nodeCancelled',
+            nodeId: node.id,
+            reason: nodeError!,
+            duration: nodeEnd - nodeStart,
+            attempts
+          });
+        } else if (nodeError !== undefined) {
+          emit({
+            type: 'nodeFailed',
+            nodeId: node.id,
+            error: nodeError,
+            duration: nodeEnd - nodeStart,
+            attempts,
+            routed: node.policy?.onError === 'route'
+          });
+        } else {
+          emit({
+            type: 'nodeCompleted',
+            nodeId: node.id,
+            outputs: nodeResults[node.id],
+            duration: nodeEnd - nodeStart,
+            attempts,
+            ...(cached && { cached })
+          });
+        }
+
+        await saveCheckpoint('running');
+      };
 
-        // Continue execution despite errors (can be configured)
-        nodeResults[node.id] = { error: errorMessage };
+      if (status !== 'completed' || streams.length === 0) {
+        await complete();
+        return;
+      }
+
+      // Dependents start reading now; the node completes once its streams have ended
+      streaming.add(node.id);
+      nodeExecutions[node.id] = {
+        nodeId: node.id,
+        status,
+        startTime: nodeStart,
+        endTime: nodeStart,
+        duration: 0,
+        attempts
+      };
+      pendingStreams.push((async () => {
+        const cancelStreams = () => streams.forEach(({ tee }) => tee.cancel(signal.reason));
+        signal.addEventListener('abort', cancelStreams, { once: true });
+        if (signal.aborted) cancelStreams();
+        let port = '';
+
+        try {
+          for (const stream of streams) {
+            port = stream.port;
+            const items = await stream.tee.finished;
+            nodeResults[node.id] = { ...nodeResults[node.id], [port]: { $stream: { items } } };
+          }
+        } catch (error) {
+          streams.forEach(({ tee }) => tee.cancel(error));
+          status = signal.aborted ? 'cancelled' : 'failed';
+          nodeError = signal.aborted
+            ? describeAbortReason(signal.reason)
+            : redactor.redact(`Stream ${port} failed: ${error instanceof Error ? error.message : String(error)}`);
+
+          if (status === 'cancelled') {
+            logger.warn(`Node ${node.id} cancelled: ${nodeError}`);
+          } else {
+            // Dependents already read part of the stream, so the error cannot be routed
+            nodeResults[node.id] = { [ERROR_PORT_ID]: nodeError };
+            logger.error(`Node ${node.id} failed: ${nodeError}`);
+            errors.push({ nodeId: node.id, error: nodeError });
+            if (node.policy?.onError === 'stop') stopped = true;
+          }
+        } finally {
+          signal.removeEventListener('abort', cancelStreams);
+          streaming.delete(node.id);
+        }
+
+        await complete();
+      })());
+    }, () => stopped || signal.aborted);
+
+    // Nodes never started do not read their streams; wait for the streams still flowing
+    flow.nodes.forEach(node => !nodeExecutions[node.id] && releaseStreams(node.id));
+    await Promise.all(pendingStreams);
+
+    // Nodes never started because the flow was stopped or cancelled
+    for (const node of sortedNodes) {
+      if (!nodeExecutions[node.id]) {
+        const now = Date.now();
+        nodeExecutions[node.id] = {
+          nodeId: node.id,
+          status: 'skipped',
+          startTime: now,
+          endTime: now,
+          duration: 0,
+          attempts: 0
+        };
+        emit({ type: 'nodeSkipped', nodeId: node.id });
       }
     }
 
     const executionTime = Date.now() - startTime;
     logger.info(`Flow execution completed in ${executionTime}ms`);
 
-    return {
+    const order = sortedNodes.map(n => n.id);
+    errors.sort((a, b) => order.indexOf(a.nodeId) - order.indexOf(b.nodeId));
+
+    if (signal.aborted) {
+      const reason = describeAbortReason(signal.reason);
+      logger.warn(`Flow execution cancelled: ${reason}`);
+      errors.unshift({ nodeId: 'flow', error: reason });
+    }
+
+    const result: ExecutionResult = {
+      executionId,
       success: errors.length === 0,
-      nodeResults,
+      nodeResults: redactor.redactValue(orderByNodes(sortedNodes, nodeResults)),
       errors: errors.length > 0 ? errors : undefined,
+      nodeExecutions: orderByNodes(sortedNodes, nodeExecutions),
+      ...(Object.keys(subflowResults).length > 0 && {
+        subflowResults: redactor.redactValue(orderByNodes(sortedNodes, subflowResults))
+      }),
+      ...(signal.aborted && { cancelled: true }),
       executionTime
     };
+    await saveCheckpoint(signal.aborted ? 'cancelled' : result.success ? 'completed' : 'failed');
+    await saveHistory(result);
+    emit({ type: 'flowCompleted', result });
+
+    return result;
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorMessage = redactor.redact(error instanceof Error ? error.message : String(error));
     logger.error(`Flow execution failed: ${errorMessage}`);
 
-    return {
+    const result: ExecutionResult = {
+      executionId,
       success: false,
-      nodeResults,
+      nodeResults: redactor.redactValue(nodeResults),
       errors: [{ nodeId: 'flow', error: errorMessage }],
+      nodeExecutions,
       executionTime: Date.now() - startTime
     };
+    await saveCheckpoint('failed');
+    await saveHistory(result);
+    emit({ type: 'flowCompleted', result });
+
+    return result;
+  } finally {
+    clearTimeout(deadlineTimer);
+    context.signal?.removeEventListener('abort', onCallerAbort);
+
+    if (services && services !== context.services) {
+      const cleanupErrors = await services.cleanup();
+      cleanupErrors.forEach(error => logger.warn(`Service cleanup failed: ${error}`));
+    }
   }
 }
 
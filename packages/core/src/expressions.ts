@@ -0,0 +1,546 @@
+/**
+ * @capsulas/core - Expression language for node configuration
+ *
+ * Config strings may embed `{{ expression }}` templates resolved at execution
+ * time against `env`, `variables` and the outputs of upstream `nodes`:
+ *
+ *   "{{ env.SENDGRID_API_KEY }}"
+ *   "Hello {{ nodes.validator-1.output.data.name }}"
+ *   "{{ variables.retries * 2 }}"
+ *
+ * A string consisting of a single template keeps the value's type; otherwise
+ * values are interpolated as text. Expressions are parsed by a small
+ * interpreter - no JavaScript is evaluated - and support literals, property
+ * paths, `! - + * / %`, comparisons, `&& || ??`, `?:` and parentheses.
+ * Property names after a dot may contain hyphens (`nodes.http-1`), so
+ * subtraction after a property needs spaces: `a.b - 1`.
+ */
+
+/**
+ * Error raised while parsing or evaluating an expression
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly expression?: string) {
+    super(expression === undefined ? message : `${message} in "{{ ${expression} }}"`);
+    this.name = 'ExpressionError';
+  }
+}
+
+/**
+ * Parsed expression tree
+ */
+export type ExpressionNode =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'reference'; root: string; path: Array<string | number> }
+  | { kind: 'unary'; operator: '!' | '-'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode };
+
+/**
+ * Values reachable from expressions
+ */
+export interface ExpressionScope {
+  env: Record<string, string>;
+  variables: Record<string, any>;
+  nodes: Record<string, { output: Record<string, any> }>;
+}
+
+/**
+ * Static type of an expression, `unknown` when it depends on runtime data
+ */
+export type ExpressionType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array' | 'unknown';
+
+const TEMPLATE_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const FULL_TEMPLATE_PATTERN = /^\{\{([\s\S]*?)\}\}$/;
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '??', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', '[', ']', '.'];
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const previous = tokens[tokens.length - 1];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Property names after a dot may contain hyphens and start with digits
+    if (previous?.type === 'operator' && previous.value === '.') {
+      const match = /^[\w$-]+/.exec(source.slice(i));
+      if (!match) throw new ExpressionError(`Expected property name at position ${i}`, source);
+      tokens.push({ type: 'identifier', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[\w$]+/.exec(source.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const escaped = source[i + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (source[i] !== char) throw new ExpressionError('Unterminated string', source);
+      tokens.push({ type: 'string', value });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) throw new ExpressionError(`Unexpected character "${char}"`, source);
+    tokens.push({ type: 'operator', value: operator });
+    i += operator.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, lowest precedence first
+ */
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) throw new ExpressionError('Empty expression', this.source);
+    const node = this.conditional();
+    if (this.position < this.tokens.length) {
+      throw new ExpressionError(`Unexpected token "${this.tokens[this.position].value}"`, this.source);
+    }
+    return node;
+  }
+
+  private conditional(): ExpressionNode {
+    const test = this.binary(0);
+    if (!this.match('?')) return test;
+
+    const consequent = this.conditional();
+    this.expect(':');
+    const alternate = this.conditional();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  private static readonly PRECEDENCE: string[][] = [
+    ['??'],
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '>', '<=', '>='],
+    ['+', '-'],
+    ['*', '/', '%']
+  ];
+
+  private binary(level: number): ExpressionNode {
+    if (level === Parser.PRECEDENCE.length) return this.unary();
+
+    let left = this.binary(level + 1);
+    let operator: string | null;
+    while ((operator = this.matchAny(Parser.PRECEDENCE[level]))) {
+      const right = this.binary(level + 1);
+      left = { kind: 'binary', operator, left, right };
+    }
+    return left;
+  }
+
+  private unary(): ExpressionNode {
+    const operator = this.matchAny(['!', '-']);
+    if (operator) {
+      return { kind: 'unary', operator: operator as '!' | '-', operand: this.unary() };
+    }
+    return this.primary();
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.tokens[this.position++];
+
+    if (!token) throw new ExpressionError('Unexpected end of expression', this.source);
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.type === 'operator' && token.value === '(') {
+      const inner = this.conditional();
+      this.expect(')');
+      return inner;
+    }
+
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') {
+        return { kind: 'literal', value: token.value === 'true' };
+      }
+      if (token.value === 'null') {
+        return { kind: 'literal', value: null };
+      }
+      return this.reference(token.value);
+    }
+
+    throw new ExpressionError(`Unexpected token "${token.value}"`, this.source);
+  }
+
+  private reference(root: string): ExpressionNode {
+    const path: Array<string | number> = [];
+
+    while (true) {
+      if (this.match('.')) {
+        const name = this.tokens[this.position++];
+        if (!name) throw new ExpressionError('Expected property name', this.source);
+        path.push(name.value as string);
+      } else if (this.match('[')) {
+        const key = this.tokens[this.position++];
+        if (!key || (key.type !== 'string' && key.type !== 'number')) {
+          throw new ExpressionError('Only literal keys are allowed inside [ ]', this.source);
+        }
+        path.push(key.value);
+        this.expect(']');
+      } else {
+        return { kind: 'reference', root, path };
+      }
+    }
+  }
+
+  private match(operator: string): boolean {
+    const token = this.tokens[this.position];
+    if (token?.type === 'operator' && token.value === operator) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchAny(operators: string[]): string | null {
+    const token = this.tokens[this.position];
+    if (token?.type === 'operator' && operators.includes(token.value)) {
+      this.position++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expect(operator: string): void {
+    if (!this.match(operator)) {
+      throw new ExpressionError(`Expected "${operator}"`, this.source);
+    }
+  }
+}
+
+/**
+ * Parse an expression (the text between `{{` and `}}`)
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(tokenize(source), source.trim()).parse();
+}
+
+/**
+ * Format a reference back to its dotted form for messages
+ */
+export function formatReference(root: string, path: Array<string | number>): string {
+  return [root, ...path].map((part, i) => (typeof part === 'number' ? `[${part}]` : i === 0 ? part : `.${part}`)).join('');
+}
+
+function readProperty(value: any, key: string | number): any {
+  if (value === null || value === undefined) return undefined;
+
+  if ((Array.isArray(value) || typeof value === 'string') && key === 'length') {
+    return value.length;
+  }
+
+  return Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+}
+
+function expectNumbers(operator: string, left: any, right: any, source: string): void {
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    throw new ExpressionError(`Operator "${operator}" expects numbers, got ${typeof left} and ${typeof right}`, source);
+  }
+}
+
+function evaluateNode(node: ExpressionNode, scope: ExpressionScope, source: string): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'reference': {
+      const root = (scope as unknown as Record<string, any>)[node.root];
+      if (!Object.prototype.hasOwnProperty.call(scope, node.root)) {
+        throw new ExpressionError(`Unknown reference "${node.root}"`, source);
+      }
+
+      const forbidden = node.path.find(key => FORBIDDEN_PROPERTIES.has(String(key)));
+      if (forbidden !== undefined) {
+        throw new ExpressionError(`Access to "${forbidden}" is not allowed`, source);
+      }
+
+      // The first segment (env key, variable or node id) must exist
+      if (node.path.length > 0 && !Object.prototype.hasOwnProperty.call(root, node.path[0])) {
+        throw new ExpressionError(`Unknown reference "${formatReference(node.root, node.path.slice(0, 1))}"`, source);
+      }
+
+      return node.path.reduce((value, key) => readProperty(value, key), root);
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope, source);
+      if (node.operator === '!') return !operand;
+      if (typeof operand !== 'number') {
+        throw new ExpressionError(`Operator "-" expects a number, got ${typeof operand}`, source);
+      }
+      return -operand;
+    }
+
+    case 'conditional':
+      return evaluateNode(node.test, scope, source)
+        ? evaluateNode(node.consequent, scope, source)
+        : evaluateNode(node.alternate, scope, source);
+
+    case 'binary': {
+      const left = evaluateNode(node.left, scope, source);
+
+      // Short-circuit operators only evaluate the right side when needed
+      if (node.operator === '&&') return left && evaluateNode(node.right, scope, source);
+      if (node.operator === '||') return left || evaluateNode(node.right, scope, source);
+      if (node.operator === '??') return left ?? evaluateNode(node.right, scope, source);
+
+      const right = evaluateNode(node.right, scope, source);
+
+      switch (node.operator) {
+        case '==':
+          return left === right;
+        case '!=':
+          return left !== right;
+        case '+':
+          if (typeof left === 'string' || typeof right === 'string') return `${left}${right}`;
+          expectNumbers('+', left, right, source);
+          return left + right;
+        case '-':
+        case '*':
+        case '/':
+        case '%':
+          expectNumbers(node.operator, left, right, source);
+          return node.operator === '-' ? left - right
+            : node.operator === '*' ? left * right
+            : node.operator === '/' ? left / right
+            : left % right;
+        default:
+          // Relational operators
+          if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+            throw new ExpressionError(`Operator "${node.operator}" cannot compare ${typeof left} and ${typeof right}`, source);
+          }
+          return node.operator === '<' ? left < right
+            : node.operator === '>' ? left > right
+            : node.operator === '<=' ? left <= right
+            : left >= right;
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate an expression against a scope
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope): any {
+  return evaluateNode(parseExpression(source), scope, source.trim());
+}
+
+/**
+ * Check whether a value contains `{{ }}` templates
+ */
+export function isTemplate(value: unknown): value is string {
+  return typeof value === 'string' && value.includes('{{');
+}
+
+/**
+ * Resolve every template in a config value, recursing into objects and arrays
+ *
+ * @param value - Config value, usually `node.config`
+ * @param scope - Values reachable from expressions
+ * @returns A copy of the value with templates replaced
+ */
+export function resolveTemplates<T>(value: T, scope: ExpressionScope): T {
+  if (typeof value === 'string') {
+    if (!value.includes('{{')) return value;
+
+    const full = FULL_TEMPLATE_PATTERN.exec(value);
+    if (full) return evaluateExpression(full[1], scope);
+
+    return value.replace(TEMPLATE_PATTERN, (_, expression: string) => {
+      const result = evaluateExpression(expression, scope);
+      if (result === null || result === undefined) return '';
+      return typeof result === 'object' ? JSON.stringify(result) : String(result);
+    }) as unknown as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => resolveTemplates(item, scope)) as unknown as T;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveTemplates(item, scope)])
+    ) as T;
+  }
+
+  return value;
+}
+
+/**
+ * Template found inside a config value
+ */
+export interface TemplateExpression {
+  /** Dotted location inside the config, e.g. "headers.Authorization" */
+  location: string;
+  expression: string;
+  /** True when the expression is the whole string, so its type is preserved */
+  standalone: boolean;
+}
+
+/**
+ * List every template expression inside a config value
+ */
+export function findTemplates(value: unknown, location = ''): TemplateExpression[] {
+  if (typeof value === 'string') {
+    const standalone = FULL_TEMPLATE_PATTERN.test(value);
+    return Array.from(value.matchAll(TEMPLATE_PATTERN), match => ({
+      location,
+      expression: match[1].trim(),
+      standalone
+    }));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) =>
+      findTemplates(item, location ? `${location}.${key}` : key)
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Statically check an expression
+ *
+ * @param source - Expression text
+ * @param resolveReference - Returns the type of a reference, or an error message
+ * @returns Error messages; empty when the expression is valid
+ */
+export function checkExpression(
+  source: string,
+  resolveReference: (root: string, path: Array<string | number>) => ExpressionType | { error: string }
+): string[] {
+  const issues: string[] = [];
+  let ast: ExpressionNode;
+
+  try {
+    ast = parseExpression(source);
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  const typeOf = (node: ExpressionNode): ExpressionType => {
+    switch (node.kind) {
+      case 'literal':
+        return node.value === null ? 'null' : (typeof node.value as ExpressionType);
+
+      case 'reference': {
+        const forbidden = node.path.find(key => FORBIDDEN_PROPERTIES.has(String(key)));
+        if (forbidden !== undefined) {
+          issues.push(`Access to "${forbidden}" is not allowed`);
+          return 'unknown';
+        }
+        const resolved = resolveReference(node.root, node.path);
+        if (typeof resolved === 'object') {
+          issues.push(resolved.error);
+          return 'unknown';
+        }
+        return resolved;
+      }
+
+      case 'unary': {
+        const operand = typeOf(node.operand);
+        if (node.operator === '!') return 'boolean';
+        if (operand !== 'number' && operand !== 'unknown') {
+          issues.push(`Operator "-" expects a number, got ${operand}`);
+        }
+        return 'number';
+      }
+
+      case 'conditional': {
+        typeOf(node.test);
+        const consequent = typeOf(node.consequent);
+        const alternate = typeOf(node.alternate);
+        return consequent === alternate ? consequent : 'unknown';
+      }
+
+      case 'binary': {
+        const left = typeOf(node.left);
+        const right = typeOf(node.right);
+        const known = left !== 'unknown' && right !== 'unknown';
+
+        switch (node.operator) {
+          case '&&':
+          case '||':
+          case '??':
+            return left === right ? left : 'unknown';
+          case '==':
+          case '!=':
+            return 'boolean';
+          case '+':
+            if (left === 'string' || right === 'string') return 'string';
+            if (known && (left !== 'number' || right !== 'number')) {
+              issues.push(`Operator "+" expects numbers or strings, got ${left} and ${right}`);
+            }
+            return known ? 'number' : 'unknown';
+          case '-':
+          case '*':
+          case '/':
+          case '%':
+            for (const side of [left, right]) {
+              if (side !== 'number' && side !== 'unknown') {
+                issues.push(`Operator "${node.operator}" expects numbers, got ${side}`);
+                break;
+              }
+            }
+            return 'number';
+          default:
+            if (known && (left !== right || (left !== 'number' && left !== 'string'))) {
+              issues.push(`Operator "${node.operator}" cannot compare ${left} and ${right}`);
+            }
+            return 'boolean';
+        }
+      }
+    }
+  };
+
+  typeOf(ast);
+  return issues;
+}
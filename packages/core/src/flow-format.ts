@@ -0,0 +1,400 @@
+/**
+ * @capsulas/core - Flow file format
+ *
+ * Versioned on-disk representation of a flow. Nodes reference capsules as
+ * "id@version" instead of embedding them; older files are upgraded through
+ * registered migrations and validated against FLOW_SCHEMA on load. Saved
+ * files use a stable key order so they diff cleanly.
+ */
+
+import { promises as fs } from 'fs';
+import { Flow, NodePolicy } from './types';
+import { JsonSchema, SchemaViolation, validateSchema } from './schema';
+
+/**
+ * Format version written by saveFlow
+ */
+export const FLOW_FORMAT_VERSION = 1;
+
+/**
+ * Node as stored in a flow file
+ */
+export interface FlowNodeDocument {
+  id: string;
+  /** Capsule reference, "id" or "id@version" */
+  capsule: string;
+  position?: { x: number; y: number };
+  config?: Record<string, any>;
+  policy?: NodePolicy;
+}
+
+/**
+ * Connection as stored in a flow file
+ */
+export interface FlowConnectionDocument {
+  id: string;
+  fromNode: string;
+  fromPort: string;
+  toNode: string;
+  toPort: string;
+  color?: string;
+}
+
+/**
+ * Declared flow variable
+ */
+export interface FlowVariableDocument {
+  type?: string;
+  description?: string;
+  default?: any;
+}
+
+/**
+ * Flow file contents
+ */
+export interface FlowDocument {
+  formatVersion: number;
+  id: string;
+  name: string;
+  version?: string;
+  description?: string;
+  metadata?: Flow['metadata'];
+  variables?: Record<string, FlowVariableDocument>;
+  nodes: FlowNodeDocument[];
+  connections: FlowConnectionDocument[];
+}
+
+/**
+ * Upgrade step between two format versions
+ */
+export interface FlowMigration {
+  from: number;
+  to: number;
+  description?: string;
+  migrate: (document: any) => any;
+}
+
+/**
+ * Error raised when a flow file cannot be loaded
+ */
+export class FlowFormatError extends Error {
+  constructor(message: string, public readonly violations: SchemaViolation[] = []) {
+    super(
+      violations.length > 0
+        ? `${message}:\n${violations.map(v => `  ${v.path}: ${v.message}`).join('\n')}`
+        : message
+    );
+    this.name = 'FlowFormatError';
+  }
+}
+
+const CAPSULE_REF_PATTERN = '^@?[A-Za-z0-9_./-]+(@[^@\\s]+)?$';
+
+/**
+ * JSON Schema of the current flow file format
+ * Published as schema/flow.schema.json
+ */
+export const FLOW_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://capsulas.dev/schema/flow.schema.json',
+  title: 'Capsulas Flow',
+  type: 'object',
+  required: ['formatVersion', 'id', 'name', 'nodes', 'connections'],
+  additionalProperties: false,
+  properties: {
+    formatVersion: { const: FLOW_FORMAT_VERSION },
+    id: { type: 'string', minLength: 1 },
+    name: { type: 'string' },
+    version: { type: 'string' },
+    description: { type: 'string' },
+    metadata: {
+      type: 'object',
+      properties: {
+        created: { type: 'string' },
+        updated: { type: 'string' },
+        author: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } }
+      }
+    },
+    variables: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          type: { type: 'string' },
+          description: { type: 'string' }
+        }
+      }
+    },
+    nodes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'capsule'],
+        additionalProperties: false,
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          capsule: {
+            type: 'string',
+            pattern: CAPSULE_REF_PATTERN,
+            description: 'Capsule id with an optional version or semver range, e.g. "http@^1.0.0"'
+          },
+          position: {
+            type: 'object',
+            required: ['x', 'y'],
+            properties: { x: { type: 'number' }, y: { type: 'number' } }
+          },
+          config: { type: 'object' },
+          policy: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              retry: {
+                type: 'object',
+                required: ['retries'],
+                properties: {
+                  retries: { type: 'integer', minimum: 0 },
+                  backoff: { enum: ['fixed', 'exponential'] },
+                  delay: { type: 'number', minimum: 0 },
+                  maxDelay: { type: 'number', minimum: 0 }
+                }
+              },
+              timeout: { type: 'number', minimum: 0 },
+              onError: { enum: ['stop', 'continue', 'route'] },
+              memoize: { type: 'boolean' }
+            }
+          }
+        }
+      }
+    },
+    connections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'fromNode', 'fromPort', 'toNode', 'toPort'],
+        additionalProperties: false,
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          fromNode: { type: 'string' },
+          fromPort: { type: 'string' },
+          toNode: { type: 'string' },
+          toPort: { type: 'string' },
+          color: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+const migrations = new Map<number, FlowMigration>();
+
+/**
+ * Register an upgrade step for flow files
+ * Replaces any migration registered for the same source version.
+ */
+export function registerFlowMigration(migration: FlowMigration): void {
+  if (migration.to <= migration.from) {
+    throw new Error(`Flow migration must move forward, got ${migration.from} → ${migration.to}`);
+  }
+  migrations.set(migration.from, migration);
+}
+
+/**
+ * Format 0: unversioned files embedding partial capsule objects and using
+ * nested { from: { nodeId, portId } } connections
+ */
+registerFlowMigration({
+  from: 0,
+  to: 1,
+  description: 'Reference capsules by id@version and flatten connections',
+  migrate: document => ({
+    ...document,
+    formatVersion: 1,
+    nodes: (document.nodes || []).map((node: any) => ({
+      ...node,
+      capsule: typeof node.capsule === 'object' && node.capsule !== null
+        ? formatCapsuleRef(node.capsule.id, node.capsule.version)
+        : node.capsule
+    })),
+    connections: (document.connections || []).map((conn: any) => {
+      if (!conn.from || !conn.to) return conn;
+      const { from, to, ...rest } = conn;
+      return {
+        ...rest,
+        fromNode: from.nodeId,
+        fromPort: from.portId,
+        toNode: to.nodeId,
+        toPort: to.portId
+      };
+    })
+  })
+});
+
+/**
+ * Split a capsule reference into id and version
+ *
+ * @example
+ * parseCapsuleRef('http@^1.2.0') // { id: 'http', version: '^1.2.0' }
+ * parseCapsuleRef('http')        // { id: 'http', version: undefined }
+ */
+export function parseCapsuleRef(ref: string): { id: string; version?: string } {
+  const at = ref.lastIndexOf('@');
+  if (at <= 0) return { id: ref };
+  return { id: ref.slice(0, at), version: ref.slice(at + 1) };
+}
+
+/**
+ * Build a capsule reference from an id and optional version
+ */
+export function formatCapsuleRef(id: string, version?: string): string {
+  return version ? `${id}@${version}` : id;
+}
+
+/**
+ * Whether a value is a flow document rather than a runtime flow
+ */
+export function isFlowDocument(flow: Flow | FlowDocument): flow is FlowDocument {
+  return 'formatVersion' in flow;
+}
+
+/**
+ * Convert a runtime flow into its file representation
+ */
+export function toFlowDocument(flow: Flow): FlowDocument {
+  return {
+    formatVersion: FLOW_FORMAT_VERSION,
+    id: flow.id,
+    name: flow.name,
+    version: flow.version,
+    description: flow.description,
+    metadata: flow.metadata,
+    nodes: flow.nodes.map(node => ({
+      id: node.id,
+      capsule: formatCapsuleRef(node.capsule.id, node.capsule.version),
+      position: node.position,
+      config: node.config,
+      policy: node.policy
+    })),
+    connections: flow.connections.map(conn => ({ ...conn }))
+  };
+}
+
+/**
+ * Upgrade a parsed document to the current format version
+ */
+function migrateDocument(document: any): any {
+  let current = document;
+  let version = typeof current.formatVersion === 'number' ? current.formatVersion : 0;
+
+  if (version > FLOW_FORMAT_VERSION) {
+    throw new FlowFormatError(
+      `Flow format version ${version} is newer than the supported version ${FLOW_FORMAT_VERSION}`
+    );
+  }
+
+  while (version < FLOW_FORMAT_VERSION) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new FlowFormatError(`No migration registered from flow format version ${version}`);
+    }
+    current = migration.migrate(current);
+    version = migration.to;
+  }
+
+  return current;
+}
+
+/**
+ * Parse, upgrade and validate a flow file
+ *
+ * @param source - JSON text or an already parsed object
+ * @returns The flow document in the current format version
+ * @throws FlowFormatError when the file is invalid
+ */
+export function loadFlow(source: string | object): FlowDocument {
+  let parsed: any;
+
+  if (typeof source === 'string') {
+    try {
+      parsed = JSON.parse(source);
+    } catch (error) {
+      throw new FlowFormatError(`Invalid flow JSON: ${error instanceof Error ? error.message : error}`);
+    }
+  } else {
+    parsed = source;
+  }
+
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new FlowFormatError('Flow file must contain a JSON object');
+  }
+
+  const document = migrateDocument(parsed);
+  const violations = validateSchema(document, FLOW_SCHEMA);
+
+  const seen = new Set<string>();
+  (Array.isArray(document.nodes) ? document.nodes : []).forEach((node: any, index: number) => {
+    if (seen.has(node?.id)) {
+      violations.push({ path: `$.nodes[${index}].id`, message: `Duplicate node id "${node.id}"` });
+    }
+    seen.add(node?.id);
+  });
+
+  if (violations.length > 0) {
+    throw new FlowFormatError(`Invalid flow "${document.id ?? 'unknown'}"`, violations);
+  }
+
+  return document as FlowDocument;
+}
+
+const KEY_ORDER: Record<string, string[]> = {
+  document: ['formatVersion', 'id', 'name', 'version', 'description', 'metadata', 'variables', 'nodes', 'connections'],
+  node: ['id', 'capsule', 'position', 'config', 'policy'],
+  connection: ['id', 'fromNode', 'fromPort', 'toNode', 'toPort', 'color']
+};
+
+/**
+ * Copy a value with its keys in a stable order: `order` first, then alphabetical
+ * Undefined values are dropped.
+ */
+function sortKeys(value: any, order: string[] = []): any {
+  if (Array.isArray(value)) return value.map(item => sortKeys(item));
+  if (value === null || typeof value !== 'object') return value;
+
+  const keys = Object.keys(value).filter(key => value[key] !== undefined);
+  const rank = (key: string) => (order.includes(key) ? order.indexOf(key) : order.length);
+  keys.sort((a, b) => rank(a) - rank(b) || (a < b ? -1 : a > b ? 1 : 0));
+
+  return Object.fromEntries(keys.map(key => [key, sortKeys(value[key])]));
+}
+
+/**
+ * Serialize a flow to the current file format
+ *
+ * @param flow - Runtime flow or flow document
+ * @returns Pretty-printed JSON with stable key order and a trailing newline
+ */
+export function saveFlow(flow: Flow | FlowDocument): string {
+  const document = isFlowDocument(flow) ? flow : toFlowDocument(flow);
+
+  const ordered = {
+    ...sortKeys(document, KEY_ORDER.document),
+    nodes: document.nodes.map(node => sortKeys(node, KEY_ORDER.node)),
+    connections: document.connections.map(conn => sortKeys(conn, KEY_ORDER.connection))
+  };
+
+  return `${JSON.stringify(ordered, null, 2)}\n`;
+}
+
+/**
+ * Read and load a flow file from disk
+ */
+export async function loadFlowFile(filePath: string): Promise<FlowDocument> {
+  return loadFlow(await fs.readFile(filePath, 'utf-8'));
+}
+
+/**
+ * Save a flow to disk in the current file format
+ */
+export async function saveFlowFile(filePath: string, flow: Flow | FlowDocument): Promise<void> {
+  await fs.writeFile(filePath, saveFlow(flow), 'utf-8');
+}
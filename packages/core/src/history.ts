@@ -0,0 +1,432 @@
+/**
+ * @capsulas/core - Execution history
+ *
+ * Pluggable stores keeping a record of every finished execution, with the
+ * inputs and outputs of its nodes, so past runs can be looked up and listed.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { executeInTransaction } from './checkpoint';
+import type { CheckpointDatabase } from './checkpoint';
+import { SqlTable } from './sql';
+import type { ExecutionContext, ExecutionResult, Flow, NodeExecution } from './types';
+import type { TriggerInvocation } from './triggers';
+import { isAsyncIterable } from './streams';
+
+/**
+ * Final status of a recorded execution
+ */
+export type ExecutionStatus = 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Default largest serialized size, in characters, of a recorded value
+ */
+export const DEFAULT_HISTORY_VALUE_SIZE = 10_000;
+
+/**
+ * Recorded value that was too large to keep
+ */
+export interface TruncatedValue {
+  $truncated: {
+    /** Serialized size of the original value */
+    size: number;
+    /** Start of the serialized value */
+    preview: string;
+  };
+}
+
+/**
+ * Node of a recorded execution
+ */
+export interface NodeExecutionRecord extends NodeExecution {
+  inputs?: Record<string, any>;
+  outputs?: Record<string, any>;
+}
+
+/**
+ * Execution as kept in the history
+ * Values are redacted and capped to the store's `maxValueSize`.
+ */
+export interface ExecutionRecord {
+  executionId: string;
+  flowId: string;
+  flowVersion?: string;
+  /** Event that started the execution; absent for direct runs */
+  trigger?: TriggerInvocation;
+  status: ExecutionStatus;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  nodes: Record<string, NodeExecutionRecord>;
+  errors?: Array<{ nodeId: string; error: string }>;
+}
+
+/**
+ * Filter for listing executions, newest first
+ */
+export interface ExecutionQuery {
+  flowId?: string;
+  status?: ExecutionStatus | ExecutionStatus[];
+  /** Executions started at or after this time (ms since epoch) */
+  from?: number;
+  /** Executions started before this time (ms since epoch) */
+  to?: number;
+  /** Page size, 50 by default */
+  limit?: number;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+}
+
+/**
+ * One page of a history query
+ */
+export interface ExecutionPage {
+  records: ExecutionRecord[];
+  /** Set when more records match */
+  nextCursor?: string;
+}
+
+/**
+ * Storage backend for the execution history
+ */
+export interface ExecutionHistoryStore {
+  /** Largest serialized size of a recorded input, output or trigger payload */
+  readonly maxValueSize?: number;
+  save(record: ExecutionRecord): Promise<void>;
+  get(executionId: string): Promise<ExecutionRecord | null>;
+  query(query?: ExecutionQuery): Promise<ExecutionPage>;
+  delete(executionId: string): Promise<void>;
+}
+
+export interface ExecutionHistoryOptions {
+  /** Defaults to DEFAULT_HISTORY_VALUE_SIZE */
+  maxValueSize?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Keep a value in the history, replacing it when it is too large
+ * Streams, which cannot be serialized, are recorded as `{ $stream: {} }`.
+ */
+export function capHistoryValue(value: unknown, maxSize = DEFAULT_HISTORY_VALUE_SIZE): unknown {
+  if (value === undefined) return undefined;
+
+  const json = JSON.stringify(value, (_key, item) => (isAsyncIterable(item) ? { $stream: {} } : item));
+  if (json === undefined) return undefined;
+  if (json.length <= maxSize) return JSON.parse(json);
+
+  const truncated: TruncatedValue = { $truncated: { size: json.length, preview: json.slice(0, maxSize) } };
+  return truncated;
+}
+
+/**
+ * Build the history record of a finished execution
+ *
+ * @param inputs - Inputs each node received, keyed by node id; redacted like the result
+ */
+export function createExecutionRecord(
+  flow: Pick<Flow, 'id' | 'version'>,
+  result: ExecutionResult,
+  inputs: Record<string, Record<string, any>>,
+  options: { startTime: number; trigger?: TriggerInvocation; maxValueSize?: number }
+): ExecutionRecord {
+  const cap = (value: unknown) => capHistoryValue(value, options.maxValueSize) as any;
+  const nodes: Record<string, NodeExecutionRecord> = {};
+
+  for (const [nodeId, execution] of Object.entries(result.nodeExecutions)) {
+    nodes[nodeId] = {
+      ...execution,
+      ...(inputs[nodeId] && { inputs: cap(inputs[nodeId]) }),
+      ...(result.nodeResults[nodeId] && { outputs: cap(result.nodeResults[nodeId]) })
+    };
+  }
+
+  const endTime = options.startTime + result.executionTime;
+  return {
+    executionId: result.executionId,
+    flowId: flow.id,
+    ...(flow.version !== undefined && { flowVersion: flow.version }),
+    ...(options.trigger && { trigger: { ...options.trigger, payload: cap(options.trigger.payload) } }),
+    status: result.cancelled ? 'cancelled' : result.success ? 'completed' : 'failed',
+    startTime: options.startTime,
+    endTime,
+    duration: result.executionTime,
+    nodes,
+    ...(result.errors && { errors: result.errors })
+  };
+}
+
+/**
+ * Opaque position after the last record of a page
+ */
+function encodeCursor(record: ExecutionRecord): string {
+  return Buffer.from(JSON.stringify([record.startTime, record.executionId])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [number, string] {
+  try {
+    const [startTime, executionId] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof startTime === 'number' && typeof executionId === 'string') return [startTime, executionId];
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid history cursor: ${cursor}`);
+}
+
+/**
+ * Whether `record` comes after the cursor position, newest first
+ */
+function isAfterCursor(record: ExecutionRecord, [startTime, executionId]: [number, string]): boolean {
+  return record.startTime < startTime || (record.startTime === startTime && record.executionId < executionId);
+}
+
+function getPageSize(query: ExecutionQuery): number {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`History query limit must be a positive integer, got ${query.limit}`);
+  }
+  return limit;
+}
+
+/**
+ * Filter, sort and paginate records held in memory
+ */
+function queryRecords(records: ExecutionRecord[], query: ExecutionQuery): ExecutionPage {
+  const limit = getPageSize(query);
+  const statuses = query.status === undefined ? undefined : ([] as ExecutionStatus[]).concat(query.status);
+  const cursor = query.cursor === undefined ? undefined : decodeCursor(query.cursor);
+
+  const matching = records
+    .filter(record =>
+      (query.flowId === undefined || record.flowId === query.flowId) &&
+      (statuses === undefined || statuses.includes(record.status)) &&
+      (query.from === undefined || record.startTime >= query.from) &&
+      (query.to === undefined || record.startTime < query.to) &&
+      (cursor === undefined || isAfterCursor(record, cursor))
+    )
+    .sort((a, b) => b.startTime - a.startTime || (a.executionId < b.executionId ? 1 : -1));
+
+  return toPage(matching.slice(0, limit + 1), limit);
+}
+
+/**
+ * Page of `limit` records out of up to `limit + 1` fetched
+ */
+function toPage(records: ExecutionRecord[], limit: number): ExecutionPage {
+  const page = records.slice(0, limit);
+  return {
+    records: page,
+    ...(records.length > limit && { nextCursor: encodeCursor(page[page.length - 1]) })
+  };
+}
+
+/**
+ * In-memory history, mostly useful for tests and single-process runs
+ */
+export class MemoryHistoryStore implements ExecutionHistoryStore {
+  readonly maxValueSize: number;
+  private records = new Map<string, string>();
+
+  constructor(options: ExecutionHistoryOptions = {}) {
+    this.maxValueSize = options.maxValueSize ?? DEFAULT_HISTORY_VALUE_SIZE;
+  }
+
+  async save(record: ExecutionRecord): Promise<void> {
+    this.records.set(record.executionId, JSON.stringify(record));
+  }
+
+  async get(executionId: string): Promise<ExecutionRecord | null> {
+    const stored = this.records.get(executionId);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  async query(query: ExecutionQuery = {}): Promise<ExecutionPage> {
+    return queryRecords([...this.records.values()].map(stored => JSON.parse(stored)), query);
+  }
+
+  async delete(executionId: string): Promise<void> {
+    this.records.delete(executionId);
+  }
+}
+
+export interface JsonLinesHistoryStoreOptions extends ExecutionHistoryOptions {
+  /** Warned about lines that cannot be read, e.g. one cut off by a crash */
+  logger?: ExecutionContext['logger'];
+}
+
+/**
+ * History appended to a JSON lines file, one record per line
+ * A record saved again for the same execution replaces the earlier one.
+ * Lines that are not valid JSON are skipped.
+ */
+export class JsonLinesHistoryStore implements ExecutionHistoryStore {
+  readonly maxValueSize: number;
+  // File operations run one at a time so rewrites never lose an append
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private readonly logger: ExecutionContext['logger'];
+
+  constructor(private readonly file: string, options: JsonLinesHistoryStoreOptions = {}) {
+    this.maxValueSize = options.maxValueSize ?? DEFAULT_HISTORY_VALUE_SIZE;
+    this.logger = options.logger;
+  }
+
+  save(record: ExecutionRecord): Promise<void> {
+    return this.enqueue(async () => {
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.appendFile(this.file, `${JSON.stringify(record)}\n`, 'utf-8');
+    });
+  }
+
+  get(executionId: string): Promise<ExecutionRecord | null> {
+    return this.enqueue(async () => (await this.readAll()).get(executionId) ?? null);
+  }
+
+  query(query: ExecutionQuery = {}): Promise<ExecutionPage> {
+    return this.enqueue(async () => queryRecords([...(await this.readAll()).values()], query));
+  }
+
+  delete(executionId: string): Promise<void> {
+    return this.enqueue(async () => {
+      const records = await this.readAll();
+      if (!records.delete(executionId)) return;
+
+      // Write then rename so a crash never leaves a truncated history
+      const tempFile = `${this.file}.tmp`;
+      await fs.writeFile(tempFile, [...records.values()].map(record => `${JSON.stringify(record)}\n`).join(''), 'utf-8');
+      await fs.rename(tempFile, this.file);
+    });
+  }
+
+  private async readAll(): Promise<Map<string, ExecutionRecord>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.file, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return new Map();
+      throw error;
+    }
+
+    const records = new Map<string, ExecutionRecord>();
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let record: ExecutionRecord;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        this.logger?.warn(
+          `Skipping unreadable line ${index + 1} of ${this.file}: ${error instanceof Error ? error.message : error}`
+        );
+        return;
+      }
+      records.delete(record.executionId);
+      records.set(record.executionId, record);
+    });
+    return records;
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
+
+export interface DatabaseHistoryStoreOptions extends ExecutionHistoryOptions {
+  /** Defaults to "capsulas_executions" */
+  tableName?: string;
+  /** Parameter placeholder style: "?" (SQLite/MySQL) or "$1" (PostgreSQL) */
+  paramStyle?: 'question' | 'dollar';
+}
+
+/**
+ * History backed by the database capsule
+ *
+ * @example
+ * const db = createDatabaseService({ type: 'postgres', ... });
+ * await db.initialize();
+ * const history = new DatabaseHistoryStore(db, { paramStyle: 'dollar' });
+ */
+export class DatabaseHistoryStore implements ExecutionHistoryStore {
+  readonly maxValueSize: number;
+  private readonly table: SqlTable;
+
+  constructor(private readonly db: CheckpointDatabase, options: DatabaseHistoryStoreOptions = {}) {
+    this.maxValueSize = options.maxValueSize ?? DEFAULT_HISTORY_VALUE_SIZE;
+    this.table = new SqlTable(
+      db,
+      options.tableName || 'capsulas_executions',
+      'execution_id TEXT PRIMARY KEY, flow_id TEXT, status TEXT, started_at BIGINT, data TEXT',
+      options.paramStyle || 'question',
+      'history'
+    );
+  }
+
+  async save(record: ExecutionRecord): Promise<void> {
+    await this.table.ensure();
+    await executeInTransaction(this.db, [
+      {
+        sql: `DELETE FROM ${this.table.name} WHERE execution_id = ${this.table.param(1)}`,
+        params: [record.executionId]
+      },
+      {
+        sql:
+          `INSERT INTO ${this.table.name} (execution_id, flow_id, status, started_at, data) ` +
+          `VALUES (${this.table.param(1)}, ${this.table.param(2)}, ${this.table.param(3)}, ${this.table.param(4)}, ${this.table.param(5)})`,
+        params: [record.executionId, record.flowId, record.status, record.startTime, JSON.stringify(record)]
+      }
+    ]);
+  }
+
+  async get(executionId: string): Promise<ExecutionRecord | null> {
+    await this.table.ensure();
+    const result = await this.db.query(
+      `SELECT data FROM ${this.table.name} WHERE execution_id = ${this.table.param(1)}`,
+      [executionId]
+    );
+    const row = result.rows[0];
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async query(query: ExecutionQuery = {}): Promise<ExecutionPage> {
+    const limit = getPageSize(query);
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const add = (sql: string, ...values: any[]) => {
+      // Each ? in `sql` becomes the next placeholder
+      conditions.push(sql.replace(/\?/g, () => this.table.param(params.push(values.shift()))));
+    };
+
+    if (query.flowId !== undefined) add('flow_id = ?', query.flowId);
+    if (query.status !== undefined) {
+      const statuses = ([] as ExecutionStatus[]).concat(query.status);
+      add(`status IN (${statuses.map(() => '?').join(', ')})`, ...statuses);
+    }
+    if (query.from !== undefined) add('started_at >= ?', query.from);
+    if (query.to !== undefined) add('started_at < ?', query.to);
+    if (query.cursor !== undefined) {
+      const [startTime, executionId] = decodeCursor(query.cursor);
+      add('(started_at < ? OR (started_at = ? AND execution_id < ?))', startTime, startTime, executionId);
+    }
+
+    await this.table.ensure();
+    const result = await this.db.query(
+      `SELECT data FROM ${this.table.name}` +
+        (conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '') +
+        ` ORDER BY started_at DESC, execution_id DESC LIMIT ${limit + 1}`,
+      params
+    );
+    return toPage(result.rows.map(row => JSON.parse(row.data)), limit);
+  }
+
+  async delete(executionId: string): Promise<void> {
+    await this.table.ensure();
+    await this.db.executeSQL(
+      `DELETE FROM ${this.table.name} WHERE execution_id = ${this.table.param(1)}`,
+      [executionId]
+    );
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * @capsulas/core - Flow host
+ *
+ * Long-running runtime that registers a project's flows, subscribes their
+ * trigger nodes to trigger sources and runs the resulting executions with
+ * concurrency limits and graceful shutdown.
+ */
+
+import { executeFlow } from './executor';
+import { FlowDocument, isFlowDocument } from './flow-format';
+import type { TriggerInvocation, TriggerSource, TriggeredExecution } from './triggers';
+import type { ExecutionContext, ExecutionResult, Flow, Node } from './types';
+import { generateExecutionId } from './utils';
+
+/**
+ * Options for FlowHost
+ */
+export interface FlowHostOptions {
+  sources?: TriggerSource[];
+  /** Executions running at the same time across all flows, unlimited by default */
+  maxConcurrency?: number;
+  /** Executions waiting for a slot before new events are refused, unlimited by default */
+  maxQueued?: number;
+  /** Time stop() lets running executions finish before cancelling them, in ms */
+  shutdownTimeout?: number;
+  /** Base execution context: registry, secrets, events, checkpoints, logger... */
+  context?: Partial<ExecutionContext>;
+}
+
+/**
+ * Options for a registered flow
+ */
+export interface RegisterFlowOptions {
+  /** Executions of this flow running at the same time */
+  maxConcurrency?: number;
+  /** Variables merged over the host context's variables */
+  variables?: Record<string, any>;
+}
+
+/**
+ * Counters describing the host's activity
+ */
+export interface FlowHostStats {
+  running: number;
+  queued: number;
+  completed: number;
+  failed: number;
+  /** Executions refused because the host was stopping or full */
+  rejected: number;
+}
+
+/**
+ * Lifecycle state of a host
+ */
+export type FlowHostState = 'idle' | 'running' | 'stopping' | 'stopped';
+
+interface RegisteredFlow {
+  flow: Flow;
+  options: RegisterFlowOptions;
+  running: number;
+  unsubscribers: Array<() => void | Promise<void>>;
+}
+
+interface PendingExecution {
+  flowId: string;
+  start: () => void;
+  cancel: (error: Error) => void;
+}
+
+/**
+ * Hosts flows started by their triggers
+ *
+ * @example
+ * const host = new FlowHost({
+ *   sources: [new CronTriggerSource(cron), new WebhookTriggerSource({ port: 8080 })],
+ *   maxConcurrency: 10,
+ *   context: { registry, secrets }
+ * });
+ * host.register(await loadFlowFile('flows/orders.flow.json'));
+ * await host.start();
+ * process.once('SIGTERM', () => host.stop());
+ */
+export class FlowHost {
+  private sources = new Map<string, TriggerSource>();
+  private flows = new Map<string, RegisteredFlow>();
+  private pending: PendingExecution[] = [];
+  private running = new Set<Promise<ExecutionResult>>();
+  private controller = new AbortController();
+  private stats: FlowHostStats = { running: 0, queued: 0, completed: 0, failed: 0, rejected: 0 };
+  private _state: FlowHostState = 'idle';
+
+  constructor(private readonly options: FlowHostOptions = {}) {
+    options.sources?.forEach(source => this.addSource(source));
+  }
+
+  get state(): FlowHostState {
+    return this._state;
+  }
+
+  private get logger() {
+    return this.options.context?.logger;
+  }
+
+  /**
+   * Serve a trigger type
+   * @throws Error if the type already has a source
+   */
+  addSource(source: TriggerSource): this {
+    if (this.sources.has(source.type)) {
+      throw new Error(`A trigger source for ${source.type} is already registered`);
+    }
+    this.sources.set(source.type, source);
+    return this;
+  }
+
+  /**
+   * Host a flow; its triggers are subscribed now if the host is running
+   * @throws Error if the flow is already registered or a trigger has no source
+   */
+  async register(flow: Flow | FlowDocument, options: RegisterFlowOptions = {}): Promise<this> {
+    const runtime = this.hydrate(flow);
+    if (this.flows.has(runtime.id)) {
+      throw new Error(`Flow ${runtime.id} is already registered`);
+    }
+
+    const triggers = getTriggerNodes(runtime);
+    for (const node of triggers) {
+      if (!this.sources.has(node.capsule.trigger!)) {
+        throw new Error(`No trigger source for ${node.capsule.trigger} (node ${node.id} of flow ${runtime.id})`);
+      }
+    }
+
+    const entry: RegisteredFlow = { flow: runtime, options, running: 0, unsubscribers: [] };
+    this.flows.set(runtime.id, entry);
+
+    if (this._state === 'running') {
+      await this.subscribe(entry);
+    }
+    return this;
+  }
+
+  /**
+   * Stop hosting a flow; its running executions finish normally
+   */
+  async unregister(flowId: string): Promise<void> {
+    const entry = this.flows.get(flowId);
+    if (!entry) return;
+
+    this.flows.delete(flowId);
+    await this.unsubscribe(entry);
+  }
+
+  /**
+   * Ids of the hosted flows
+   */
+  listFlows(): string[] {
+    return [...this.flows.keys()];
+  }
+
+  getStats(): FlowHostStats {
+    return { ...this.stats, running: this.running.size, queued: this.pending.length };
+  }
+
+  /**
+   * Subscribe every hosted flow's triggers
+   */
+  async start(): Promise<void> {
+    if (this._state !== 'idle') {
+      throw new Error(`Cannot start a flow host that is ${this._state}`);
+    }
+
+    this._state = 'running';
+    try {
+      for (const entry of this.flows.values()) {
+        await this.subscribe(entry);
+      }
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+    this.logger?.info(`Flow host started with ${this.flows.size} flows`);
+  }
+
+  /**
+   * Start an execution without an outside event
+   *
+   * @param flowId - Hosted flow to run
+   * @param triggerNodeId - Trigger node to fire; runs the flow without a trigger when omitted
+   * @param payload - Payload emitted by the trigger node
+   */
+  run(flowId: string, triggerNodeId?: string, payload?: any): TriggeredExecution {
+    const entry = this.flows.get(flowId);
+    if (!entry) {
+      throw new Error(`Flow ${flowId} is not registered`);
+    }
+
+    if (triggerNodeId === undefined) {
+      return this.enqueue(entry);
+    }
+
+    const node = entry.flow.nodes.find(n => n.id === triggerNodeId);
+    if (!node?.capsule.trigger) {
+      throw new Error(`Node ${triggerNodeId} of flow ${flowId} is not a trigger`);
+    }
+    return this.enqueue(entry, { nodeId: node.id, type: node.capsule.trigger, payload, meta: { manual: true } });
+  }
+
+  /**
+   * Stop taking events and wait for running executions
+   *
+   * Executions still queued are rejected. Running executions get
+   * `shutdownTimeout` ms to finish, then they are cancelled.
+   */
+  async stop(): Promise<void> {
+    if (this._state === 'stopping' || this._state === 'stopped') return;
+    this._state = 'stopping';
+    this.logger?.info('Flow host stopping');
+
+    for (const entry of this.flows.values()) {
+      await this.unsubscribe(entry);
+    }
+
+    const queued = this.pending.splice(0);
+    queued.forEach(execution => execution.cancel(new Error('Flow host stopped before the execution started')));
+
+    const timeout = this.options.shutdownTimeout ?? 30000;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<void>(resolve => {
+      timer = setTimeout(resolve, timeout);
+    });
+
+    await Promise.race([Promise.allSettled([...this.running]), timedOut]);
+    clearTimeout(timer);
+
+    if (this.running.size > 0) {
+      this.logger?.warn(`Cancelling ${this.running.size} executions still running after ${timeout}ms`);
+      this.controller.abort(new Error('Flow host shutting down'));
+      await Promise.allSettled([...this.running]);
+    }
+
+    for (const source of this.sources.values()) {
+      await source.close?.();
+    }
+
+    // Services shared by every execution of the host live as long as the host
+    const services = this.options.context?.services;
+    if (services?.lifetime === 'shared') {
+      const cleanupErrors = await services.cleanup();
+      cleanupErrors.forEach(error => this.logger?.warn(`Service cleanup failed: ${error}`));
+    }
+
+    this._state = 'stopped';
+    this.logger?.info('Flow host stopped');
+  }
+
+  private hydrate(flow: Flow | FlowDocument): Flow {
+    if (!isFlowDocument(flow)) return flow;
+
+    const registry = this.options.context?.registry;
+    if (!registry) {
+      throw new Error(`Cannot host flow document ${flow.id} without a capsule registry`);
+    }
+    return registry.hydrateFlow(flow);
+  }
+
+  private async subscribe(entry: RegisteredFlow): Promise<void> {
+    for (const node of getTriggerNodes(entry.flow)) {
+      const source = this.sources.get(node.capsule.trigger!)!;
+      const unsubscribe = await source.subscribe({
+        flowId: entry.flow.id,
+        nodeId: node.id,
+        config: { ...node.config },
+        fire: (payload, meta) =>
+          this.enqueue(entry, { nodeId: node.id, type: source.type, payload, meta })
+      });
+      entry.unsubscribers.push(unsubscribe);
+    }
+  }
+
+  private async unsubscribe(entry: RegisteredFlow): Promise<void> {
+    const unsubscribers = entry.unsubscribers.splice(0);
+    for (const unsubscribe of unsubscribers) {
+      await unsubscribe();
+    }
+  }
+
+  /**
+   * Accept an execution and start it once both concurrency limits allow
+   */
+  private enqueue(entry: RegisteredFlow, trigger?: TriggerInvocation): TriggeredExecution {
+    if (this._state !== 'running') {
+      this.stats.rejected++;
+      throw new Error(`Flow host is ${this._state} and not accepting executions`);
+    }
+    if (this.pending.length >= (this.options.maxQueued ?? Infinity) && !this.hasCapacity(entry)) {
+      this.stats.rejected++;
+      throw new Error(`Flow host queue is full (${this.pending.length} executions waiting)`);
+    }
+
+    const executionId = generateExecutionId();
+    const result = new Promise<ExecutionResult>((resolve, reject) => {
+      this.pending.push({
+        flowId: entry.flow.id,
+        start: () => resolve(this.execute(entry, executionId, trigger)),
+        cancel: reject
+      });
+    });
+
+    this.drain();
+    return { executionId, result };
+  }
+
+  private hasCapacity(entry: RegisteredFlow): boolean {
+    return (
+      this.running.size < (this.options.maxConcurrency ?? Infinity) &&
+      entry.running < (entry.options.maxConcurrency ?? Infinity)
+    );
+  }
+
+  /**
+   * Start queued executions in order, skipping flows at their own limit
+   */
+  private drain(): void {
+    for (let i = 0; i < this.pending.length; i++) {
+      const entry = this.flows.get(this.pending[i].flowId);
+      if (entry && !this.hasCapacity(entry)) {
+        if (this.running.size >= (this.options.maxConcurrency ?? Infinity)) return;
+        continue;
+      }
+
+      const [execution] = this.pending.splice(i--, 1);
+      execution.start();
+    }
+  }
+
+  private execute(entry: RegisteredFlow, executionId: string, trigger?: TriggerInvocation): Promise<ExecutionResult> {
+    const base = this.options.context ?? {};
+    entry.running++;
+
+    const execution = executeFlow(entry.flow, {
+      ...base,
+      flowId: entry.flow.id,
+      executionId,
+      variables: { ...base.variables, ...entry.options.variables },
+      env: { ...base.env },
+      signal: this.controller.signal,
+      ...(trigger && { trigger })
+    });
+    this.running.add(execution);
+
+    return execution.then(
+      result => {
+        this.finish(entry, execution);
+        this.stats[result.success ? 'completed' : 'failed']++;
+        return result;
+      },
+      error => {
+        this.finish(entry, execution);
+        this.stats.failed++;
+        throw error;
+      }
+    );
+  }
+
+  private finish(entry: RegisteredFlow, execution: Promise<ExecutionResult>): void {
+    entry.running--;
+    this.running.delete(execution);
+    this.drain();
+  }
+}
+
+/**
+ * Nodes of a flow whose capsule is a trigger
+ */
+export function getTriggerNodes(flow: Flow): Node[] {
+  return flow.nodes.filter(node => node.capsule.trigger);
+}
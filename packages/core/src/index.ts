@@ -14,7 +14,79 @@ export * from './validator';
 // Export executor functions
 export * from './executor';
 
+// Export port type registry
+export * from './port-types';
+
+// Export streaming port utilities
+export * from './streams';
+
+// Export typed flow builder
+export * from './builder';
+
+// Export JSON Schema validation
+export * from './schema';
+
+// Export flow file format
+export * from './flow-format';
+
+// Export capsule registry
+export * from './semver';
+export * from './registry';
+
+// Export config expression language
+export * from './expressions';
+
+// Export execution lifecycle events
+export * from './events';
+
+// Export memoized node outputs
+export * from './cache';
+
+// Export secret providers and redaction
+export * from './secrets';
+
+// Export managed capsule services
+export * from './services';
+
+// Export checkpoint stores
+export * from './checkpoint';
+
+// Export execution history
+export * from './history';
+
+// Export node execution policies
+export * from './policy';
+
+// Export control flow capsules
+export * from './control';
+export * from './map';
+
+// Export sandboxed code capsule
+export * from './sandbox';
+
+// Export subflows
+export * from './subflow';
+
+// Export triggers and the flow host
+export * from './triggers';
+export * from './host';
+
+// Export flow debugger
+export * from './debugger';
+
+// Export execution record and replay
+export * from './replay';
+
+// Export flow test harness
+export * from './testing';
+
 // Re-export commonly used items for convenience
 export { PORT_TYPES, defineCapsule } from './types';
-export { isPortCompatible, validateFlow } from './validator';
-export { executeFlow, getExecutionOrder } from './executor';
+export { isPortCompatible, validateFlow, diagnoseFlow } from './validator';
+export { executeFlow, resumeExecution, getExecutionOrder } from './executor';
+export { loadFlow, saveFlow } from './flow-format';
+export { CapsuleRegistry } from './registry';
+export { FlowBuilder } from './builder';
+export { ExecutionEventEmitter, streamFlow } from './events';
+export { runFlowTest } from './testing';
+export { FlowHost } from './host';
@@ -0,0 +1,162 @@
+/**
+ * @capsulas/core - Map capsule
+ *
+ * Runs a sub-flow once per element of an array and collects the outputs.
+ */
+
+import { executeFlow } from './executor';
+import { injectInputs } from './subflow';
+import { Capsule, Flow, PortRef, PORT_TYPES, defineCapsule } from './types';
+
+/**
+ * How a map node reacts to a failing item
+ * - failFast: stop starting new items and fail the node
+ * - collectErrors: keep going and report failures on the `errors` output
+ */
+export type MapErrorMode = 'failFast' | 'collectErrors';
+
+/**
+ * Options for building a map capsule
+ */
+export interface MapCapsuleOptions {
+  /** Input port inside the body that receives each item */
+  input: PortRef;
+  /** Output port inside the body whose value is collected per item */
+  output: PortRef;
+}
+
+/**
+ * Node config accepted by a map capsule
+ */
+export interface MapConfig {
+  concurrency?: number;
+  mode?: MapErrorMode;
+}
+
+/**
+ * Error reported for a failed item in collectErrors mode
+ */
+export interface MapItemError {
+  index: number;
+  error: string;
+}
+
+export const DEFAULT_MAP_CONFIG: Required<MapConfig> = {
+  concurrency: 1,
+  mode: 'failFast'
+};
+
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight
+ * Stops starting new items once `shouldStop` returns true
+ */
+async function forEachConcurrent<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean
+): Promise<void> {
+  let next = 0;
+
+  async function lane(): Promise<void> {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  }
+
+  const lanes = Array.from({ length: Math.min(concurrency, items.length) }, () => lane());
+  await Promise.all(lanes);
+}
+
+/**
+ * Create a map capsule that runs `body` once per item of its `items` input
+ *
+ * Each item is delivered to `options.input` and the value of `options.output`
+ * is collected, in item order, on the `results` output. The body runs with
+ * the parent execution context; the item index is exposed as `variables.$index`.
+ *
+ * @param body - Sub-flow executed per item
+ * @param options - Where items enter and results leave the body
+ */
+export function createMapCapsule(body: Flow, options: MapCapsuleOptions): Capsule {
+  for (const ref of [options.input, options.output]) {
+    if (!body.nodes.some(n => n.id === ref.nodeId)) {
+      throw new Error(`Map body "${body.name}" has no node ${ref.nodeId}`);
+    }
+  }
+
+  return defineCapsule({
+    id: 'core.map',
+    name: 'Map',
+    version: '1.0.0',
+    description: `Run "${body.name}" for each item`,
+    icon: '⟳',
+    category: 'processing',
+    inputs: [{ id: 'items', name: 'Items', type: PORT_TYPES.ARRAY, required: true }],
+    outputs: [
+      { id: 'results', name: 'Results', type: PORT_TYPES.ARRAY },
+      { id: 'errors', name: 'Errors', type: PORT_TYPES.ARRAY }
+    ],
+    configSchema: {
+      concurrency: { type: 'number', default: DEFAULT_MAP_CONFIG.concurrency, description: 'Items processed at the same time' },
+      mode: { type: 'string', default: DEFAULT_MAP_CONFIG.mode, enum: ['failFast', 'collectErrors'] }
+    },
+    nested: true,
+    // The outputs depend on the body, which is not part of the cache key
+    memoize: false,
+    execute: async (inputs, config, context) => {
+      const { concurrency, mode } = { ...DEFAULT_MAP_CONFIG, ...config } as Required<MapConfig>;
+      const items = inputs.items;
+
+      if (!Array.isArray(items)) {
+        throw new Error('Map input "items" must be an array');
+      }
+
+      if (!(concurrency >= 1)) {
+        throw new Error(`Map concurrency must be at least 1, got ${concurrency}`);
+      }
+
+      const results: any[] = new Array(items.length).fill(null);
+      const errors: MapItemError[] = [];
+      const parentFlowId = context?.execution.flowId || body.id;
+
+      await forEachConcurrent(
+        items,
+        concurrency,
+        async (item, index) => {
+          const itemFlow = injectInputs(body, { item }, { item: options.input });
+
+          const result = await executeFlow(itemFlow, {
+            env: {},
+            ...context?.execution,
+            flowId: parentFlowId,
+            executionId: undefined,
+            checkpoints: undefined,
+            cache: undefined,
+            history: undefined,
+            variables: { ...context?.execution.variables, $index: index },
+            parentFlowIds: context
+              ? [...(context.execution.parentFlowIds || []), context.flowId]
+              : undefined
+          });
+
+          if (result.success) {
+            results[index] = result.nodeResults[options.output.nodeId]?.[options.output.portId];
+          } else {
+            errors.push({ index, error: result.errors?.[0].error || 'Unknown error' });
+          }
+        },
+        () => mode === 'failFast' && errors.length > 0
+      );
+
+      errors.sort((a, b) => a.index - b.index);
+
+      if (mode === 'failFast' && errors.length > 0) {
+        throw new Error(`Map item ${errors[0].index} failed: ${errors[0].error}`);
+      }
+
+      return { results, errors };
+    }
+  });
+}
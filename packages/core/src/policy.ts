@@ -0,0 +1,119 @@
+/**
+ * @capsulas/core - Node execution policies
+ *
+ * Retry with backoff and per-attempt timeouts for capsule execution.
+ */
+
+import { NodePolicy, RetryPolicy } from './types';
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  retries: 0,
+  backoff: 'fixed',
+  delay: 1000,
+  maxDelay: 30000
+};
+
+/**
+ * Delay before the given retry (1-based)
+ */
+export function getRetryDelay(retry: RetryPolicy, attempt: number): number {
+  const { backoff, delay, maxDelay } = { ...DEFAULT_RETRY_POLICY, ...retry };
+
+  if (backoff === 'exponential') {
+    return Math.min(delay * Math.pow(2, attempt - 1), maxDelay);
+  }
+
+  return Math.min(delay, maxDelay);
+}
+
+/**
+ * Reject if `promise` does not settle within `timeout` milliseconds
+ */
+export function withTimeout<T>(promise: Promise<T>, timeout: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeout);
+  });
+
+  return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Reject with the signal's reason as soon as it is aborted
+ */
+export function withSignal<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  let onAbort: () => void = () => {};
+  const abortPromise = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  return Promise.race([promise, abortPromise]).finally(() => signal.removeEventListener('abort', onAbort));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  const delay = new Promise<void>(resolve => setTimeout(resolve, ms));
+  return signal ? withSignal(delay, signal) : delay;
+}
+
+/**
+ * Run `attempt` according to a node policy
+ *
+ * Each attempt is bounded by `policy.timeout`; failed attempts are retried
+ * `policy.retry.retries` times. The last error is rethrown. Once `signal` is
+ * aborted the pending attempt or retry delay is abandoned and the abort
+ * reason is thrown.
+ *
+ * Every attempt receives its own signal, aborted when the attempt times out
+ * or `signal` is aborted, so a timed-out attempt can stop before the retry
+ * starts.
+ *
+ * @param attempt - Function performing one attempt
+ * @param policy - Node policy
+ * @param onRetry - Called before waiting for the next attempt
+ * @param signal - Cancels the remaining attempts
+ */
+export async function runWithPolicy<T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  policy: NodePolicy = {},
+  onRetry?: (attemptNumber: number, error: unknown, delay: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  const retries = policy.retry?.retries ?? 0;
+
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    if (signal?.aborted) throw signal.reason;
+
+    const controller = new AbortController();
+    const stop = (reason: unknown) => {
+      if (!controller.signal.aborted) controller.abort(reason);
+    };
+    const onAbort = () => stop(signal!.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = policy.timeout
+      ? setTimeout(() => stop(new Error(`Timed out after ${policy.timeout}ms`)), policy.timeout)
+      : undefined;
+
+    try {
+      return await withSignal(attempt(controller.signal), controller.signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+
+      if (attemptNumber > retries) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(policy.retry!, attemptNumber);
+      onRetry?.(attemptNumber, error, delay);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
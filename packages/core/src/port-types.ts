@@ -0,0 +1,201 @@
+/**
+ * @capsulas/core - Port type registry
+ *
+ * Registry of the port types a project uses. A type may declare parent
+ * types it can connect to as-is, and coercions convert values between types
+ * that are not related, e.g. NUMBER → STRING. The executor applies coercions
+ * to the values crossing connections.
+ */
+
+import { PORT_TYPES, PortType } from './types';
+
+/**
+ * Port type as registered
+ */
+export interface PortTypeDefinition extends PortType {
+  /** Types this type can be used as without conversion, e.g. INVOICE → OBJECT */
+  parents?: string[];
+}
+
+/**
+ * Converts a value of one port type to another
+ * Throws when the value cannot be converted.
+ */
+export type PortCoercion = (value: any) => any;
+
+/**
+ * Port types and coercions known to validation and execution
+ *
+ * @example
+ * defaultPortTypes
+ *   .register({ id: 'invoice', name: 'Invoice', color: '#673ab7', parents: ['object'] })
+ *   .registerCoercion('invoice', 'string', invoice => invoice.number);
+ */
+export class PortTypeRegistry {
+  private types = new Map<string, PortTypeDefinition>();
+  private coercions = new Map<string, PortCoercion>();
+
+  constructor(types: PortTypeDefinition[] = []) {
+    types.forEach(type => this.register(type));
+  }
+
+  /**
+   * Add a port type
+   * @throws Error if the id is taken or a parent is not registered
+   */
+  register(type: PortTypeDefinition): this {
+    if (this.types.has(type.id)) {
+      throw new Error(`Port type ${type.id} is already registered`);
+    }
+    const unknown = type.parents?.find(parent => !this.types.has(parent));
+    if (unknown) {
+      throw new Error(`Port type ${type.id} has unknown parent type ${unknown}`);
+    }
+
+    this.types.set(type.id, type);
+    return this;
+  }
+
+  /**
+   * Add a conversion from one registered type to another
+   * @throws Error if either type is not registered
+   */
+  registerCoercion(fromType: string, toType: string, coerce: PortCoercion): this {
+    for (const id of [fromType, toType]) {
+      if (!this.types.has(id)) {
+        throw new Error(`Port type ${id} is not registered`);
+      }
+    }
+
+    this.coercions.set(`${fromType}→${toType}`, coerce);
+    return this;
+  }
+
+  get(id: string): PortTypeDefinition | undefined {
+    return this.types.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.types.has(id);
+  }
+
+  list(): PortTypeDefinition[] {
+    return [...this.types.values()];
+  }
+
+  /**
+   * Parents of a type, nearest first
+   */
+  getAncestors(id: string): string[] {
+    const ancestors: string[] = [];
+    const pending = [...(this.types.get(id)?.parents ?? [])];
+
+    while (pending.length > 0) {
+      const parent = pending.shift()!;
+      if (ancestors.includes(parent)) continue;
+      ancestors.push(parent);
+      pending.push(...(this.types.get(parent)?.parents ?? []));
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Whether values of `sourceType` can be used as `targetType` unchanged
+   */
+  isAssignable(sourceType: string, targetType: string): boolean {
+    return (
+      sourceType === 'any' ||
+      targetType === 'any' ||
+      sourceType === targetType ||
+      this.getAncestors(sourceType).includes(targetType)
+    );
+  }
+
+  /**
+   * Conversion needed to connect `sourceType` to `targetType`
+   *
+   * Coercions registered for an ancestor of the source type apply too.
+   * Returns undefined when the types are assignable or no coercion exists.
+   */
+  getCoercion(sourceType: string, targetType: string): PortCoercion | undefined {
+    if (this.isAssignable(sourceType, targetType)) return undefined;
+
+    for (const type of [sourceType, ...this.getAncestors(sourceType)]) {
+      const coerce = this.coercions.get(`${type}→${targetType}`);
+      if (coerce) return coerce;
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether an output of `sourceType` may connect to an input of `targetType`
+   */
+  isCompatible(sourceType: string, targetType: string): boolean {
+    return this.isAssignable(sourceType, targetType) || this.getCoercion(sourceType, targetType) !== undefined;
+  }
+
+  /**
+   * Input types an output of `sourceType` may connect to
+   */
+  getCompatibleTypes(sourceType: string): string[] {
+    if (sourceType === 'any') {
+      return this.list().map(type => type.id);
+    }
+
+    const compatible = [sourceType, ...this.getAncestors(sourceType)];
+    for (const type of this.types.keys()) {
+      if (!compatible.includes(type) && this.getCoercion(sourceType, type)) {
+        compatible.push(type);
+      }
+    }
+    return compatible;
+  }
+
+  /**
+   * Convert a value crossing a connection, when the types need it
+   */
+  coerce(sourceType: string, targetType: string, value: any): any {
+    const coerce = this.getCoercion(sourceType, targetType);
+    return coerce && value !== undefined ? coerce(value) : value;
+  }
+}
+
+/**
+ * Built-in port types with their compatibility
+ */
+export const BUILT_IN_PORT_TYPES: PortTypeDefinition[] = [
+  PORT_TYPES.ANY,
+  PORT_TYPES.STRING,
+  PORT_TYPES.NUMBER,
+  PORT_TYPES.OBJECT,
+  PORT_TYPES.ARRAY,
+  PORT_TYPES.FILE,
+  { ...PORT_TYPES.AUTH, parents: ['string'] },
+  { ...PORT_TYPES.USER, parents: ['object'] },
+  { ...PORT_TYPES.DATA, parents: ['object', 'array'] },
+  { ...PORT_TYPES.EVENT, parents: ['object'] },
+  { ...PORT_TYPES.MESSAGE, parents: ['object'] },
+  { ...PORT_TYPES.JOB, parents: ['object'] },
+  { ...PORT_TYPES.EMAIL, parents: ['object'] }
+];
+
+/**
+ * Create a registry holding the built-in types and coercions
+ */
+export function createPortTypeRegistry(): PortTypeRegistry {
+  return new PortTypeRegistry(BUILT_IN_PORT_TYPES)
+    .registerCoercion('number', 'string', value => String(value))
+    .registerCoercion('file', 'string', file => {
+      // Files are represented by their path, as uploaded files expose it
+      if (typeof file === 'string') return file;
+      if (typeof file?.path === 'string') return file.path;
+      throw new Error('File has no path');
+    });
+}
+
+/**
+ * Registry used by validation and execution unless another one is passed
+ * Register project-wide port types here.
+ */
+export const defaultPortTypes: PortTypeRegistry = createPortTypeRegistry();
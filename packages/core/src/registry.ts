@@ -0,0 +1,293 @@
+/**
+ * @capsulas/core - Capsule registry
+ *
+ * Looks capsules up by id and version range, lists them by category, loads
+ * third-party capsule packages from a project's node_modules and turns flow
+ * documents back into runnable flows.
+ */
+
+import { promises as fs } from 'fs';
+import { createRequire } from 'module';
+import { join } from 'path';
+import { Capsule, CapsuleCategory, Flow, PORT_TYPES } from './types';
+import { FlowDocument, formatCapsuleRef, parseCapsuleRef } from './flow-format';
+import { compareVersions, parseVersion, satisfies } from './semver';
+import { IF_CAPSULE, MERGE_CAPSULE } from './control';
+import { CODE_CAPSULE } from './sandbox';
+import { CRON_TRIGGER_CAPSULE, QUEUE_TRIGGER_CAPSULE, WEBHOOK_TRIGGER_CAPSULE } from './triggers';
+
+/**
+ * Package names loaded as capsule plugins:
+ * `capsulas-capsule-<name>` or `@<scope>/capsulas-capsule-<name>`
+ */
+export const CAPSULE_PLUGIN_PATTERN = /^(@[a-z0-9][a-z0-9._~-]*\/)?capsulas-capsule-[a-z0-9._~-]+$/;
+
+/**
+ * Capsules shipped with the core that need no per-flow setup
+ * Switch and map capsules are built per flow with createSwitchCapsule and createMapCapsule.
+ */
+export const BUILT_IN_CAPSULES: readonly Capsule[] = [
+  IF_CAPSULE,
+  MERGE_CAPSULE,
+  CODE_CAPSULE,
+  CRON_TRIGGER_CAPSULE,
+  WEBHOOK_TRIGGER_CAPSULE,
+  QUEUE_TRIGGER_CAPSULE
+];
+
+/**
+ * Version assumed for capsules registered without one
+ */
+const DEFAULT_VERSION = '0.0.0';
+
+/**
+ * Capsule package loaded from node_modules
+ */
+export interface LoadedCapsulePlugin {
+  packageName: string;
+  /** References of the capsules the package registered */
+  capsules: string[];
+}
+
+/**
+ * Read the capsules exported by a plugin module
+ * Accepts a capsule, an array of capsules or `{ capsules }`, directly or as default export.
+ */
+function extractCapsules(moduleExports: any): Capsule[] {
+  const value = moduleExports?.default ?? moduleExports;
+
+  if (Array.isArray(value)) return value;
+  if (Array.isArray(value?.capsules)) return value.capsules;
+  if (value && typeof value.id === 'string' && Array.isArray(value.inputs)) return [value];
+
+  return [];
+}
+
+/**
+ * Registry of capsules keyed by id and version
+ */
+export class CapsuleRegistry {
+  private capsules: Map<string, Map<string, Capsule>> = new Map();
+
+  constructor(capsules: Capsule[] = []) {
+    capsules.forEach(capsule => this.register(capsule));
+  }
+
+  /**
+   * Add a capsule
+   * @throws Error if the version is invalid or the id and version are already registered
+   */
+  register(capsule: Capsule): this {
+    if (!capsule.id) {
+      throw new Error('Cannot register a capsule without an id');
+    }
+
+    const version = capsule.version ?? DEFAULT_VERSION;
+    if (!parseVersion(version)) {
+      throw new Error(`Capsule ${capsule.id} has an invalid version: ${version}`);
+    }
+
+    const versions = this.capsules.get(capsule.id) ?? new Map<string, Capsule>();
+    if (versions.has(version)) {
+      throw new Error(`Capsule ${formatCapsuleRef(capsule.id, version)} is already registered`);
+    }
+
+    versions.set(version, capsule);
+    this.capsules.set(capsule.id, versions);
+    return this;
+  }
+
+  /**
+   * Remove one version of a capsule, or all versions when none is given
+   * @returns Whether anything was removed
+   */
+  unregister(id: string, version?: string): boolean {
+    const versions = this.capsules.get(id);
+    if (!versions) return false;
+
+    if (version === undefined) {
+      return this.capsules.delete(id);
+    }
+
+    const removed = versions.delete(version);
+    if (versions.size === 0) this.capsules.delete(id);
+    return removed;
+  }
+
+  /**
+   * Registered versions of a capsule, oldest first
+   */
+  versions(id: string): string[] {
+    return Array.from(this.capsules.get(id)?.keys() ?? []).sort(compareVersions);
+  }
+
+  /**
+   * Find the highest registered version matching a range
+   *
+   * @param ref - Capsule id, or "id@range" when `range` is omitted
+   * @param range - Semver range, defaults to any version
+   * @example
+   * registry.resolve('http', '^1.0.0')
+   * registry.resolve('http@^1.0.0')
+   */
+  resolve(ref: string, range?: string): Capsule | undefined {
+    const parsed = range === undefined ? parseCapsuleRef(ref) : { id: ref, version: range };
+    const versions = this.capsules.get(parsed.id);
+    if (!versions) return undefined;
+
+    const match = this.versions(parsed.id)
+      .reverse()
+      .find(version => satisfies(version, parsed.version || '*'));
+
+    return match ? versions.get(match) : undefined;
+  }
+
+  /**
+   * Like resolve, but throws when no capsule matches
+   */
+  get(ref: string, range?: string): Capsule {
+    const capsule = this.resolve(ref, range);
+    if (capsule) return capsule;
+
+    const id = range === undefined ? parseCapsuleRef(ref).id : ref;
+    const available = this.versions(id);
+    const label = range === undefined ? ref : formatCapsuleRef(ref, range);
+
+    throw new Error(
+      available.length > 0
+        ? `No version of capsule ${id} matches ${label} (available: ${available.join(', ')})`
+        : `Capsule not found: ${label}`
+    );
+  }
+
+  /**
+   * Whether a capsule matching the reference is registered
+   */
+  has(ref: string, range?: string): boolean {
+    return this.resolve(ref, range) !== undefined;
+  }
+
+  /**
+   * Latest version of every capsule, sorted by id
+   *
+   * Capsules with only prerelease versions are listed with the highest one.
+   *
+   * @param category - Only list capsules of this category
+   */
+  list(category?: CapsuleCategory): Capsule[] {
+    return Array.from(this.capsules.keys())
+      .sort()
+      .map(id => this.resolve(id) ?? this.capsules.get(id)!.get(this.versions(id).pop()!)!)
+      .filter(capsule => !category || capsule.category === category);
+  }
+
+  /**
+   * Categories that have at least one registered capsule
+   */
+  categories(): CapsuleCategory[] {
+    return Array.from(new Set(this.list().map(capsule => capsule.category))).sort();
+  }
+
+  /**
+   * Register capsules from the plugin packages installed in a project
+   *
+   * Scans `<projectDir>/node_modules` for packages matching
+   * CAPSULE_PLUGIN_PATTERN and registers what they export.
+   *
+   * @param projectDir - Directory containing node_modules
+   * @returns The loaded packages, sorted by name
+   * @throws Error naming the package when one fails to load
+   */
+  async loadPlugins(projectDir: string): Promise<LoadedCapsulePlugin[]> {
+    const nodeModules = join(projectDir, 'node_modules');
+    const packageNames: string[] = [];
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(nodeModules);
+    } catch {
+      return [];
+    }
+
+    for (const entry of entries) {
+      if (entry.startsWith('@')) {
+        const scoped = await fs.readdir(join(nodeModules, entry)).catch(() => [] as string[]);
+        packageNames.push(...scoped.map(name => `${entry}/${name}`));
+      } else {
+        packageNames.push(entry);
+      }
+    }
+
+    const projectRequire = createRequire(join(projectDir, 'package.json'));
+    const loaded: LoadedCapsulePlugin[] = [];
+
+    for (const packageName of packageNames.filter(name => CAPSULE_PLUGIN_PATTERN.test(name)).sort()) {
+      try {
+        const capsules = extractCapsules(projectRequire(packageName));
+        capsules.forEach(capsule => this.register(capsule));
+        loaded.push({
+          packageName,
+          capsules: capsules.map(capsule => formatCapsuleRef(capsule.id, capsule.version))
+        });
+      } catch (error) {
+        throw new Error(
+          `Failed to load capsule plugin ${packageName}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Build a runnable flow from a flow document
+   *
+   * Each node's capsule reference is resolved against the registry.
+   * Connection colors follow the type of the source port.
+   *
+   * @throws Error if a referenced capsule is not registered
+   */
+  hydrateFlow(document: FlowDocument): Flow {
+    const nodes = document.nodes.map(node => {
+      let capsule: Capsule;
+      try {
+        capsule = this.get(node.capsule);
+      } catch (error) {
+        throw new Error(`Node ${node.id}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      return {
+        id: node.id,
+        capsule,
+        position: node.position ?? { x: 0, y: 0 },
+        config: node.config,
+        policy: node.policy
+      };
+    });
+
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+    return {
+      id: document.id,
+      name: document.name,
+      version: document.version,
+      description: document.description,
+      metadata: document.metadata,
+      nodes,
+      connections: document.connections.map(conn => ({
+        ...conn,
+        color:
+          conn.color ??
+          nodesById.get(conn.fromNode)?.capsule.outputs.find(port => port.id === conn.fromPort)?.type.color ??
+          PORT_TYPES.ANY.color
+      }))
+    };
+  }
+}
+
+/**
+ * Registry holding the built-in capsules
+ */
+export function createDefaultRegistry(): CapsuleRegistry {
+  return new CapsuleRegistry([...BUILT_IN_CAPSULES]);
+}
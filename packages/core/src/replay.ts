@@ -0,0 +1,390 @@
+/**
+ * @capsulas/core - Record and replay
+ *
+ * Recording an execution captures what makes it nondeterministic: the
+ * outputs of nodes talking to external systems and the `Date.now()` and
+ * `Math.random()` values read by capsules (timestamps, generated ids such as
+ * `generateJobId`). Replaying re-executes the flow offline: those nodes
+ * return their recorded outputs, the other nodes run again with the recorded
+ * clock and random values, and the first place the run differs is reported.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { executeFlow, hydrateFlow } from './executor';
+import { stableStringify } from './cache';
+import { FlowDocument } from './flow-format';
+import { capHistoryValue } from './history';
+import { isAsyncIterable } from './streams';
+import { generateExecutionId } from './utils';
+import type { Capsule, ExecutionContext, ExecutionResult, Flow, Node, NodeExecutionStatus } from './types';
+import type { TriggerInvocation } from './triggers';
+
+/**
+ * What one node did in a recorded execution
+ */
+export interface NodeRecording {
+  status: NodeExecutionStatus;
+  /** Redacted inputs, absent when the node did not start */
+  inputs?: Record<string, any>;
+  /** Redacted outputs of a completed node; streams become `{ $stream: {} }` */
+  outputs?: Record<string, any>;
+  error?: string;
+  /** `Date.now()` values read by the capsule, in order */
+  clock: number[];
+  /** `Math.random()` values read by the capsule, in order */
+  random: number[];
+}
+
+/**
+ * Replay file contents
+ */
+export interface ExecutionRecording {
+  version: 1;
+  executionId: string;
+  flowId: string;
+  flowVersion?: string;
+  recordedAt: number;
+  variables: Record<string, any>;
+  trigger?: TriggerInvocation;
+  nodes: Record<string, NodeRecording>;
+}
+
+/**
+ * Where a replay first differed from its recording
+ */
+export interface ReplayDivergence {
+  nodeId: string;
+  kind: 'unexpected-node' | 'inputs' | 'outputs' | 'status' | 'clock' | 'random';
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+export interface ReplayOptions {
+  /** Nodes executed again rather than returning their recorded outputs; defaults to isReplayable */
+  rerun?: (node: Node) => boolean;
+}
+
+export interface ReplayResult {
+  result: ExecutionResult;
+  /** Absent when the replay matched the recording */
+  divergence?: ReplayDivergence;
+}
+
+const RECORDING_VERSION = 1;
+
+// Date.now and Math.random are process-wide: one recording or replay at a time
+let intercepting = false;
+
+// Node whose capsule is running in the current async context. Code outside
+// it, e.g. other executions or timers, reads the real clock and random values.
+const currentNode = new AsyncLocalStorage<string>();
+
+/**
+ * Route the Date.now and Math.random calls of running capsules through
+ * handlers until the returned function is called
+ */
+function interceptNondeterminism(handlers: {
+  now: (nodeId: string, real: () => number) => number;
+  random: (nodeId: string, real: () => number) => number;
+}): () => void {
+  if (intercepting) {
+    throw new Error('Another execution is already being recorded or replayed');
+  }
+
+  intercepting = true;
+  const now = Date.now;
+  const random = Math.random;
+  Date.now = () => {
+    const nodeId = currentNode.getStore();
+    return nodeId === undefined ? now() : handlers.now(nodeId, now);
+  };
+  Math.random = () => {
+    const nodeId = currentNode.getStore();
+    return nodeId === undefined ? random() : handlers.random(nodeId, random);
+  };
+
+  return () => {
+    Date.now = now;
+    Math.random = random;
+    intercepting = false;
+  };
+}
+
+/**
+ * Whether a node can run again during a replay
+ * Processing capsules only transform their inputs; other capsules, and
+ * capsules with side effects, triggers or nested flows (subflows and maps),
+ * reach outside the flow. Capsules marked `replayable: false` never run again.
+ */
+export function isReplayable(node: Node): boolean {
+  const { capsule } = node;
+  return (
+    capsule.category === 'processing' &&
+    !capsule.sideEffects &&
+    !capsule.trigger &&
+    !capsule.nested &&
+    capsule.replayable !== false
+  );
+}
+
+/**
+ * Execute a flow, recording what it needs to be replayed
+ *
+ * Nodes run one at a time so clock and random values are read in a stable order.
+ */
+export async function recordExecution(
+  flowOrDocument: Flow | FlowDocument,
+  context: ExecutionContext
+): Promise<{ result: ExecutionResult; recording: ExecutionRecording }> {
+  const flow = hydrateFlow(flowOrDocument, context);
+  const executionId = context.executionId || generateExecutionId();
+  const recordedAt = Date.now();
+  const nodes: Record<string, NodeRecording> = {};
+  const tape = (nodeId: string) => (nodes[nodeId] ??= { status: 'skipped', clock: [], random: [] });
+
+  const restore = interceptNondeterminism({
+    now: (nodeId, real) => {
+      const value = real();
+      tape(nodeId).clock.push(value);
+      return value;
+    },
+    random: (nodeId, real) => {
+      const value = real();
+      tape(nodeId).random.push(value);
+      return value;
+    }
+  });
+
+  try {
+    const result = await executeFlow(
+      withCapsules(flow, node => scope(node, node.capsule.execute)),
+      {
+        ...context,
+        executionId,
+        maxConcurrency: 1,
+        interceptor: {
+          beforeNode: node => {
+            if (node.executionId === executionId) tape(node.nodeId).inputs = toJson(node.inputs);
+          }
+        }
+      }
+    );
+
+    const recorded: Record<string, NodeRecording> = {};
+    for (const [nodeId, execution] of Object.entries(result.nodeExecutions)) {
+      recorded[nodeId] = {
+        ...tape(nodeId),
+        status: execution.status,
+        ...(execution.status === 'completed' && { outputs: toJson(result.nodeResults[nodeId]) }),
+        ...(execution.error !== undefined && { error: execution.error })
+      };
+    }
+
+    return {
+      result,
+      recording: {
+        version: RECORDING_VERSION,
+        executionId,
+        flowId: flow.id,
+        ...(flow.version !== undefined && { flowVersion: flow.version }),
+        recordedAt,
+        variables: toJson(context.variables),
+        ...(context.trigger && { trigger: toJson(context.trigger) }),
+        nodes: recorded
+      }
+    };
+  } finally {
+    restore();
+  }
+}
+
+/**
+ * Re-execute a recorded execution offline
+ *
+ * Nodes that are not replayable return their recorded outputs or errors
+ * instead of running. The others run again, reading the recorded clock and
+ * random values, and their inputs and outputs are compared with the
+ * recording. Runs with the recorded variables and trigger, without output cache.
+ *
+ * @throws Error if the recording belongs to another flow
+ */
+export async function replayExecution(
+  flowOrDocument: Flow | FlowDocument,
+  recording: ExecutionRecording,
+  context: ExecutionContext,
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const flow = hydrateFlow(flowOrDocument, context);
+  if (recording.flowId !== flow.id) {
+    throw new Error(`Recording ${recording.executionId} belongs to flow ${recording.flowId}, not ${flow.id}`);
+  }
+
+  const rerun = options.rerun ?? isReplayable;
+  const executionId = context.executionId || generateExecutionId();
+  const divergences: ReplayDivergence[] = [];
+  const diverged = new Set<string>();
+  const diverge = (divergence: ReplayDivergence) => {
+    // One report per node and kind: later ones follow from the first
+    const key = `${divergence.nodeId}:${divergence.kind}`;
+    if (diverged.has(key)) return;
+    diverged.add(key);
+    divergences.push(divergence);
+  };
+
+  const positions = new Map<string, number>();
+  const playback = (current: string, kind: 'clock' | 'random', real: () => number): number => {
+    const values = recording.nodes[current]?.[kind] ?? [];
+    const key = `${current}:${kind}`;
+    const index = positions.get(key) ?? 0;
+    positions.set(key, index + 1);
+    if (index < values.length) return values[index];
+
+    const read = kind === 'clock' ? 'the clock' : 'a random number';
+    diverge({ nodeId: current, kind, message: `Node ${current} read ${read} more often than when recorded` });
+    return real();
+  };
+
+  const replayNode = (node: Node): Capsule => {
+    const recorded = recording.nodes[node.id];
+
+    if (!rerun(node)) {
+      return {
+        ...node.capsule,
+        execute: async () => {
+          if (!recorded || recorded.status === 'skipped') {
+            throw new Error(`Node ${node.id} has no recorded outputs`);
+          }
+          if (recorded.status !== 'completed') {
+            throw new Error(recorded.error ?? `Node ${node.id} was ${recorded.status} when recorded`);
+          }
+          return recorded.outputs ?? {};
+        }
+      };
+    }
+
+    const execute = node.capsule.execute;
+    return scope(node, execute && (async (inputs, config, capsuleContext) => {
+      try {
+        return await execute(inputs, config, capsuleContext);
+      } catch (error) {
+        if (recorded?.status === 'completed') {
+          const message = error instanceof Error ? error.message : String(error);
+          diverge({ nodeId: node.id, kind: 'status', message: `Node ${node.id} failed: ${message}, but completed when recorded` });
+        }
+        throw error;
+      }
+    }));
+  };
+
+  const restore = interceptNondeterminism({
+    now: (nodeId, real) => playback(nodeId, 'clock', real),
+    random: (nodeId, real) => playback(nodeId, 'random', real)
+  });
+
+  try {
+    const result = await executeFlow(withCapsules(flow, replayNode), {
+      ...context,
+      executionId,
+      maxConcurrency: 1,
+      variables: recording.variables,
+      trigger: recording.trigger,
+      cache: undefined,
+      interceptor: {
+        beforeNode: node => {
+          if (node.executionId !== executionId) return;
+          const recorded = recording.nodes[node.nodeId];
+
+          if (!recorded?.inputs) {
+            diverge({ nodeId: node.nodeId, kind: 'unexpected-node', message: `Node ${node.nodeId} ran, but did not when recorded` });
+          } else if (!isSameValue(recorded.inputs, node.inputs)) {
+            diverge({
+              nodeId: node.nodeId,
+              kind: 'inputs',
+              message: `Node ${node.nodeId} received different inputs`,
+              expected: recorded.inputs,
+              actual: toJson(node.inputs)
+            });
+          }
+        },
+        afterNode: node => {
+          const recorded = recording.nodes[node.nodeId];
+          if (node.executionId !== executionId || !recorded?.inputs || !rerun(flow.nodes.find(n => n.id === node.nodeId)!)) return;
+
+          if (recorded.status !== 'completed') {
+            diverge({ nodeId: node.nodeId, kind: 'status', message: `Node ${node.nodeId} completed, but was ${recorded.status} when recorded` });
+          } else if (!Object.values(node.outputs ?? {}).some(isAsyncIterable) && !isSameValue(recorded.outputs, node.outputs)) {
+            diverge({
+              nodeId: node.nodeId,
+              kind: 'outputs',
+              message: `Node ${node.nodeId} produced different outputs`,
+              expected: recorded.outputs,
+              actual: toJson(node.outputs)
+            });
+          }
+        }
+      }
+    });
+
+    // Nodes the recording ran but the replay never reached
+    for (const [nodeId, execution] of Object.entries(result.nodeExecutions)) {
+      const recorded = recording.nodes[nodeId];
+      if (execution.status === 'skipped' && recorded && recorded.status !== 'skipped') {
+        diverge({ nodeId, kind: 'status', message: `Node ${nodeId} was skipped, but was ${recorded.status} when recorded` });
+      }
+    }
+
+    return { result, ...(divergences.length > 0 && { divergence: divergences[0] }) };
+  } finally {
+    restore();
+  }
+}
+
+/**
+ * Write a recording to a replay file
+ */
+export async function saveRecording(file: string, recording: ExecutionRecording): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(recording, null, 2), 'utf-8');
+}
+
+/**
+ * Read a replay file
+ * @throws Error if the file was written by an unsupported version
+ */
+export async function loadRecording(file: string): Promise<ExecutionRecording> {
+  const recording = JSON.parse(await fs.readFile(file, 'utf-8'));
+  if (recording?.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${recording?.version} in ${file}`);
+  }
+  return recording;
+}
+
+function withCapsules(flow: Flow, capsule: (node: Node) => Capsule): Flow {
+  return { ...flow, nodes: flow.nodes.map(node => ({ ...node, capsule: capsule(node) })) };
+}
+
+/**
+ * Capsule running `execute` as the current node
+ */
+function scope(node: Node, execute: Capsule['execute']): Capsule {
+  if (!execute) return node.capsule;
+
+  return {
+    ...node.capsule,
+    execute: (inputs, config, context) => currentNode.run(node.id, () => execute(inputs, config, context))
+  };
+}
+
+/**
+ * Plain JSON copy of a value, serialized as in the execution history
+ */
+function toJson<T>(value: T): T {
+  return capHistoryValue(value, Infinity) as T;
+}
+
+function isSameValue(expected: unknown, actual: unknown): boolean {
+  return stableStringify(toJson(expected) ?? null) === stableStringify(toJson(actual) ?? null);
+}
@@ -0,0 +1,461 @@
+/**
+ * @capsulas/core - Sandboxed code
+ *
+ * Runs user-supplied JavaScript in a worker thread, inside a vm context with
+ * no access to Node.js modules, the filesystem or the network unless they are
+ * granted. Arguments enter the context as JSON, results leave it by structured
+ * clone, and the worker is terminated when the code runs past its time or
+ * memory limit.
+ */
+
+import { Worker } from 'worker_threads';
+import { Capsule, PORT_TYPES, defineCapsule } from './types';
+
+/**
+ * Access granted to sandboxed code
+ */
+export interface SandboxPermissions {
+  /** Directories the code may read and write through `fs` */
+  fs?: string[];
+  /** Hosts the code may reach through `fetch`; `'*'` allows any host */
+  network?: string[];
+}
+
+/**
+ * Options for runSandboxed
+ */
+export interface SandboxOptions {
+  /** Time the code may run in ms; the worker is terminated past it */
+  timeout?: number;
+  /** Heap size available to the code in MB */
+  memoryLimit?: number;
+  permissions?: SandboxPermissions;
+  /** Turns the code into JavaScript, e.g. to run TypeScript */
+  transpile?: (source: string) => string;
+  /** Terminates the worker when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Why sandboxed code failed
+ * - timeout / memory: a limit was reached
+ * - permission: the code used the filesystem or network without a grant
+ * - error: the code threw or could not be compiled
+ */
+export type SandboxErrorKind = 'timeout' | 'memory' | 'permission' | 'error';
+
+export class SandboxError extends Error {
+  constructor(message: string, readonly kind: SandboxErrorKind) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+/**
+ * Line written with `console` by sandboxed code
+ */
+export interface SandboxLog {
+  level: 'debug' | 'info' | 'warn' | 'error';
+  message: string;
+}
+
+export interface SandboxResult {
+  /** Value returned by the code */
+  value: any;
+  logs: SandboxLog[];
+}
+
+const DEFAULT_TIMEOUT = 1000;
+const DEFAULT_MEMORY_LIMIT = 64;
+
+/**
+ * Evaluated inside the vm context before any user code, so everything it
+ * creates belongs to the context's realm and the intrinsics it captures
+ * cannot be replaced by the code. Only primitives cross to the worker:
+ * any host object reachable from the code would lead back to its Function.
+ */
+const CONTEXT_PRELUDE = `(function () {
+  'use strict';
+  const apply = Reflect.apply;
+  const then = Promise.prototype.then;
+  const join = Array.prototype.join;
+  const { parse, stringify } = JSON;
+  const PromiseConstructor = Promise;
+  const ErrorConstructor = Error;
+  const StringConstructor = String;
+
+  const describe = error =>
+    error !== null && typeof error === 'object' && typeof error.message === 'string'
+      ? error.message
+      : StringConstructor(error);
+
+  const format = args => {
+    const parts = [];
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (typeof arg === 'string') { parts[i] = arg; continue; }
+      try { parts[i] = stringify(arg) ?? StringConstructor(arg); } catch { parts[i] = StringConstructor(arg); }
+    }
+    return apply(join, parts, [' ']);
+  };
+
+  return function run(fn, values, fsGranted, networkGranted, bridge, done, fail) {
+    const logs = [];
+    const log = level => (...args) => { logs[logs.length] = { level, message: format(args) }; };
+    globalThis.console = { log: log('info'), info: log('info'), debug: log('debug'), warn: log('warn'), error: log('error') };
+
+    const call = (operation, first = '', second = '') => {
+      const a = StringConstructor(first);
+      const b = StringConstructor(second);
+      return new PromiseConstructor((resolve, reject) =>
+        bridge(operation, a, b, resolve, message => reject(new ErrorConstructor(message))));
+    };
+
+    if (fsGranted) {
+      globalThis.fs = {
+        readFile: path => call('readFile', path),
+        writeFile: (path, data) => apply(then, call('writeFile', path, data), [() => undefined]),
+        readdir: path => apply(then, call('readdir', path), [parse])
+      };
+    }
+    if (networkGranted) {
+      globalThis.fetch = (url, init = {}) => {
+        const request = stringify({ method: init.method, headers: init.headers, body: init.body });
+        return apply(then, call('fetch', url, request), [text => {
+          const response = parse(text);
+          return {
+            status: response.status,
+            ok: response.ok,
+            headers: response.headers,
+            text: async () => response.body,
+            json: async () => parse(response.body)
+          };
+        }]);
+      };
+    }
+
+    try {
+      apply(then, apply(fn, undefined, parse(values)), [value => done(value, logs), error => fail(describe(error), logs)]);
+    } catch (error) {
+      fail(describe(error), logs);
+    }
+  };
+})()`;
+
+/**
+ * Worker entry point, evaluated as a script
+ */
+const WORKER_SOURCE = `'use strict';
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const fs = require('fs/promises');
+const path = require('path');
+const hostFetch = globalThis.fetch;
+
+const { prelude, names, body, values, permissions } = workerData;
+const AsyncFunction = (async function () {}).constructor;
+const denied = new Set();
+
+// The code never needs module loading or native bindings
+for (const name of ['require', 'module', 'exports', '__filename', '__dirname', 'fetch', 'WebSocket', 'EventSource']) {
+  try { delete globalThis[name]; } catch {}
+}
+for (const name of ['binding', '_linkedBinding', 'dlopen', 'getBuiltinModule']) {
+  try { delete process[name]; } catch {}
+}
+
+function deny(message) {
+  denied.add(message);
+  throw new Error(message);
+}
+
+async function realPath(target) {
+  try {
+    return await fs.realpath(target);
+  } catch {
+    // Files about to be written do not exist yet
+    return path.join(await fs.realpath(path.dirname(target)).catch(() => path.dirname(target)), path.basename(target));
+  }
+}
+
+async function checkPath(target) {
+  const resolved = await realPath(path.resolve(target));
+  const roots = await Promise.all((permissions.fs || []).map(root => realPath(path.resolve(root))));
+  if (!roots.some(root => resolved === root || resolved.startsWith(root + path.sep))) {
+    deny('Access to ' + resolved + ' is not allowed');
+  }
+  return resolved;
+}
+
+function checkUrl(url) {
+  let host;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    throw new Error('Invalid URL: ' + url);
+  }
+  const hosts = permissions.network || [];
+  if (!hosts.includes('*') && !hosts.includes(host)) {
+    deny('Network access to ' + host + ' is not allowed');
+  }
+}
+
+const operations = {
+  readFile: async file => fs.readFile(await checkPath(file), 'utf8'),
+  writeFile: async (file, data) => {
+    await fs.writeFile(await checkPath(file), data);
+    return '';
+  },
+  readdir: async dir => JSON.stringify(await fs.readdir(await checkPath(dir))),
+  fetch: async (url, request) => {
+    checkUrl(url);
+    const { method, headers, body } = JSON.parse(request);
+    // Redirects could lead to a host that was not granted
+    const response = await hostFetch(url, { method, headers, body, redirect: 'manual' });
+    return JSON.stringify({
+      status: response.status,
+      ok: response.ok,
+      headers: Object.fromEntries(response.headers),
+      body: await response.text()
+    });
+  }
+};
+
+// Only strings cross the bridge, and functions called from the context never
+// throw, so no host object, errors included, reaches the code
+function bridge(operation, first, second, resolve, reject) {
+  Promise.resolve()
+    .then(() => {
+      const name = String(operation);
+      if (!Object.prototype.hasOwnProperty.call(operations, name)) throw new Error('Unknown operation ' + name);
+      return operations[name](String(first), String(second));
+    })
+    .then(result => resolve(String(result)), error => reject(String(error && error.message || error)))
+    .catch(() => {});
+}
+
+function done(value, logs) {
+  let reason;
+  try {
+    parentPort.postMessage({ ok: true, value, logs });
+    return;
+  } catch (error) {
+    try { reason = String(error.message); } catch { reason = 'unknown error'; }
+  }
+  fail('Code returned a value that cannot be passed on: ' + reason, logs);
+}
+
+function fail(message, logs) {
+  const text = typeof message === 'string' ? message : 'Code failed';
+  const kind = denied.has(text) ? 'permission' : 'error';
+  try {
+    parentPort.postMessage({ ok: false, kind, message: text, logs });
+  } catch {
+    parentPort.postMessage({ ok: false, kind, message: text, logs: [] });
+  }
+}
+
+let fn;
+const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+const run = vm.runInContext(prelude, context);
+try {
+  // Parsed on its own first, as the Function constructor does, so the body
+  // cannot close the function and run code outside it. Never called.
+  new AsyncFunction(...names, body);
+  fn = new vm.Script('(async function (' + names.join(', ') + ') {\\n' + body + '\\n})', { filename: 'code.js', lineOffset: -1 })
+    .runInContext(context);
+} catch (error) {
+  fail('Syntax error in code: ' + error.message, []);
+}
+if (fn) {
+  const fsGranted = Boolean(permissions.fs && permissions.fs.length);
+  const networkGranted = Boolean(permissions.network && permissions.network.length);
+  run(fn, values, fsGranted, networkGranted, bridge, done, fail);
+}
+`;
+
+/**
+ * Run a snippet of JavaScript in a sandbox
+ *
+ * The snippet is the body of an async function receiving `args` as named
+ * parameters; its return value is the result.
+ *
+ * @param code - Function body, e.g. `return input.items.length;`
+ * @param args - Parameters available to the code, passed as JSON
+ * @param options - Limits and permissions
+ * @throws SandboxError when the code fails or reaches a limit
+ */
+export function runSandboxed(
+  code: string,
+  args: Record<string, any> = {},
+  options: SandboxOptions = {}
+): Promise<SandboxResult> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const memoryLimit = options.memoryLimit ?? DEFAULT_MEMORY_LIMIT;
+  const { signal } = options;
+
+  const names = Object.keys(args);
+  const invalid = names.find(name => !/^[A-Za-z_$][\w$]*$/.test(name));
+  if (invalid) {
+    return Promise.reject(new Error(`Invalid sandbox parameter name: ${invalid}`));
+  }
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  let body: string;
+  let values: string;
+  try {
+    body = options.transpile ? options.transpile(code) : code;
+  } catch (error) {
+    return Promise.reject(new SandboxError(`Cannot transpile code: ${(error as Error).message}`, 'error'));
+  }
+  try {
+    values = JSON.stringify(names.map(name => args[name] ?? null));
+  } catch (error) {
+    return Promise.reject(new SandboxError(`Cannot pass arguments to code: ${(error as Error).message}`, 'error'));
+  }
+
+  return new Promise<SandboxResult>((resolve, reject) => {
+    let worker: Worker;
+    try {
+      worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        env: {},
+        execArgv: [],
+        stdout: true,
+        stderr: true,
+        resourceLimits: { maxOldGenerationSizeMb: memoryLimit, maxYoungGenerationSizeMb: Math.min(16, memoryLimit) },
+        workerData: {
+          prelude: CONTEXT_PRELUDE,
+          names,
+          body,
+          values,
+          permissions: options.permissions ?? {}
+        }
+      });
+    } catch (error) {
+      reject(new SandboxError(`Cannot start code worker: ${(error as Error).message}`, 'error'));
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let settled = false;
+
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      void worker.terminate();
+      finish();
+    };
+    const onAbort = () => settle(() => reject(signal!.reason));
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Worker startup does not count against the code's time
+    worker.once('online', () => {
+      timer = setTimeout(
+        () => settle(() => reject(new SandboxError(`Code exceeded its time limit of ${timeout}ms`, 'timeout'))),
+        timeout
+      );
+    });
+
+    worker.on('message', message => settle(() => {
+      if (message.ok) {
+        resolve({ value: message.value, logs: message.logs });
+      } else {
+        reject(new SandboxError(message.message, message.kind));
+      }
+    }));
+
+    worker.on('error', (error: NodeJS.ErrnoException) => settle(() => reject(
+      error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? new SandboxError(`Code exceeded its memory limit of ${memoryLimit}MB`, 'memory')
+        : new SandboxError(error.message, 'error')
+    )));
+
+    worker.on('exit', exitCode => settle(() => reject(
+      new SandboxError(`Code worker exited with code ${exitCode} before returning`, 'error')
+    )));
+  });
+}
+
+/**
+ * Options for a code capsule, set by whoever deploys it rather than the flow author
+ */
+export interface CodeCapsuleOptions {
+  /** Default and maximum of the node's `timeout`, in ms */
+  timeout?: number;
+  /** Default and maximum of the node's `memoryLimit`, in MB */
+  memoryLimit?: number;
+  /** Filesystem and network access granted to every node using the capsule */
+  permissions?: SandboxPermissions;
+  /** Turns TypeScript into JavaScript; required for `language: "typescript"` */
+  transpile?: (source: string) => string;
+}
+
+/**
+ * Create a capsule running a snippet written in the node config
+ *
+ * The snippet receives the `in` port value as `input` and its return value
+ * is emitted on `out`. Lines written with `console` go to the execution
+ * logger. A capsule granted any permission is marked as having side effects.
+ */
+export function createCodeCapsule(options: CodeCapsuleOptions = {}): Capsule {
+  const maxTimeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const maxMemory = options.memoryLimit ?? DEFAULT_MEMORY_LIMIT;
+  const permissions = options.permissions ?? {};
+
+  return defineCapsule({
+    id: 'core.code',
+    name: 'Code',
+    version: '1.0.0',
+    description: 'Run a JavaScript snippet in a sandbox',
+    icon: '⌨',
+    category: 'processing',
+    sideEffects: Boolean(permissions.fs?.length || permissions.network?.length),
+    // Date.now and Math.random inside the worker are not recorded
+    replayable: false,
+    inputs: [{ id: 'in', name: 'Input', type: PORT_TYPES.ANY, description: 'Available to the code as `input`' }],
+    outputs: [{ id: 'out', name: 'Output', type: PORT_TYPES.ANY, description: 'Value returned by the code' }],
+    configSchema: {
+      code: { type: 'string', required: true, description: 'Body of an async function', placeholder: 'return input.items.length;' },
+      language: { type: 'string', default: 'javascript', enum: ['javascript', 'typescript'] },
+      timeout: { type: 'number', default: maxTimeout, description: `Time limit in ms, at most ${maxTimeout}` },
+      memoryLimit: { type: 'number', default: maxMemory, description: `Heap limit in MB, at most ${maxMemory}` }
+    },
+    execute: async (inputs, config = {}, context) => {
+      if (typeof config.code !== 'string') {
+        throw new Error('Code node needs config.code');
+      }
+      if (config.language === 'typescript' && !options.transpile) {
+        throw new Error('TypeScript code needs a code capsule created with a transpile function');
+      }
+
+      const { value, logs } = await runSandboxed(config.code, { input: inputs.in ?? null }, {
+        timeout: Math.min(config.timeout ?? maxTimeout, maxTimeout),
+        memoryLimit: Math.min(config.memoryLimit ?? maxMemory, maxMemory),
+        permissions,
+        transpile: config.language === 'typescript' ? options.transpile : undefined,
+        signal: context?.signal
+      });
+
+      const logger = context?.execution.logger;
+      for (const { level, message } of logs) {
+        const line = `Node ${context!.nodeId}: ${message}`;
+        if (level === 'error') logger?.error(line);
+        else if (level === 'warn') logger?.warn(line);
+        else logger?.info(line);
+      }
+
+      return { out: value ?? null };
+    }
+  });
+}
+
+/**
+ * Code capsule with default limits and no filesystem or network access
+ */
+export const CODE_CAPSULE: Capsule = createCodeCapsule();
@@ -0,0 +1,263 @@
+/**
+ * @capsulas/core - JSON Schema validation
+ *
+ * A small validator for the JSON Schema subset used by Capsulas: types,
+ * properties, required, items, enums, constants, patterns, bounds and
+ * anyOf/oneOf. It has no dependencies so it can run in the executor.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * JSON Schema subset understood by validateSchema
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | readonly JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: readonly any[];
+  const?: any;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: readonly JsonSchema[];
+  oneOf?: readonly JsonSchema[];
+  default?: any;
+}
+
+/**
+ * A value not matching its schema
+ */
+export interface SchemaViolation {
+  /** JSON path of the offending value, e.g. "$.nodes[0].id" */
+  path: string;
+  message: string;
+}
+
+/**
+ * JSON type of a runtime value
+ */
+export function getJsonType(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = getJsonType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value against a schema
+ *
+ * @param value - Value to validate
+ * @param schema - Schema to validate against
+ * @param path - JSON path of the value, used in violations
+ * @returns Violations; empty when the value is valid
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const fail = (message: string) => violations.push({ path, message });
+
+  if (schema.type) {
+    const types = typeof schema.type === 'string' ? [schema.type] : schema.type;
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`Expected ${types.join(' or ')}, got ${getJsonType(value)}`);
+      return violations;
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    fail(`Expected ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.some(option => isEqual(value, option))) {
+    fail(`Expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`Expected at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`Expected at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail(`Expected to match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`Expected at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`Expected at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`Expected at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`Expected at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        violations.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (getJsonType(value) === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        violations.push({ path: `${path}.${key}`, message: 'Required property is missing' });
+      }
+    }
+
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+
+      if (propertySchema) {
+        if (item !== undefined) {
+          violations.push(...validateSchema(item, propertySchema, `${path}.${key}`));
+        }
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: `${path}.${key}`, message: 'Unexpected property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        violations.push(...validateSchema(item, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(option => validateSchema(value, option, path).length === 0)) {
+    fail('Expected to match at least one allowed schema');
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(option => validateSchema(value, option, path).length === 0).length;
+    if (matches !== 1) {
+      fail(`Expected to match exactly one allowed schema, matched ${matches}`);
+    }
+  }
+
+  return violations;
+}
+
+function schemaTypes(schema: JsonSchema): readonly JsonSchemaType[] | undefined {
+  if (schema.type) return typeof schema.type === 'string' ? [schema.type] : schema.type;
+  if (schema.const !== undefined) return [getJsonType(schema.const)];
+  if (schema.enum) return Array.from(new Set(schema.enum.map(getJsonType)));
+  return undefined;
+}
+
+/**
+ * Check whether every value valid for `source` is also valid for `target`
+ *
+ * The check is structural and conservative: it compares types, enums and
+ * constants, required and additional properties, array items and
+ * anyOf/oneOf alternatives. Untyped sources, value bounds and patterns are
+ * not compared, so it only reports mismatches it can prove.
+ *
+ * @param source - Schema of the values produced
+ * @param target - Schema of the values accepted
+ * @returns Mismatches; empty when source is assignable to target
+ */
+export function isSchemaAssignable(source: JsonSchema, target: JsonSchema, path = '$'): SchemaViolation[] {
+  const mismatches: SchemaViolation[] = [];
+  const fail = (message: string) => mismatches.push({ path, message });
+
+  // Every alternative the source may produce must fit the target
+  const sourceOptions = source.anyOf || source.oneOf;
+  if (sourceOptions) {
+    const base = { ...source, anyOf: undefined, oneOf: undefined };
+    return sourceOptions.flatMap(option => isSchemaAssignable({ ...base, ...option }, target, path));
+  }
+
+  // The source must fit at least one target alternative
+  const targetOptions = target.anyOf || target.oneOf;
+  if (targetOptions) {
+    const base = { ...target, anyOf: undefined, oneOf: undefined };
+    const fits = targetOptions.some(option => isSchemaAssignable(source, { ...base, ...option }, path).length === 0);
+    if (!fits) fail('Does not match any allowed schema');
+    return mismatches;
+  }
+
+  const sourceTypes = schemaTypes(source);
+  const targetTypes = schemaTypes(target);
+
+  // Nothing is known about an untyped source
+  if (!sourceTypes) return mismatches;
+
+  if (targetTypes) {
+    const unsupported = sourceTypes.filter(
+      type => !targetTypes.includes(type) && !(type === 'integer' && targetTypes.includes('number'))
+    );
+    if (unsupported.length > 0) {
+      fail(`${sourceTypes.join(' or ')} is not assignable to ${targetTypes.join(' or ')}`);
+      return mismatches;
+    }
+  }
+
+  const targetValues = target.const !== undefined ? [target.const] : target.enum;
+  if (targetValues) {
+    const sourceValues = source.const !== undefined ? [source.const] : source.enum;
+    if (!sourceValues) {
+      fail(`Expected one of ${targetValues.map(value => JSON.stringify(value)).join(', ')}`);
+    } else {
+      const extra = sourceValues.filter(value => !targetValues.some(option => isEqual(value, option)));
+      if (extra.length > 0) {
+        fail(`${extra.map(value => JSON.stringify(value)).join(', ')} not allowed`);
+      }
+    }
+  }
+
+  const sourceRequired = new Set(source.required || []);
+  for (const key of target.required || []) {
+    if (!sourceRequired.has(key)) {
+      mismatches.push({ path: `${path}.${key}`, message: 'Required property may be missing' });
+    }
+  }
+
+  for (const [key, targetProperty] of Object.entries(target.properties || {})) {
+    const sourceProperty = source.properties?.[key];
+    if (sourceProperty) {
+      mismatches.push(...isSchemaAssignable(sourceProperty, targetProperty, `${path}.${key}`));
+    }
+  }
+
+  if (target.additionalProperties === false) {
+    for (const key of Object.keys(source.properties || {})) {
+      if (!target.properties?.[key]) {
+        mismatches.push({ path: `${path}.${key}`, message: 'Unexpected property' });
+      }
+    }
+  }
+
+  if (source.items && target.items) {
+    mismatches.push(...isSchemaAssignable(source.items, target.items, `${path}[]`));
+  }
+
+  return mismatches;
+}
@@ -0,0 +1,291 @@
+/**
+ * @capsulas/core - Secrets
+ *
+ * Resolves `{ $secret: "NAME" }` references in node config through a
+ * pluggable provider, redacts resolved values from everything a run reports,
+ * and recognizes credentials stored inline in flows.
+ */
+
+import { promises as fs } from 'fs';
+
+/**
+ * Placeholder written in place of secret values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Config value standing for a secret, e.g. `{ $secret: "STRIPE_KEY" }`
+ */
+export interface SecretReference {
+  $secret: string;
+}
+
+/**
+ * Source of secret values
+ */
+export interface SecretProvider {
+  /** Value of the secret, undefined when the provider does not know it */
+  get(name: string): Promise<string | undefined>;
+}
+
+/**
+ * Check whether a config value is a secret reference
+ */
+export function isSecretReference(value: any): value is SecretReference {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    typeof value.$secret === 'string' &&
+    Object.keys(value).length === 1
+  );
+}
+
+/**
+ * Secret provider reading environment variables
+ *
+ * @example
+ * new EnvSecretProvider(process.env, 'CAPSULAS_SECRET_') // STRIPE_KEY -> CAPSULAS_SECRET_STRIPE_KEY
+ */
+export class EnvSecretProvider implements SecretProvider {
+  constructor(
+    private readonly env: Record<string, string | undefined> = process.env,
+    private readonly prefix = ''
+  ) {}
+
+  async get(name: string): Promise<string | undefined> {
+    return this.env[`${this.prefix}${name}`];
+  }
+}
+
+/**
+ * Encrypted secret as produced by the encryption capsule
+ */
+export interface EncryptedSecret {
+  encrypted: string;
+  iv: string;
+  tag?: string;
+}
+
+/**
+ * Subset of the encryption capsule's EncryptionService used to read secrets
+ */
+export interface SecretDecryptor {
+  decrypt(encrypted: string, iv: string, tag?: string): { decrypted: string };
+}
+
+/**
+ * Subset of the encryption capsule's EncryptionService used to write secrets
+ */
+export interface SecretEncryptor {
+  encrypt(text: string): EncryptedSecret;
+}
+
+/**
+ * Secret provider reading a JSON file of encrypted secrets keyed by name
+ *
+ * The file is read on first use and each secret decrypted when requested.
+ *
+ * @example
+ * const encryption = await createEncryptionService({ key: process.env.SECRETS_KEY });
+ * const secrets = new EncryptedFileSecretProvider('secrets.enc.json', encryption);
+ */
+export class EncryptedFileSecretProvider implements SecretProvider {
+  private secrets?: Promise<Record<string, EncryptedSecret>>;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly decryptor: SecretDecryptor
+  ) {}
+
+  async get(name: string): Promise<string | undefined> {
+    this.secrets ??= fs.readFile(this.filePath, 'utf-8').then(JSON.parse);
+
+    const secret = (await this.secrets)[name];
+    if (!secret) return undefined;
+
+    return this.decryptor.decrypt(secret.encrypted, secret.iv, secret.tag).decrypted;
+  }
+}
+
+/**
+ * Encrypt secrets and write them in the format EncryptedFileSecretProvider reads
+ */
+export async function saveEncryptedSecrets(
+  filePath: string,
+  secrets: Record<string, string>,
+  encryptor: SecretEncryptor
+): Promise<void> {
+  const encrypted: Record<string, EncryptedSecret> = {};
+  for (const name of Object.keys(secrets).sort()) {
+    encrypted[name] = encryptor.encrypt(secrets[name]);
+  }
+
+  await fs.writeFile(filePath, `${JSON.stringify(encrypted, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Replace secret references in a config value with the provider's values
+ *
+ * @param value - Node config or any part of it
+ * @param provider - Source of secret values
+ * @param resolved - Receives every value that was resolved
+ * @throws Error if a referenced secret cannot be resolved
+ */
+export async function resolveSecrets(
+  value: any,
+  provider: SecretProvider | undefined,
+  resolved: Set<string> = new Set()
+): Promise<any> {
+  if (isSecretReference(value)) {
+    if (!provider) {
+      throw new Error(`Secret ${value.$secret} cannot be resolved: no secret provider configured`);
+    }
+    const secret = await provider.get(value.$secret);
+    if (secret === undefined) {
+      throw new Error(`Secret not found: ${value.$secret}`);
+    }
+    resolved.add(secret);
+    return secret;
+  }
+
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => resolveSecrets(item, provider, resolved)));
+  }
+
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = await resolveSecrets(item, provider, resolved);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Check whether a config value holds secret references
+ */
+export function containsSecretReference(value: any): boolean {
+  if (isSecretReference(value)) return true;
+  if (Array.isArray(value)) return value.some(containsSecretReference);
+  if (value !== null && typeof value === 'object') return Object.values(value).some(containsSecretReference);
+  return false;
+}
+
+/**
+ * Replaces known secret values in strings and nested data
+ */
+export class SecretRedactor {
+  private secrets = new Set<string>();
+
+  /**
+   * Start redacting a value; empty strings are ignored
+   */
+  add(secret: string): this {
+    if (secret) this.secrets.add(secret);
+    return this;
+  }
+
+  get size(): number {
+    return this.secrets.size;
+  }
+
+  /**
+   * Redact every known secret inside a string
+   */
+  redact(text: string): string {
+    if (this.secrets.size === 0) return text;
+
+    // Longest first so a secret containing another is replaced whole
+    return [...this.secrets]
+      .sort((a, b) => b.length - a.length)
+      .reduce((result, secret) => result.split(secret).join(REDACTED), text);
+  }
+
+  /**
+   * Copy of a value with every string redacted
+   * Values without secrets are returned as they are.
+   */
+  redactValue<T>(value: T): T {
+    if (this.secrets.size === 0) return value;
+
+    if (typeof value === 'string') return this.redact(value) as T;
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item)) as T;
+    }
+
+    if (value instanceof Error) {
+      const copy = new Error(this.redact(value.message));
+      copy.name = value.name;
+      return copy as T;
+    }
+
+    if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      const result: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.redactValue(item);
+      }
+      return result as T;
+    }
+
+    return value;
+  }
+
+  /**
+   * Whether a string inside the value holds a known secret
+   */
+  containsSecret(value: unknown): boolean {
+    if (this.secrets.size === 0) return false;
+
+    if (typeof value === 'string') return [...this.secrets].some(secret => value.includes(secret));
+    if (Array.isArray(value)) return value.some(item => this.containsSecret(item));
+    if (value instanceof Error) return this.containsSecret(value.message);
+    if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.values(value).some(item => this.containsSecret(item));
+    }
+    return false;
+  }
+}
+
+/**
+ * Config keys that usually hold credentials
+ */
+const CREDENTIAL_KEY_PATTERN =
+  /(api[_-]?key|secret|token|password|passwd|private[_-]?key|access[_-]?key|credentials?|auth[_-]?key)$/i;
+
+/**
+ * Well-known credential formats
+ */
+const CREDENTIAL_VALUE_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Stripe key', pattern: /^(sk|rk)_(live|test)_[A-Za-z0-9]{10,}$/ },
+  { name: 'OpenAI key', pattern: /^sk-[A-Za-z0-9_-]{20,}$/ },
+  { name: 'AWS access key', pattern: /^(AKIA|ASIA)[A-Z0-9]{16}$/ },
+  { name: 'GitHub token', pattern: /^(gh[pousr]_[A-Za-z0-9]{20,}|github_pat_[A-Za-z0-9_]{20,})$/ },
+  { name: 'Slack token', pattern: /^xox[abpors]-[A-Za-z0-9-]{10,}$/ },
+  { name: 'private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/ },
+  { name: 'JSON Web Token', pattern: /^eyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/ }
+];
+
+/**
+ * Recognize an inline config value that looks like a credential
+ *
+ * @param key - Config key holding the value
+ * @param value - The inline value
+ * @returns What the value appears to be, e.g. "a Stripe key", or undefined when it looks harmless
+ */
+export function detectInlineCredential(key: string, value: any): string | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+  const match = CREDENTIAL_VALUE_PATTERNS.find(({ pattern }) => pattern.test(value));
+  if (match) return `a ${match.name}`;
+
+  // Templates pull the value from elsewhere at run time
+  if (value.includes('{{')) return undefined;
+
+  if (CREDENTIAL_KEY_PATTERN.test(key)) return 'a credential';
+
+  return undefined;
+}
@@ -0,0 +1,192 @@
+/**
+ * @capsulas/core - Semantic versions
+ *
+ * Version comparison and range matching for capsule references. Supports
+ * exact versions, x-ranges ("1.x", "1", "*"), caret and tilde ranges,
+ * comparators (">=1.2.0 <2.0.0") and alternatives joined with "||".
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?$/;
+
+/**
+ * Parse a full version string, returning undefined when it is not valid
+ */
+export function parseVersion(version: string): SemVer | undefined {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return undefined;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    if (aNumeric && bNumeric) return Number(a[i]) - Number(b[i]);
+    if (aNumeric) return -1;
+    if (bNumeric) return 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+
+  return 0;
+}
+
+function compareParsed(a: SemVer, b: SemVer): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+/**
+ * Compare two versions
+ *
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ * @throws Error if either version is invalid
+ */
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+
+  if (!parsedA) throw new Error(`Invalid version: ${a}`);
+  if (!parsedB) throw new Error(`Invalid version: ${b}`);
+
+  return Math.sign(compareParsed(parsedA, parsedB));
+}
+
+type Comparator = (version: SemVer) => boolean;
+
+const isWildcard = (part: string | undefined) => part === undefined || /^[xX*]$/.test(part);
+
+function bound(major: number, minor: number, patch: number, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease };
+}
+
+/**
+ * Turn a single range term ("^1.2", ">=1.0.0", "1.x") into a comparator
+ */
+function parseComparator(term: string): Comparator {
+  const operatorMatch = /^(\^|~|>=|<=|>|<|=)?\s*(.*)$/.exec(term)!;
+  const operator = operatorMatch[1] || '';
+  const match = PARTIAL_PATTERN.exec(operatorMatch[2]);
+
+  if (!match) {
+    throw new Error(`Invalid version range: ${term}`);
+  }
+
+  const [, majorPart, minorPart, patchPart, prereleasePart] = match;
+  const prerelease = prereleasePart ? prereleasePart.split('.') : [];
+
+  if (isWildcard(majorPart)) {
+    return operator === '<' || operator === '>' ? () => false : () => true;
+  }
+
+  const major = Number(majorPart);
+  const minor = isWildcard(minorPart) ? undefined : Number(minorPart);
+  const patch = isWildcard(patchPart) ? undefined : Number(patchPart);
+  const lower = bound(major, minor ?? 0, patch ?? 0, prerelease);
+
+  const between = (min: SemVer, max: SemVer): Comparator =>
+    v => compareParsed(v, min) >= 0 && compareParsed(v, max) < 0;
+
+  // Upper bound of a partial version: "1" → <2.0.0, "1.2" → <1.3.0
+  const partialUpper =
+    minor === undefined ? bound(major + 1, 0, 0) : bound(major, minor + 1, 0);
+
+  switch (operator) {
+    case '^':
+      if (major > 0 || minor === undefined) return between(lower, bound(major + 1, 0, 0));
+      if (minor > 0 || patch === undefined) return between(lower, bound(0, minor + 1, 0));
+      return between(lower, bound(0, 0, patch + 1));
+    case '~':
+      return between(lower, minor === undefined ? bound(major + 1, 0, 0) : bound(major, minor + 1, 0));
+    case '>=':
+      return v => compareParsed(v, lower) >= 0;
+    case '>':
+      return patch === undefined
+        ? v => compareParsed(v, partialUpper) >= 0
+        : v => compareParsed(v, lower) > 0;
+    case '<=':
+      return patch === undefined
+        ? v => compareParsed(v, partialUpper) < 0
+        : v => compareParsed(v, lower) <= 0;
+    case '<':
+      return v => compareParsed(v, lower) < 0;
+    default:
+      return patch === undefined
+        ? between(lower, partialUpper)
+        : v => compareParsed(v, lower) === 0;
+  }
+}
+
+/**
+ * Split a range into alternatives of terms that must all match
+ */
+function parseRange(range: string): Array<{ comparators: Comparator[]; prerelease: boolean }> {
+  return range.split('||').map(alternative => {
+    const terms = alternative
+      .trim()
+      .replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1')
+      .split(/\s+/)
+      .filter(Boolean);
+
+    return {
+      comparators: terms.map(parseComparator),
+      prerelease: terms.some(term => term.includes('-'))
+    };
+  });
+}
+
+/**
+ * Check whether a version satisfies a range
+ *
+ * Prerelease versions only match ranges that name a prerelease explicitly.
+ *
+ * @example
+ * satisfies('1.4.2', '^1.2.0')         // true
+ * satisfies('2.0.0', '>=1.0.0 <2.0.0') // false
+ * satisfies('0.3.1', '0.2.x || 0.3.x') // true
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) return false;
+
+  return parseRange(range).some(
+    alternative =>
+      (parsed.prerelease.length === 0 || alternative.prerelease) &&
+      alternative.comparators.every(comparator => comparator(parsed))
+  );
+}
+
+/**
+ * Check whether a string is a valid version range
+ */
+export function isValidRange(range: string): boolean {
+  try {
+    parseRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * @capsulas/core - Managed services
+ *
+ * Container creating capsule services (database, cache, queue...) on first
+ * use, sharing one instance between nodes with the same service config, and
+ * cleaning them all up when the execution or the host ends.
+ */
+
+import { stableStringify } from './cache';
+
+/**
+ * Lifecycle hooks of a capsule service; both are optional
+ */
+export interface ManagedService {
+  initialize?(): Promise<void> | void;
+  cleanup?(): Promise<void> | void;
+}
+
+/**
+ * Creates a service from its config
+ *
+ * @example
+ * container.register('database', config => new DatabaseService(config));
+ */
+export type ServiceFactory<T = any> = (config: Record<string, any>) => T | Promise<T>;
+
+/**
+ * How long a container's services live
+ * - run: the container is a template; every execution gets its own instances, cleaned up when it ends
+ * - shared: executions use the container as is; its owner calls cleanup()
+ */
+export type ServiceLifetime = 'run' | 'shared';
+
+interface ServiceInstance {
+  id: string;
+  service: Promise<any>;
+}
+
+/**
+ * Lazily created, shared capsule services
+ */
+export class ServiceContainer {
+  private factories: Map<string, ServiceFactory>;
+  private instances = new Map<string | symbol, ServiceInstance>();
+
+  constructor(
+    factories: Record<string, ServiceFactory> = {},
+    readonly lifetime: ServiceLifetime = 'run'
+  ) {
+    this.factories = new Map(Object.entries(factories));
+  }
+
+  /**
+   * Add a service factory
+   * @throws Error if the id is already registered
+   */
+  register(id: string, factory: ServiceFactory): this {
+    if (this.factories.has(id)) {
+      throw new Error(`Service ${id} is already registered`);
+    }
+    this.factories.set(id, factory);
+    return this;
+  }
+
+  has(id: string): boolean {
+    return this.factories.has(id);
+  }
+
+  /**
+   * Number of services created and not yet cleaned up
+   */
+  get size(): number {
+    return this.instances.size;
+  }
+
+  /**
+   * Get the service for a config, creating and initializing it on first use
+   *
+   * Calls with an equal config share one instance, including calls made
+   * while the instance is still initializing.
+   *
+   * @throws Error if no factory is registered or the service fails to initialize
+   */
+  async get<T = any>(id: string, config: Record<string, any> = {}): Promise<T> {
+    const factory = this.factories.get(id);
+    if (!factory) {
+      throw new Error(`Service not registered: ${id}`);
+    }
+
+    // Configs that cannot be serialized are never shared
+    const serialized = stableStringify(config);
+    const key = serialized === undefined ? Symbol(id) : `${id}:${serialized}`;
+
+    const existing = this.instances.get(key);
+    if (existing) return existing.service;
+
+    // Deferred so the entry is registered before the factory runs
+    const service: Promise<any> = Promise.resolve().then(async () => {
+      try {
+        const instance = await factory(config);
+        await (instance as ManagedService)?.initialize?.();
+        return instance;
+      } catch (error) {
+        // Let the next caller try again
+        if (this.instances.get(key)?.service === service) this.instances.delete(key);
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Service ${id} failed to initialize: ${message}`);
+      }
+    });
+    this.instances.set(key, { id, service });
+
+    return service;
+  }
+
+  /**
+   * Empty container with the same factories, used for one execution
+   */
+  fork(): ServiceContainer {
+    return new ServiceContainer(Object.fromEntries(this.factories), 'shared');
+  }
+
+  /**
+   * Clean up every created service, newest first
+   *
+   * Every service is cleaned up even when some fail.
+   *
+   * @returns Errors raised by failing cleanups, prefixed with the service id
+   */
+  async cleanup(): Promise<string[]> {
+    const instances = [...this.instances.values()].reverse();
+    this.instances.clear();
+
+    const errors: string[] = [];
+    for (const { id, service } of instances) {
+      try {
+        const instance = await service;
+        await (instance as ManagedService)?.cleanup?.();
+      } catch (error) {
+        // Services that never initialized have nothing to clean up
+        if (!(await service.then(() => true, () => false))) continue;
+        errors.push(`${id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return errors;
+  }
+}
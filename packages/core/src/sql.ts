@@ -0,0 +1,58 @@
+/**
+ * @capsulas/core - SQL store helpers
+ *
+ * Table naming, placeholders and lazy table creation shared by the
+ * database-backed checkpoint and history stores.
+ */
+
+import type { CheckpointDatabase } from './checkpoint';
+
+/**
+ * Parameter placeholder style: "?" (SQLite/MySQL) or "$1" (PostgreSQL)
+ */
+export type SqlParamStyle = 'question' | 'dollar';
+
+/**
+ * Table of a database-backed store, created on first use
+ */
+export class SqlTable {
+  private ready: Promise<unknown> | null = null;
+
+  /**
+   * @param name - Table name, letters, digits and underscores only
+   * @param columns - Column definitions used to create the table
+   * @param kind - What the table stores, used in errors
+   * @throws Error if the table name is invalid
+   */
+  constructor(
+    private readonly db: CheckpointDatabase,
+    readonly name: string,
+    private readonly columns: string,
+    private readonly paramStyle: SqlParamStyle,
+    kind: string
+  ) {
+    if (!/^\w+$/.test(name)) {
+      throw new Error(`Invalid ${kind} table name: ${name}`);
+    }
+  }
+
+  /**
+   * Create the table if needed; a failed attempt is retried on the next call
+   */
+  ensure(): Promise<unknown> {
+    if (!this.ready) {
+      this.ready = this.db.executeSQL(`CREATE TABLE IF NOT EXISTS ${this.name} (${this.columns})`).catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Placeholder of the 1-based parameter `index`
+   */
+  param(index: number): string {
+    return this.paramStyle === 'dollar' ? `$${index}` : '?';
+  }
+}
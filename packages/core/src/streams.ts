@@ -0,0 +1,211 @@
+/**
+ * @capsulas/core - Streaming ports
+ *
+ * Outputs can be AsyncIterables: downstream nodes start as soon as the
+ * stream is returned and consume its items as they are produced. A stream
+ * read by several connections is split with a bounded buffer per reader, so
+ * the producer never runs further ahead than its readers allow.
+ */
+
+/**
+ * Items buffered per reader before the producer is paused
+ */
+export const DEFAULT_STREAM_HIGH_WATER_MARK = 16;
+
+/**
+ * Output value recorded for a stream once it has ended
+ */
+export interface StreamSummary {
+  $stream: { items: number };
+}
+
+export function isAsyncIterable(value: unknown): value is AsyncIterable<any> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as any)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+export function isStreamSummary(value: unknown): value is StreamSummary {
+  return value !== null && typeof value === 'object' && '$stream' in value;
+}
+
+/**
+ * Stream a plain value: arrays item by item, anything else as one item
+ */
+export async function* toStream<T>(value: T | T[]): AsyncIterableIterator<T> {
+  if (Array.isArray(value)) {
+    yield* value;
+  } else {
+    yield value;
+  }
+}
+
+/**
+ * Read a stream to the end
+ */
+export async function collectStream<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of stream) {
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Transform each item of a stream as it is read
+ */
+export async function* mapStream<T, U>(stream: AsyncIterable<T>, map: (item: T) => U): AsyncIterableIterator<U> {
+  for await (const item of stream) {
+    yield map(item);
+  }
+}
+
+interface TeeReader<T> {
+  queue: T[];
+  /** Readers that have not asked for an item yet do not hold the producer back */
+  started: boolean;
+  closed: boolean;
+}
+
+/**
+ * Split one stream between several readers
+ *
+ * Items are pulled from the source when a reader needs one and no started
+ * reader already has `highWaterMark` items waiting. Readers that stop early
+ * are dropped; the source is closed when none is left. A source error is
+ * thrown to every reader after the items it already received.
+ */
+export class StreamTee<T = any> {
+  readonly readers: AsyncIterableIterator<T>[];
+  /** Resolves with the number of items read from the source once it ends or every reader closed */
+  readonly finished: Promise<number>;
+  /** Items read from the source so far */
+  items = 0;
+
+  private iterator: AsyncIterator<T>;
+  private state: TeeReader<T>[];
+  private ended = false;
+  private failure: { reason: unknown } | undefined;
+  private pulling: Promise<void> | undefined;
+  private changed!: Promise<void>;
+  private wake!: () => void;
+  private settle!: { resolve: (items: number) => void; reject: (reason: unknown) => void };
+
+  constructor(source: AsyncIterable<T>, count: number, private readonly highWaterMark = DEFAULT_STREAM_HIGH_WATER_MARK) {
+    this.iterator = source[Symbol.asyncIterator]();
+    this.finished = new Promise((resolve, reject) => (this.settle = { resolve, reject }));
+    // Failures reach readers through their iterators
+    this.finished.catch(() => {});
+    this.notify();
+
+    this.state = Array.from({ length: count }, () => ({ queue: [], started: false, closed: false }));
+    this.readers = this.state.map(reader => this.createReader(reader));
+
+    // Nobody reads this stream: run it to the end so the producer completes
+    if (count === 0) void this.drain();
+  }
+
+  /**
+   * Fail every reader and close the source
+   */
+  cancel(reason: unknown): void {
+    if (this.ended || this.failure) return;
+    this.fail(reason);
+    this.closeSource();
+  }
+
+  private createReader(reader: TeeReader<T>): AsyncIterableIterator<T> {
+    const iterator: AsyncIterableIterator<T> = {
+      next: async () => {
+        reader.started = true;
+        for (;;) {
+          if (reader.closed) return { done: true, value: undefined };
+          if (reader.queue.length > 0) {
+            const value = reader.queue.shift()!;
+            this.notify();
+            return { done: false, value };
+          }
+          if (this.failure) throw this.failure.reason;
+          if (this.ended) return { done: true, value: undefined };
+          await this.pull();
+        }
+      },
+      return: async () => {
+        this.close(reader);
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]: () => iterator
+    };
+    return iterator;
+  }
+
+  private async pull(): Promise<void> {
+    // Backpressure: wait for the slowest started reader to catch up
+    while (!this.pulling && !this.ended && !this.failure && this.isFull()) {
+      await this.changed;
+    }
+    if (this.pulling || this.ended || this.failure) return this.pulling;
+
+    this.pulling = this.iterator.next().then(
+      result => {
+        if (result.done) {
+          this.end();
+          return;
+        }
+        this.items++;
+        this.state.forEach(reader => !reader.closed && reader.queue.push(result.value));
+      },
+      reason => this.fail(reason)
+    ).finally(() => {
+      this.pulling = undefined;
+      this.notify();
+    });
+    return this.pulling;
+  }
+
+  private async drain(): Promise<void> {
+    while (!this.ended && !this.failure) {
+      await this.pull();
+    }
+  }
+
+  private isFull(): boolean {
+    return this.state.some(reader => reader.started && !reader.closed && reader.queue.length >= this.highWaterMark);
+  }
+
+  private close(reader: TeeReader<T>): void {
+    if (reader.closed) return;
+    reader.closed = true;
+    reader.queue.length = 0;
+    this.notify();
+
+    // The last reader left before the end: stop the producer
+    if (this.state.every(r => r.closed) && !this.ended && !this.failure) {
+      this.end();
+      this.closeSource();
+    }
+  }
+
+  private closeSource(): void {
+    Promise.resolve(this.iterator.return?.()).catch(() => {});
+  }
+
+  private end(): void {
+    if (this.failure) return;
+    this.ended = true;
+    this.settle.resolve(this.items);
+  }
+
+  private fail(reason: unknown): void {
+    if (this.ended) return;
+    this.failure = { reason };
+    this.settle.reject(reason);
+  }
+
+  private notify(): void {
+    this.wake?.();
+    this.changed = new Promise(resolve => (this.wake = resolve));
+  }
+}
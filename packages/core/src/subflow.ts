@@ -0,0 +1,215 @@
+/**
+ * @capsulas/core - Subflows
+ *
+ * Wraps a Flow as a Capsule so it can be reused, and nested, inside other
+ * flows. Subflow inputs are delivered to designated ports inside the flow and
+ * outputs are read from designated ports once it has run.
+ */
+
+import { executeFlow } from './executor';
+import {
+  Capsule,
+  CapsuleCategory,
+  Flow,
+  Port,
+  PortRef,
+  PortType,
+  PORT_TYPES,
+  defineCapsule
+} from './types';
+
+/**
+ * Id of the synthetic node feeding external values into a flow
+ */
+const INPUT_NODE_ID = '$input';
+
+/**
+ * Port of a subflow capsule mapped to a port inside the wrapped flow
+ * Name and type default to those of the inner port.
+ */
+export interface SubflowPortMapping extends PortRef {
+  id: string;
+  name?: string;
+  type?: PortType;
+  required?: boolean;
+  description?: string;
+}
+
+/**
+ * Options for building a subflow capsule
+ */
+export interface SubflowCapsuleOptions {
+  id?: string;
+  name?: string;
+  version?: string;
+  description?: string;
+  icon?: string;
+  category?: CapsuleCategory;
+  inputs: SubflowPortMapping[];
+  outputs: SubflowPortMapping[];
+}
+
+/**
+ * Return a copy of `flow` with a source node feeding `values` to `targets`
+ *
+ * @param flow - Flow receiving the values
+ * @param values - Values keyed by name
+ * @param targets - Input port receiving each named value
+ */
+export function injectInputs(
+  flow: Flow,
+  values: Record<string, any>,
+  targets: Record<string, PortRef>
+): Flow {
+  const names = Object.keys(targets).filter(name => name in values);
+
+  return {
+    ...flow,
+    nodes: [
+      {
+        id: INPUT_NODE_ID,
+        capsule: defineCapsule({
+          id: 'core.input',
+          name: 'Input',
+          description: 'Values provided by the enclosing flow',
+          icon: '→',
+          category: 'processing',
+          inputs: [],
+          outputs: names.map(name => ({ id: name, name, type: PORT_TYPES.ANY })),
+          memoize: false,
+          execute: async () => values
+        }),
+        position: { x: 0, y: 0 }
+      },
+      ...flow.nodes
+    ],
+    connections: [
+      ...names.map(name => ({
+        id: `${INPUT_NODE_ID}.${name}->${targets[name].nodeId}.${targets[name].portId}`,
+        fromNode: INPUT_NODE_ID,
+        fromPort: name,
+        toNode: targets[name].nodeId,
+        toPort: targets[name].portId,
+        color: PORT_TYPES.ANY.color
+      })),
+      ...flow.connections
+    ]
+  };
+}
+
+/**
+ * Find a chain of subflows that references itself
+ *
+ * @param flow - Flow to inspect, including nested subflows
+ * @returns Flow ids forming the cycle, e.g. ["a", "b", "a"], or null
+ */
+export function findSubflowCycle(flow: Flow, path: string[] = []): string[] | null {
+  if (path.includes(flow.id)) {
+    return [...path.slice(path.indexOf(flow.id)), flow.id];
+  }
+
+  for (const node of flow.nodes) {
+    if (node.capsule.subflow) {
+      const cycle = findSubflowCycle(node.capsule.subflow, [...path, flow.id]);
+      if (cycle) return cycle;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a mapping into a capsule port, checking it exists in the flow
+ */
+function toPort(flow: Flow, mapping: SubflowPortMapping, direction: 'inputs' | 'outputs'): Port {
+  const node = flow.nodes.find(n => n.id === mapping.nodeId);
+
+  if (!node) {
+    throw new Error(`Subflow "${flow.name}" has no node ${mapping.nodeId}`);
+  }
+
+  const inner = node.capsule[direction].find(p => p.id === mapping.portId);
+
+  if (!inner) {
+    throw new Error(
+      `Subflow "${flow.name}": ${direction === 'inputs' ? 'input' : 'output'} port ${mapping.portId} not found on ${node.id}`
+    );
+  }
+
+  return {
+    id: mapping.id,
+    name: mapping.name || inner.name,
+    type: mapping.type || inner.type,
+    required: mapping.required ?? inner.required,
+    description: mapping.description || inner.description
+  };
+}
+
+/**
+ * Create a capsule that runs `flow` as a single node
+ *
+ * The nested execution result is attached to the parent result under
+ * `subflowResults[nodeId]`. A subflow that ends up running inside itself fails
+ * with a circular reference error.
+ *
+ * @param flow - Flow to wrap
+ * @param options - Port mappings and capsule metadata
+ */
+export function createSubflowCapsule(flow: Flow, options: SubflowCapsuleOptions): Capsule {
+  const cycle = findSubflowCycle(flow);
+  if (cycle) {
+    throw new Error(`Circular subflow reference: ${cycle.join(' → ')}`);
+  }
+
+  const inputs = options.inputs.map(mapping => toPort(flow, mapping, 'inputs'));
+  const outputs = options.outputs.map(mapping => toPort(flow, mapping, 'outputs'));
+  const targets = Object.fromEntries(options.inputs.map(mapping => [mapping.id, mapping]));
+
+  return defineCapsule({
+    id: options.id || `subflow.${flow.id}`,
+    name: options.name || flow.name,
+    version: options.version,
+    description: options.description || flow.description || `Subflow ${flow.name}`,
+    icon: options.icon || '▣',
+    category: options.category || 'processing',
+    inputs,
+    outputs,
+    subflow: flow,
+    nested: true,
+    execute: async (values, config, context) => {
+      const parentFlowIds = context
+        ? [...(context.execution.parentFlowIds || []), context.flowId]
+        : [];
+
+      if (parentFlowIds.includes(flow.id)) {
+        throw new Error(`Circular subflow reference: ${[...parentFlowIds, flow.id].join(' → ')}`);
+      }
+
+      const result = await executeFlow(injectInputs(flow, values, targets), {
+        env: {},
+        ...context?.execution,
+        flowId: flow.id,
+        executionId: undefined,
+        checkpoints: undefined,
+        history: undefined,
+        cache: undefined,
+        variables: { ...context?.execution.variables },
+        parentFlowIds
+      });
+
+      context?.reportSubflowResult?.(result);
+
+      if (!result.success) {
+        const [first] = result.errors || [];
+        throw new Error(`Subflow "${flow.name}" failed at ${first?.nodeId}: ${first?.error}`);
+      }
+
+      return Object.fromEntries(
+        options.outputs.map(mapping => [
+          mapping.id,
+          result.nodeResults[mapping.nodeId]?.[mapping.portId]
+        ])
+      );
+    }
+  });
+}
@@ -0,0 +1,576 @@
+/**
+ * @capsulas/core - Flow test harness
+ *
+ * Runs a flow with per-node mocks (fixed outputs, recorded fixtures or
+ * functions), records what every node received and returned, checks
+ * expectations and produces stable snapshots of the result. Works from any
+ * test runner and backs the `capsulas test` command through flow test files.
+ */
+
+import { promises as fs } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { executeFlow } from './executor';
+import { FlowDocument, isFlowDocument, loadFlowFile } from './flow-format';
+import type { CapsuleRegistry } from './registry';
+import type {
+  Capsule,
+  CapsuleContext,
+  ExecutionContext,
+  ExecutionResult,
+  Flow,
+  NodeExecutionStatus
+} from './types';
+
+/**
+ * Function standing in for a node's capsule
+ */
+export type NodeMockFunction = (
+  inputs: Record<string, any>,
+  config: Record<string, any>,
+  context: CapsuleContext
+) => Record<string, any> | Promise<Record<string, any>>;
+
+/**
+ * Replacement for a node's capsule: fixed outputs, a failure or a function
+ */
+export type NodeMock = { outputs: Record<string, any> } | { error: string } | NodeMockFunction;
+
+/**
+ * Recorded node outputs keyed by node id, replayed as fixed-output mocks
+ */
+export type FlowFixtures = Record<string, Record<string, any>>;
+
+/**
+ * Options for runFlowTest
+ */
+export interface FlowTestOptions {
+  /** Mocks keyed by node id; take precedence over fixtures */
+  mocks?: Record<string, NodeMock>;
+  fixtures?: FlowFixtures;
+  variables?: Record<string, any>;
+  env?: Record<string, string>;
+  /** Resolves capsule references when testing a flow document */
+  registry?: CapsuleRegistry;
+  /**
+   * Let unmocked capsules marked `sideEffects` run for real.
+   * Off by default: such nodes fail instead of reaching external services.
+   */
+  allowSideEffects?: boolean;
+  /** Extra execution context, e.g. maxConcurrency or a deadline */
+  context?: Partial<ExecutionContext>;
+}
+
+/**
+ * One execute call made by a node during a test run
+ */
+export interface NodeCall {
+  inputs: Record<string, any>;
+  config: Record<string, any>;
+  outputs?: Record<string, any>;
+  error?: string;
+}
+
+/**
+ * Expected state of a node
+ * `inputs` and `outputs` match partially: only the listed keys are compared.
+ */
+export interface NodeExpectation {
+  status?: NodeExecutionStatus;
+  inputs?: Record<string, any>;
+  outputs?: Record<string, any>;
+  /** Number of execute calls, retries included */
+  calls?: number;
+  error?: string;
+}
+
+/**
+ * Expected outcome of a test run
+ */
+export interface FlowExpectation {
+  success?: boolean;
+  nodes?: Record<string, NodeExpectation>;
+}
+
+/**
+ * Execution result without ids, timings or anything else that changes between runs
+ */
+export interface FlowSnapshot {
+  success: boolean;
+  cancelled?: boolean;
+  errors: Array<{ nodeId: string; error: string }>;
+  nodes: Record<string, {
+    status: NodeExecutionStatus;
+    attempts: number;
+    inputs?: Record<string, any>;
+    outputs?: Record<string, any>;
+    error?: string;
+  }>;
+}
+
+/**
+ * Error raised when a test run does not meet its expectations
+ */
+export class FlowAssertionError extends Error {
+  constructor(public readonly failures: string[]) {
+    super(`Flow expectations not met:\n${failures.map(f => `  ${f}`).join('\n')}`);
+    this.name = 'FlowAssertionError';
+  }
+}
+
+/**
+ * Make a value JSON-safe so it compares and serializes like a stored snapshot
+ */
+function toPlain<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Compare an actual value against an expected one, collecting mismatches
+ * Objects match when every expected key matches; arrays and primitives must be equal.
+ */
+function matchValue(actual: any, expected: any, path: string, failures: string[]): void {
+  if (expected !== null && typeof expected === 'object' && !Array.isArray(expected)) {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+      failures.push(`${path}: expected an object, got ${JSON.stringify(actual)}`);
+      return;
+    }
+    Object.keys(expected).forEach(key => matchValue(actual[key], expected[key], `${path}.${key}`, failures));
+    return;
+  }
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      failures.push(`${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      return;
+    }
+    expected.forEach((item, i) => matchValue(actual[i], item, `${path}[${i}]`, failures));
+    return;
+  }
+
+  if (actual !== expected) {
+    failures.push(`${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+/**
+ * Result of a flow test run with helpers to inspect and assert on it
+ */
+export class FlowTestRun {
+  constructor(
+    public readonly flow: Flow,
+    public readonly result: ExecutionResult,
+    /** Execute calls per node id, in call order */
+    public readonly calls: Record<string, NodeCall[]>
+  ) {}
+
+  /**
+   * Status of a node, undefined when it is not in the flow
+   */
+  status(nodeId: string): NodeExecutionStatus | undefined {
+    return this.result.nodeExecutions[nodeId]?.status;
+  }
+
+  /**
+   * Inputs of the node's first execute call
+   */
+  inputs(nodeId: string): Record<string, any> | undefined {
+    return this.calls[nodeId]?.[0]?.inputs;
+  }
+
+  /**
+   * Outputs the node produced in the execution result
+   */
+  outputs(nodeId: string): Record<string, any> | undefined {
+    return this.result.nodeResults[nodeId];
+  }
+
+  /**
+   * List every expectation the run does not meet
+   */
+  check(expectation: FlowExpectation): string[] {
+    const failures: string[] = [];
+
+    if (expectation.success !== undefined && expectation.success !== this.result.success) {
+      const errors = (this.result.errors || []).map(e => `${e.nodeId}: ${e.error}`).join('; ');
+      failures.push(
+        `success: expected ${expectation.success}, got ${this.result.success}${errors ? ` (${errors})` : ''}`
+      );
+    }
+
+    Object.entries(expectation.nodes || {}).forEach(([nodeId, expected]) => {
+      const path = `nodes.${nodeId}`;
+      const execution = this.result.nodeExecutions[nodeId];
+
+      if (!execution) {
+        failures.push(`${path}: node not found in flow ${this.flow.id}`);
+        return;
+      }
+
+      if (expected.status !== undefined && execution.status !== expected.status) {
+        const reason = execution.error ? ` (${execution.error})` : '';
+        failures.push(`${path}.status: expected ${expected.status}, got ${execution.status}${reason}`);
+      }
+      if (expected.error !== undefined && execution.error !== expected.error) {
+        failures.push(`${path}.error: expected ${JSON.stringify(expected.error)}, got ${JSON.stringify(execution.error)}`);
+      }
+      if (expected.calls !== undefined && (this.calls[nodeId]?.length ?? 0) !== expected.calls) {
+        failures.push(`${path}.calls: expected ${expected.calls}, got ${this.calls[nodeId]?.length ?? 0}`);
+      }
+      if (expected.inputs !== undefined) {
+        matchValue(toPlain(this.inputs(nodeId)), expected.inputs, `${path}.inputs`, failures);
+      }
+      if (expected.outputs !== undefined) {
+        matchValue(toPlain(this.outputs(nodeId)), expected.outputs, `${path}.outputs`, failures);
+      }
+    });
+
+    return failures;
+  }
+
+  /**
+   * Assert the run meets an expectation
+   * @throws FlowAssertionError listing every mismatch
+   */
+  assert(expectation: FlowExpectation): void {
+    const failures = this.check(expectation);
+    if (failures.length > 0) {
+      throw new FlowAssertionError(failures);
+    }
+  }
+
+  /**
+   * Assert on a single node
+   * @throws FlowAssertionError listing every mismatch
+   */
+  assertNode(nodeId: string, expectation: NodeExpectation): void {
+    this.assert({ nodes: { [nodeId]: expectation } });
+  }
+
+  /**
+   * Stable, JSON-safe view of the run for snapshot testing
+   *
+   * @example
+   * expect(run.snapshot()).toMatchSnapshot();
+   */
+  snapshot(): FlowSnapshot {
+    const nodes: FlowSnapshot['nodes'] = {};
+
+    this.flow.nodes.forEach(node => {
+      const execution = this.result.nodeExecutions[node.id];
+      if (!execution) return;
+
+      nodes[node.id] = {
+        status: execution.status,
+        attempts: execution.attempts,
+        ...(this.inputs(node.id) !== undefined && { inputs: toPlain(this.inputs(node.id)) }),
+        ...(execution.status === 'completed' && { outputs: toPlain(this.outputs(node.id)) }),
+        ...(execution.error !== undefined && { error: execution.error })
+      };
+    });
+
+    return {
+      success: this.result.success,
+      ...(this.result.cancelled && { cancelled: true }),
+      errors: (this.result.errors || []).map(({ nodeId, error }) => ({ nodeId, error })),
+      nodes
+    };
+  }
+}
+
+/**
+ * Capture the outputs of every completed node so they can be replayed as fixtures
+ */
+export function recordFixtures(result: ExecutionResult): FlowFixtures {
+  const fixtures: FlowFixtures = {};
+
+  Object.values(result.nodeExecutions).forEach(execution => {
+    if (execution.status === 'completed') {
+      fixtures[execution.nodeId] = toPlain(result.nodeResults[execution.nodeId]);
+    }
+  });
+
+  return fixtures;
+}
+
+/**
+ * Build the execute function used for a node under test
+ */
+function mockExecute(capsule: Capsule, nodeId: string, options: FlowTestOptions): Capsule['execute'] {
+  const mock = options.mocks?.[nodeId];
+  const fixture = options.fixtures?.[nodeId];
+
+  if (typeof mock === 'function') {
+    return async (inputs, config, context) => mock(inputs, config || {}, context!);
+  }
+  if (mock && 'error' in mock) {
+    return async () => {
+      throw new Error(mock.error);
+    };
+  }
+  if (mock || fixture) {
+    const outputs = mock ? mock.outputs : fixture!;
+    return async () => toPlain(outputs);
+  }
+  if (capsule.sideEffects && !options.allowSideEffects) {
+    return async () => {
+      throw new Error(`Node ${nodeId} (${capsule.name}) has side effects and is not mocked`);
+    };
+  }
+
+  return capsule.execute;
+}
+
+/**
+ * Run a flow with mocked nodes and record every execute call
+ *
+ * Nodes without a mock or fixture run their real capsule, except capsules
+ * with side effects, which fail unless `allowSideEffects` is set.
+ *
+ * @param flow - Flow to test, or a flow document resolved through `options.registry`
+ * @param options - Mocks, fixtures and execution context
+ * @returns The run, ready for assertions and snapshots
+ */
+export async function runFlowTest(
+  flow: Flow | FlowDocument,
+  options: FlowTestOptions = {}
+): Promise<FlowTestRun> {
+  const registry = options.registry ?? options.context?.registry;
+  let runtime: Flow;
+  if (isFlowDocument(flow)) {
+    if (!registry) {
+      throw new Error(`Cannot test flow document ${flow.id} without a capsule registry`);
+    }
+    runtime = registry.hydrateFlow(flow);
+  } else {
+    runtime = flow;
+  }
+
+  const nodeIds = new Set(runtime.nodes.map(n => n.id));
+  const unknown = [...Object.keys(options.mocks || {}), ...Object.keys(options.fixtures || {})]
+    .filter(id => !nodeIds.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`Mocked nodes not found in flow ${runtime.id}: ${[...new Set(unknown)].join(', ')}`);
+  }
+
+  const calls: Record<string, NodeCall[]> = {};
+
+  const tested: Flow = {
+    ...runtime,
+    nodes: runtime.nodes.map(node => {
+      const execute = mockExecute(node.capsule, node.id, options);
+      if (!execute) return node;
+
+      return {
+        ...node,
+        capsule: {
+          ...node.capsule,
+          execute: async (inputs: Record<string, any>, config?: Record<string, any>, context?: CapsuleContext) => {
+            const call: NodeCall = { inputs: { ...inputs }, config: { ...config } };
+            (calls[node.id] ??= []).push(call);
+
+            try {
+              call.outputs = await execute(inputs, config, context);
+              return call.outputs;
+            } catch (error) {
+              call.error = error instanceof Error ? error.message : String(error);
+              throw error;
+            }
+          }
+        }
+      };
+    })
+  };
+
+  const result = await executeFlow(tested, {
+    logger: { info: () => {}, warn: () => {}, error: () => {} },
+    ...options.context,
+    flowId: runtime.id,
+    variables: { ...options.context?.variables, ...options.variables },
+    env: { ...options.context?.env, ...options.env },
+    registry
+  });
+
+  return new FlowTestRun(runtime, result, calls);
+}
+
+/**
+ * A test case in a flow test file
+ */
+export interface FlowTestCase {
+  name: string;
+  /** Only fixed outputs and failures can be expressed in JSON */
+  mocks?: Record<string, { outputs: Record<string, any> } | { error: string }>;
+  /** Fixtures inline or as a path relative to the test file */
+  fixtures?: FlowFixtures | string;
+  variables?: Record<string, any>;
+  env?: Record<string, string>;
+  allowSideEffects?: boolean;
+  expect?: FlowExpectation;
+  /** Compare the run against the stored snapshot */
+  snapshot?: boolean;
+}
+
+/**
+ * Contents of a `*.flowtest.json` file
+ */
+export interface FlowTestFile {
+  /** Flow file, relative to the test file */
+  flow: string;
+  /** Fixtures shared by every test, overridden per test */
+  fixtures?: FlowFixtures | string;
+  tests: FlowTestCase[];
+}
+
+/**
+ * Outcome of one test case
+ */
+export interface FlowTestCaseResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+  /** Set when the snapshot was written instead of compared */
+  snapshotWritten?: boolean;
+  duration: number;
+}
+
+/**
+ * Outcome of a flow test file
+ */
+export interface FlowTestFileResult {
+  file: string;
+  passed: boolean;
+  tests: FlowTestCaseResult[];
+}
+
+/**
+ * Options for runFlowTestFile
+ */
+export interface FlowTestFileOptions {
+  registry: CapsuleRegistry;
+  /** Overwrite stored snapshots with the current results */
+  updateSnapshots?: boolean;
+  /** Fail on missing snapshots instead of writing them, defaults to whether CI is set */
+  ci?: boolean;
+}
+
+/**
+ * Suffix identifying flow test files
+ */
+export const FLOW_TEST_FILE_SUFFIX = '.flowtest.json';
+
+/**
+ * Path of the snapshot file kept next to a flow test file
+ */
+export function getSnapshotPath(testFile: string): string {
+  return join(dirname(testFile), '__snapshots__', `${basename(testFile)}.snap`);
+}
+
+async function readJson(filePath: string): Promise<any> {
+  return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+}
+
+async function readSnapshots(snapshotPath: string): Promise<Record<string, FlowSnapshot>> {
+  let source: string;
+  try {
+    source = await fs.readFile(snapshotPath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return {};
+    throw error;
+  }
+
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    throw new Error(`Invalid snapshot file ${snapshotPath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+async function resolveFixtures(fixtures: FlowFixtures | string | undefined, dir: string): Promise<FlowFixtures> {
+  if (typeof fixtures === 'string') {
+    return readJson(resolve(dir, fixtures));
+  }
+  return fixtures || {};
+}
+
+/**
+ * Run every test case of a flow test file
+ *
+ * Snapshots live in `__snapshots__/<file>.snap` next to the test file. A
+ * missing snapshot is written on first run, or fails the test in CI; a
+ * differing one fails the test unless `updateSnapshots` is set.
+ *
+ * @throws Error if the snapshot file exists but cannot be parsed
+ */
+export async function runFlowTestFile(
+  testFile: string,
+  options: FlowTestFileOptions
+): Promise<FlowTestFileResult> {
+  const dir = dirname(testFile);
+  const file: FlowTestFile = await readJson(testFile);
+  const flow = await loadFlowFile(resolve(dir, file.flow));
+  const sharedFixtures = await resolveFixtures(file.fixtures, dir);
+
+  const snapshotPath = getSnapshotPath(testFile);
+  const snapshots = await readSnapshots(snapshotPath);
+  const ci = options.ci ?? Boolean(process.env.CI);
+  let snapshotsChanged = false;
+
+  const tests: FlowTestCaseResult[] = [];
+
+  for (const testCase of file.tests) {
+    const start = Date.now();
+    const failures: string[] = [];
+    let snapshotWritten = false;
+
+    try {
+      const run = await runFlowTest(flow, {
+        registry: options.registry,
+        mocks: testCase.mocks,
+        fixtures: { ...sharedFixtures, ...(await resolveFixtures(testCase.fixtures, dir)) },
+        variables: testCase.variables,
+        env: testCase.env,
+        allowSideEffects: testCase.allowSideEffects
+      });
+
+      if (testCase.expect) {
+        failures.push(...run.check(testCase.expect));
+      }
+
+      if (testCase.snapshot) {
+        const snapshot = run.snapshot();
+        const stored = snapshots[testCase.name];
+
+        if (!stored && ci && !options.updateSnapshots) {
+          failures.push(`snapshot: missing from ${snapshotPath}, snapshots are not written in CI`);
+        } else if (!stored || options.updateSnapshots) {
+          snapshots[testCase.name] = snapshot;
+          snapshotsChanged = true;
+          snapshotWritten = true;
+        } else if (JSON.stringify(stored) !== JSON.stringify(snapshot)) {
+          const mismatches: string[] = [];
+          matchValue(snapshot, stored, 'snapshot', mismatches);
+          failures.push(
+            ...(mismatches.length > 0 ? mismatches : ['snapshot: result has entries the snapshot does not'])
+          );
+        }
+      }
+    } catch (error) {
+      failures.push(error instanceof Error ? error.message : String(error));
+    }
+
+    tests.push({
+      name: testCase.name,
+      passed: failures.length === 0,
+      failures,
+      ...(snapshotWritten && { snapshotWritten }),
+      duration: Date.now() - start
+    });
+  }
+
+  if (snapshotsChanged) {
+    await fs.mkdir(dirname(snapshotPath), { recursive: true });
+    await fs.writeFile(snapshotPath, `${JSON.stringify(snapshots, null, 2)}\n`, 'utf-8');
+  }
+
+  return { file: testFile, passed: tests.every(t => t.passed), tests };
+}
@@ -0,0 +1,380 @@
+/**
+ * @capsulas/core - Triggers
+ *
+ * Trigger capsules mark where a flow starts when an outside event arrives.
+ * Trigger sources deliver those events: cron schedules, inbound webhooks and
+ * queue messages. FlowHost connects the two.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { Capsule, ExecutionResult, PORT_TYPES, defineCapsule } from './types';
+
+/**
+ * Event that started an execution, passed in the execution context
+ */
+export interface TriggerInvocation {
+  /** Trigger node that fired */
+  nodeId: string;
+  type: string;
+  payload: any;
+  meta?: Record<string, any>;
+}
+
+/**
+ * Execution accepted by the host for a trigger event
+ */
+export interface TriggeredExecution {
+  executionId: string;
+  /** Settles when the execution finishes; rejects if it never started */
+  result: Promise<ExecutionResult>;
+}
+
+/**
+ * One trigger node a source delivers events to
+ */
+export interface TriggerSubscription {
+  flowId: string;
+  nodeId: string;
+  /** Config of the trigger node */
+  config: Record<string, any>;
+  /**
+   * Start an execution of the flow for an event
+   * @throws Error if the host is stopping or its queue is full
+   */
+  fire(payload: any, meta?: Record<string, any>): TriggeredExecution;
+}
+
+/**
+ * Delivers outside events to trigger nodes
+ */
+export interface TriggerSource {
+  /** Trigger type served, matching `Capsule.trigger` */
+  readonly type: string;
+  /** Start delivering events; resolves to a function that stops them */
+  subscribe(subscription: TriggerSubscription): Promise<() => void | Promise<void>>;
+  /** Release resources once the host has stopped */
+  close?(): Promise<void>;
+}
+
+/**
+ * Outputs shared by every trigger capsule
+ */
+const TRIGGER_OUTPUTS = [
+  { id: 'payload', name: 'Payload', type: PORT_TYPES.ANY },
+  { id: 'meta', name: 'Meta', type: PORT_TYPES.OBJECT, description: 'Details of the event' }
+] as const;
+
+/**
+ * Create a trigger capsule
+ *
+ * The node emits the event payload when it is the trigger that started the
+ * execution, and nothing otherwise: downstream nodes of triggers that did not
+ * fire are skipped.
+ *
+ * @param type - Trigger source type serving the capsule
+ */
+export function createTriggerCapsule(
+  type: string,
+  definition: Pick<Capsule, 'name' | 'description' | 'icon' | 'configSchema'>
+): Capsule {
+  return defineCapsule({
+    ...definition,
+    id: `core.trigger.${type}`,
+    version: '1.0.0',
+    category: 'integration',
+    control: 'branch',
+    trigger: type,
+    inputs: [],
+    outputs: TRIGGER_OUTPUTS,
+    execute: async (_inputs, _config, context) => {
+      const trigger = context?.execution.trigger;
+      if (!trigger || trigger.nodeId !== context!.nodeId) return {};
+
+      return { payload: trigger.payload ?? null, meta: trigger.meta ?? {} };
+    }
+  });
+}
+
+/**
+ * Starts a flow on a cron schedule
+ */
+export const CRON_TRIGGER_CAPSULE: Capsule = createTriggerCapsule('cron', {
+  name: 'Cron Trigger',
+  description: 'Start the flow on a schedule',
+  icon: '⏰',
+  configSchema: {
+    schedule: { type: 'string', required: true, description: 'Cron expression', placeholder: '*/5 * * * *' }
+  }
+});
+
+/**
+ * Starts a flow for each HTTP request on a path
+ */
+export const WEBHOOK_TRIGGER_CAPSULE: Capsule = createTriggerCapsule('webhook', {
+  name: 'Webhook Trigger',
+  description: 'Start the flow for each inbound HTTP request',
+  icon: '🪝',
+  configSchema: {
+    path: { type: 'string', required: true, placeholder: '/hooks/orders' },
+    method: { type: 'string', default: 'POST', enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] },
+    respond: {
+      type: 'string',
+      default: 'accepted',
+      enum: ['accepted', 'result'],
+      description: 'Answer 202 right away, or wait for the execution to finish'
+    }
+  }
+});
+
+/**
+ * Starts a flow for each queue job
+ */
+export const QUEUE_TRIGGER_CAPSULE: Capsule = createTriggerCapsule('queue', {
+  name: 'Queue Trigger',
+  description: 'Start the flow for each job taken from a queue',
+  icon: '📥',
+  configSchema: {
+    job: { type: 'string', description: 'Job name to handle; every job when empty' }
+  }
+});
+
+/**
+ * Subset of the cron capsule's CronService used by the cron trigger
+ */
+export interface TriggerScheduler {
+  schedule(options: { name: string; schedule: string; handler: () => Promise<void> | void }): string;
+  remove(jobId: string): void;
+}
+
+/**
+ * Trigger source firing cron triggers through the cron capsule
+ *
+ * @example
+ * const cron = await createCronService();
+ * host.addSource(new CronTriggerSource(cron));
+ */
+export class CronTriggerSource implements TriggerSource {
+  readonly type = 'cron';
+
+  constructor(private readonly scheduler: TriggerScheduler) {}
+
+  async subscribe(subscription: TriggerSubscription): Promise<() => void> {
+    const { flowId, nodeId, config } = subscription;
+    if (!config.schedule) {
+      throw new Error(`Cron trigger ${flowId}.${nodeId} has no schedule`);
+    }
+
+    const jobId = this.scheduler.schedule({
+      name: `${flowId}.${nodeId}`,
+      schedule: config.schedule,
+      handler: async () => {
+        await subscription.fire({ firedAt: new Date().toISOString() }, { schedule: config.schedule }).result;
+      }
+    });
+
+    return () => this.scheduler.remove(jobId);
+  }
+}
+
+/**
+ * Subset of the queue capsule's QueueService used by the queue trigger
+ */
+export interface TriggerQueue {
+  process(processor: (job: { id: string; name: string; data: any; attemptsMade?: number }) => Promise<any>): void;
+}
+
+/**
+ * Trigger source running a flow for each job of a queue
+ *
+ * A job fails, and is retried by the queue, when its flow execution fails.
+ */
+export class QueueTriggerSource implements TriggerSource {
+  readonly type = 'queue';
+  private subscriptions: TriggerSubscription[] = [];
+  private processing = false;
+
+  constructor(private readonly queue: TriggerQueue) {}
+
+  async subscribe(subscription: TriggerSubscription): Promise<() => void> {
+    this.subscriptions.push(subscription);
+
+    if (!this.processing) {
+      this.processing = true;
+      this.queue.process(job => this.handle(job));
+    }
+
+    return () => {
+      this.subscriptions = this.subscriptions.filter(s => s !== subscription);
+    };
+  }
+
+  private async handle(job: { id: string; name: string; data: any; attemptsMade?: number }): Promise<any> {
+    const subscription = this.subscriptions.find(s => !s.config.job || s.config.job === job.name);
+    if (!subscription) {
+      throw new Error(`No flow handles queue job ${job.name}`);
+    }
+
+    const result = await subscription.fire(job.data, {
+      jobId: job.id,
+      job: job.name,
+      attempt: (job.attemptsMade ?? 0) + 1
+    }).result;
+
+    if (!result.success) {
+      throw new Error(`Flow ${subscription.flowId} failed: ${(result.errors || []).map(e => e.error).join('; ')}`);
+    }
+    return { executionId: result.executionId };
+  }
+}
+
+/**
+ * Options for WebhookTriggerSource
+ */
+export interface WebhookTriggerSourceOptions {
+  /** Port to listen on; 0 picks a free port */
+  port?: number;
+  host?: string;
+  /** Largest accepted request body in bytes */
+  maxBodySize?: number;
+}
+
+/**
+ * Trigger source running an HTTP server for webhook triggers
+ *
+ * The server starts with the first subscription. JSON bodies are parsed;
+ * other bodies are passed as text.
+ */
+export class WebhookTriggerSource implements TriggerSource {
+  readonly type = 'webhook';
+  private routes = new Map<string, TriggerSubscription>();
+  private server?: Server;
+  private listening?: Promise<void>;
+
+  constructor(private readonly options: WebhookTriggerSourceOptions = {}) {}
+
+  /**
+   * Port the server listens on, once started
+   */
+  get port(): number | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : undefined;
+  }
+
+  async subscribe(subscription: TriggerSubscription): Promise<() => void> {
+    const { flowId, nodeId, config } = subscription;
+    if (!config.path) {
+      throw new Error(`Webhook trigger ${flowId}.${nodeId} has no path`);
+    }
+
+    const route = `${(config.method || 'POST').toUpperCase()} ${config.path}`;
+    if (this.routes.has(route)) {
+      throw new Error(`Webhook route ${route} is already used by flow ${this.routes.get(route)!.flowId}`);
+    }
+    this.routes.set(route, subscription);
+
+    await this.listen();
+
+    return () => {
+      this.routes.delete(route);
+    };
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = undefined;
+    this.listening = undefined;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private listen(): Promise<void> {
+    this.listening ??= new Promise((resolve, reject) => {
+      this.server = createServer((req, res) => {
+        this.handle(req, res).catch(error => {
+          respond(res, 500, { error: error instanceof Error ? error.message : String(error) });
+        });
+      });
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 0, this.options.host, () => resolve());
+    });
+    return this.listening;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const subscription = this.routes.get(`${req.method} ${url.pathname}`);
+    if (!subscription) {
+      respond(res, 404, { error: `No webhook trigger for ${req.method} ${url.pathname}` });
+      return;
+    }
+
+    const body = await readBody(req, this.options.maxBodySize ?? 1024 * 1024);
+    if (body === undefined) {
+      respond(res, 413, { error: 'Request body too large' });
+      return;
+    }
+
+    let payload: any = body;
+    if (body && req.headers['content-type']?.includes('application/json')) {
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        respond(res, 400, { error: 'Invalid JSON body' });
+        return;
+      }
+    }
+
+    let execution: TriggeredExecution;
+    try {
+      execution = subscription.fire(payload, {
+        method: req.method,
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        headers: req.headers
+      });
+    } catch (error) {
+      respond(res, 503, { error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    if (subscription.config.respond !== 'result') {
+      // Failures are reported by the host; the caller only learns the execution id
+      execution.result.catch(() => {});
+      respond(res, 202, { executionId: execution.executionId });
+      return;
+    }
+
+    const result = await execution.result;
+    respond(res, result.success ? 200 : 500, {
+      executionId: result.executionId,
+      success: result.success,
+      ...(result.errors && { errors: result.errors })
+    });
+  }
+}
+
+function respond(res: ServerResponse, status: number, body: Record<string, any>): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read a request body, undefined when it exceeds maxSize
+ */
+function readBody(req: IncomingMessage, maxSize: number): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) tooLarge = true;
+      if (!tooLarge) chunks.push(chunk);
+    });
+    req.on('end', () => resolve(tooLarge ? undefined : Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
@@ -4,6 +4,17 @@
  * This module contains all core type definitions used across the framework.
  */
 
+import type { ExecutionEventEmitter } from './events';
+import type { CheckpointStore } from './checkpoint';
+import type { ExecutionHistoryStore } from './history';
+import type { NodeOutputCache } from './cache';
+import type { SecretProvider } from './secrets';
+import type { TriggerInvocation } from './triggers';
+import type { ServiceContainer } from './services';
+import type { PortTypeRegistry } from './port-types';
+import type { CapsuleRegistry } from './registry';
+import type { JsonSchema } from './schema';
+
 /**
  * Port type definitions - Used for type-safe connections between capsules
  */
@@ -11,6 +22,8 @@ export interface PortType {
   id: string;
   name: string;
   color: string;
+  /** Payload schema every value of this type must match */
+  schema?: JsonSchema;
 }
 
 export const PORT_TYPES = {
@@ -29,6 +42,43 @@ export const PORT_TYPES = {
   ANY: { id: 'any', name: 'Any', color: '#9e9e9e' }
 } as const;
 
+/**
+ * TypeScript type of the values carried by each port type id
+ * Extend it through declaration merging when adding port types.
+ */
+export interface PortValueTypes {
+  auth: string;
+  user: Record<string, unknown>;
+  data: Record<string, unknown> | unknown[];
+  string: string;
+  number: number;
+  object: Record<string, unknown>;
+  array: unknown[];
+  file: unknown;
+  event: Record<string, unknown>;
+  message: Record<string, unknown>;
+  job: Record<string, unknown>;
+  email: Record<string, unknown>;
+  any: any;
+}
+
+/**
+ * TypeScript type of the values carried by a port type
+ */
+export type PortValue<T extends PortType> = string extends T['id']
+  ? any
+  : T['id'] extends keyof PortValueTypes
+    ? PortValueTypes[T['id']]
+    : unknown;
+
+/**
+ * TypeScript type of the values carried by a port
+ * Stream ports carry an AsyncIterable of values of their type.
+ */
+export type PortData<P extends Port> = P extends { stream: true }
+  ? AsyncIterable<PortValue<P['type']>>
+  : PortValue<P['type']>;
+
 /**
  * Port definition for capsule inputs/outputs
  */
@@ -38,6 +88,10 @@ export interface Port {
   type: PortType;
   required?: boolean;
   description?: string;
+  /** Payload schema for this port, overrides the schema of its type */
+  schema?: JsonSchema;
+  /** Port carries an AsyncIterable whose items are of the port type; see streams */
+  stream?: boolean;
 }
 
 /**
@@ -53,22 +107,158 @@ export type CapsuleCategory =
   | 'monitoring'
   | 'integration';
 
+/**
+ * Description of one node config key
+ */
+export interface ConfigField {
+  type: string;
+  required?: boolean;
+  description?: string;
+  default?: any;
+  enum?: readonly any[];
+  /** Value is a credential and should not be displayed */
+  secret?: boolean;
+  placeholder?: string;
+}
+
+/**
+ * Control behaviour of a capsule inside a flow
+ * - branch: output ports missing from the result are branches not taken
+ * - merge: runs when at least one incoming branch ran
+ */
+export type CapsuleControl = 'branch' | 'merge';
+
+/**
+ * Inputs received by execute for a list of input ports
+ * Required ports are always present; ports declared without literal ids
+ * (no `as const`) give an untyped record.
+ */
+export type CapsuleInputs<Ports extends readonly Port[]> = string extends Ports[number]['id']
+  ? Record<string, any>
+  : {
+      [P in Ports[number] as P extends { required: true } ? P['id'] : never]: PortData<P>;
+    } & {
+      [P in Ports[number] as P extends { required: true } ? never : P['id']]?: PortData<P>;
+    };
+
+/**
+ * Outputs returned by execute for a list of output ports
+ * Every output is optional: a port left out of the result is not emitted.
+ */
+export type CapsuleOutputs<Ports extends readonly Port[]> = string extends Ports[number]['id']
+  ? Record<string, any>
+  : { [P in Ports[number] as P['id']]?: PortData<P> };
+
 /**
  * Capsule definition - The core building block
+ *
+ * The type parameters carry the declared ports so `execute` is checked
+ * against them; see defineCapsule.
  */
-export interface Capsule {
+export interface Capsule<
+  I extends readonly Port[] = readonly Port[],
+  O extends readonly Port[] = readonly Port[]
+> {
   id: string;
   name: string;
   version?: string;
   description: string;
   icon: string;
   category: CapsuleCategory;
-  inputs: Port[];
-  outputs: Port[];
+  inputs: I;
+  outputs: O;
   config?: Record<string, any>;
-  execute?: (inputs: Record<string, any>, config?: Record<string, any>) => Promise<Record<string, any>>;
+  /** Node config keys the capsule accepts, keyed by name */
+  configSchema?: Record<string, ConfigField>;
+  /** The capsule changes something outside the flow (sends, writes, charges...) */
+  sideEffects?: boolean;
+  control?: CapsuleControl;
+  /** Trigger source type that starts flows from this capsule, e.g. 'cron' */
+  trigger?: string;
+  /** Flow wrapped by this capsule, set by createSubflowCapsule */
+  subflow?: Flow;
+  /** The capsule executes flows of its own, e.g. maps and subflows */
+  nested?: boolean;
+  /**
+   * Set to false when a replay cannot run the capsule again faithfully,
+   * e.g. code whose clock and random values are not recorded
+   */
+  replayable?: boolean;
+  /**
+   * Set to false when the outputs depend on more than config and inputs,
+   * e.g. values captured by a factory, so the output cache never reuses them
+   */
+  memoize?: boolean;
+  execute?(
+    inputs: CapsuleInputs<I>,
+    config?: Record<string, any>,
+    context?: CapsuleContext
+  ): Promise<CapsuleOutputs<O>>;
+}
+
+/**
+ * Runtime information passed to a capsule's execute function
+ */
+export interface CapsuleContext {
+  nodeId: string;
+  /** Id of the flow the node belongs to */
+  flowId: string;
+  execution: ExecutionContext;
+  /** Aborted when the execution is cancelled, passes its deadline or the attempt times out */
+  signal: AbortSignal;
+  /** Services of this execution, e.g. `await context.services.get('database', config)` */
+  services?: ServiceContainer;
+  /** Attach the result of a nested flow execution to this node */
+  reportSubflowResult?: (result: ExecutionResult) => void;
 }
 
+/**
+ * Reference to a port on a node inside a flow
+ */
+export interface PortRef {
+  nodeId: string;
+  portId: string;
+}
+
+/**
+ * Retry settings for a node
+ */
+export interface RetryPolicy {
+  /** Number of retries after the first failed attempt */
+  retries: number;
+  backoff?: 'fixed' | 'exponential';
+  /** Delay before the first retry in milliseconds */
+  delay?: number;
+  /** Upper bound for exponential backoff in milliseconds */
+  maxDelay?: number;
+}
+
+/**
+ * What the executor does once a node has failed
+ * - stop: start no further nodes and fail the flow
+ * - continue: record the error, skip dependents, keep running independent nodes
+ * - route: emit the error on the node's `error` output port as a handled failure
+ */
+export type OnErrorMode = 'stop' | 'continue' | 'route';
+
+/**
+ * Execution policy for a node
+ */
+export interface NodePolicy {
+  retry?: RetryPolicy;
+  /** Timeout per attempt in milliseconds */
+  timeout?: number;
+  /** Defaults to 'continue' */
+  onError?: OnErrorMode;
+  /** Set to false to always execute the node, even with an output cache */
+  memoize?: boolean;
+}
+
+/**
+ * Output port carrying the error of a node whose policy routes errors
+ */
+export const ERROR_PORT_ID = 'error';
+
 /**
  * Node instance in the visual flow
  */
@@ -77,6 +267,7 @@ export interface Node {
   capsule: Capsule;
   position: { x: number; y: number };
   config?: Record<string, any>;
+  policy?: NodePolicy;
 }
 
 /**
@@ -97,6 +288,7 @@ export interface Connection {
 export interface Flow {
   id: string;
   name: string;
+  version?: string;
   description?: string;
   nodes: Node[];
   connections: Connection[];
@@ -113,6 +305,8 @@ export interface Flow {
  */
 export interface ExecutionContext {
   flowId: string;
+  /** Identifies this run in events and results; generated when omitted */
+  executionId?: string;
   variables: Record<string, any>;
   env: Record<string, string>;
   logger?: {
@@ -120,31 +314,143 @@ export interface ExecutionContext {
     error: (message: string) => void;
     warn: (message: string) => void;
   };
+  /**
+   * Maximum number of nodes executing at the same time.
+   * Defaults to unlimited: every node starts as soon as its upstream nodes finish.
+   */
+  maxConcurrency?: number;
+  /**
+   * Receives typed lifecycle events while the flow runs, including those of
+   * nested map and subflow executions under their own execution ids
+   */
+  events?: ExecutionEventEmitter;
+  /** Persists a checkpoint after every node so the run can be resumed */
+  checkpoints?: CheckpointStore;
+  /** Keeps a record of the execution, with node inputs and outputs, once it finishes */
+  history?: ExecutionHistoryStore;
+  /** Ids of the enclosing flows when running as a subflow, outermost first */
+  parentFlowIds?: string[];
+  /** Resolves capsule references when executing a flow document */
+  registry?: CapsuleRegistry;
+  /** Cancels the execution when aborted */
+  signal?: AbortSignal;
+  /** Time (ms since epoch) after which the execution is cancelled */
+  deadline?: number;
+  /** Reuses the outputs of pure nodes whose config and inputs are unchanged */
+  cache?: NodeOutputCache;
+  /** Resolves `{ $secret: "NAME" }` references in node config */
+  secrets?: SecretProvider;
+  /** Event that started the execution, set by FlowHost */
+  trigger?: TriggerInvocation;
+  /** Capsule services shared by the nodes; see ServiceContainer */
+  services?: ServiceContainer;
+  /** Awaited around every node, e.g. by a DebugSession */
+  interceptor?: NodeInterceptor;
+  /** Coercions applied to values crossing connections; defaults to defaultPortTypes */
+  portTypes?: PortTypeRegistry;
+}
+
+/**
+ * Node about to run or just completed, as seen by a NodeInterceptor
+ * Values are redacted copies: editing them has no effect.
+ */
+export interface NodeInterception {
+  flowId: string;
+  executionId: string;
+  nodeId: string;
+  inputs: Record<string, any>;
+  /** Node config after template and secret resolution */
+  config: Record<string, any>;
+  /** Incoming connections carrying a value */
+  connections: Connection[];
+}
+
+/**
+ * Hooks awaited by the executor around each node
+ *
+ * Each hook may return values to override: inputs before the capsule runs,
+ * outputs after it completed. Ports left out keep their value.
+ */
+export interface NodeInterceptor {
+  beforeNode?(node: NodeInterception): Promise<Record<string, any> | void> | Record<string, any> | void;
+  afterNode?(
+    node: NodeInterception & { outputs: Record<string, any> }
+  ): Promise<Record<string, any> | void> | Record<string, any> | void;
+}
+
+/**
+ * Status of a single node after a flow execution
+ */
+export type NodeExecutionStatus = 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+/**
+ * Per-node execution report
+ */
+export interface NodeExecution {
+  nodeId: string;
+  status: NodeExecutionStatus;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  /** Number of execute attempts, 0 when the node did not run */
+  attempts: number;
+  error?: string;
+  /** Outputs came from the output cache instead of executing the capsule */
+  cached?: boolean;
 }
 
 /**
  * Result of executing a flow
  */
 export interface ExecutionResult {
+  executionId: string;
   success: boolean;
   nodeResults: Record<string, any>;
   errors?: Array<{
     nodeId: string;
     error: string;
   }>;
+  nodeExecutions: Record<string, NodeExecution>;
+  /** Results of subflow nodes, keyed by node id */
+  subflowResults?: Record<string, ExecutionResult>;
+  /** True when the execution was cancelled or ran past its deadline */
+  cancelled?: boolean;
   executionTime: number;
 }
 
 /**
  * Capsule definition function for creating custom capsules
  */
-export type DefineCapsuleConfig = Omit<Capsule, 'id'> & {
+export type DefineCapsuleConfig<
+  I extends readonly Port[] = readonly Port[],
+  O extends readonly Port[] = readonly Port[]
+> = Omit<Capsule<I, O>, 'id'> & {
   id?: string;
 };
 
-export function defineCapsule(config: DefineCapsuleConfig): Capsule {
+/**
+ * Define a capsule
+ *
+ * Declare the ports `as const` to have `execute` typed from them:
+ * inputs and outputs are keyed by port id and typed by port type.
+ *
+ * @example
+ * defineCapsule({
+ *   name: 'Add',
+ *   inputs: [
+ *     { id: 'a', name: 'A', type: PORT_TYPES.NUMBER, required: true },
+ *     { id: 'b', name: 'B', type: PORT_TYPES.NUMBER, required: true }
+ *   ] as const,
+ *   outputs: [{ id: 'sum', name: 'Sum', type: PORT_TYPES.NUMBER }] as const,
+ *   execute: async ({ a, b }) => ({ sum: a + b }),
+ *   ...
+ * });
+ */
+export function defineCapsule<I extends readonly Port[], O extends readonly Port[]>(
+  config: DefineCapsuleConfig<I, O>
+): Capsule<I, O> {
   return {
     id: config.id || config.name.toLowerCase().replace(/\s+/g, '-'),
     ...config
-  } as Capsule;
+  } as Capsule<I, O>;
 }
@@ -0,0 +1,10 @@
+/**
+ * @capsulas/core - Shared utilities
+ */
+
+/**
+ * Generate a unique execution id
+ */
+export function generateExecutionId(): string {
+  return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -2,122 +2,513 @@
  * @capsulas/core - Type validation and compatibility checking
  */
 
-import { PortType, PORT_TYPES } from './types';
-
-/**
- * Port compatibility rules
- * Defines which port types can connect to each other
- */
-const COMPATIBILITY_RULES: Record<string, string[]> = {
-  user: ['object'],
-  auth: ['string'],
-  data: ['object', 'array'],
-  message: ['object'],
-  event: ['object'],
-  job: ['object'],
-  email: ['object']
-};
+import { ERROR_PORT_ID, Connection, Port, PortType, PORT_TYPES } from './types';
+import { findSubflowCycle } from './subflow';
+import { JsonSchema, SchemaViolation, isSchemaAssignable, validateSchema } from './schema';
+import { ExpressionType, checkExpression, findTemplates, formatReference } from './expressions';
+import { detectInlineCredential, isSecretReference } from './secrets';
+import { PortTypeRegistry, defaultPortTypes } from './port-types';
 
 /**
  * Check if two port types are compatible for connection
  *
+ * Types are compatible when they are the same, one is ANY, the source type
+ * has the target as a parent, or a coercion converts between them.
+ *
  * @param sourceType - The output port type
  * @param targetType - The input port type
+ * @param portTypes - Registry of port types and coercions
  * @returns true if ports can be connected, false otherwise
  */
-export function isPortCompatible(sourceType: string, targetType: string): boolean {
-  // ANY type is compatible with everything
-  if (sourceType === 'any' || targetType === 'any') {
-    return true;
+export function isPortCompatible(
+  sourceType: string,
+  targetType: string,
+  portTypes: PortTypeRegistry = defaultPortTypes
+): boolean {
+  return portTypes.isCompatible(sourceType, targetType);
+}
+
+/**
+ * Get all compatible port types for a given source type
+ *
+ * @param sourceType - The source port type
+ * @param portTypes - Registry of port types and coercions
+ * @returns Array of compatible port type IDs
+ */
+export function getCompatibleTypes(sourceType: string, portTypes: PortTypeRegistry = defaultPortTypes): string[] {
+  return portTypes.getCompatibleTypes(sourceType);
+}
+
+/**
+ * Payload schema of a port: its own schema, else the schema of its type
+ */
+export function getPortSchema(port: Pick<Port, 'type' | 'schema'>): JsonSchema | undefined {
+  return port.schema ?? port.type.schema;
+}
+
+/**
+ * Port type name as shown in diagnostics, e.g. "String stream"
+ */
+function describePortType(port: Pick<Port, 'type' | 'stream'>): string {
+  return port.stream ? `${port.type.name} stream` : port.type.name;
+}
+
+/**
+ * Raised when a value crossing a connection does not match the input port schema
+ */
+export class PortValidationError extends Error {
+  constructor(
+    public readonly connection: Connection,
+    public readonly violations: SchemaViolation[]
+  ) {
+    super(
+      `Connection ${connection.id} (${connection.fromNode}.${connection.fromPort} → ${connection.toNode}.${connection.toPort}): ` +
+        violations.map(v => `${v.path}: ${v.message}`).join('; ')
+    );
+    this.name = 'PortValidationError';
   }
+}
+
+/**
+ * Validate a value crossing a connection against the target port schema
+ *
+ * @throws PortValidationError if the value does not match
+ */
+export function validateConnectionValue(connection: Connection, port: Port, value: unknown): void {
+  const schema = getPortSchema(port);
+  if (!schema || value === undefined) return;
 
-  // Same types are compatible
-  if (sourceType === targetType) {
-    return true;
+  const violations = validateSchema(value, schema);
+  if (violations.length > 0) {
+    throw new PortValidationError(connection, violations);
   }
+}
 
-  // Check custom compatibility rules
-  if (COMPATIBILITY_RULES[sourceType]) {
-    return COMPATIBILITY_RULES[sourceType].includes(targetType);
+/**
+ * Convert a value crossing a connection to the input port type
+ *
+ * @throws Error naming the connection if the coercion fails
+ */
+export function coerceConnectionValue(
+  connection: Connection,
+  fromPort: Port,
+  toPort: Port,
+  value: unknown,
+  portTypes: PortTypeRegistry = defaultPortTypes
+): unknown {
+  try {
+    return portTypes.coerce(fromPort.type.id, toPort.type.id, value);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Connection ${connection.id}: cannot convert ${fromPort.type.name} to ${toPort.type.name}: ${message}`);
   }
+}
 
-  return false;
+/**
+ * Values available to config templates at execution time
+ * When provided, references to missing keys are reported
+ */
+export interface ValidateFlowOptions {
+  env?: Record<string, string>;
+  variables?: Record<string, any>;
+  /** Port types and coercions; defaults to defaultPortTypes */
+  portTypes?: PortTypeRegistry;
 }
 
 /**
- * Get all compatible port types for a given source type
- *
- * @param sourceType - The source port type
- * @returns Array of compatible port type IDs
+ * Expression type carried by a port type
+ */
+function portTypeToExpressionType(portTypeId: string): ExpressionType {
+  switch (portTypeId) {
+    case 'string':
+    case 'auth':
+      return 'string';
+    case 'number':
+      return 'number';
+    case 'array':
+      return 'array';
+    case 'any':
+    case 'data':
+    case 'file':
+      return 'unknown';
+    default:
+      return 'object';
+  }
+}
+
+function valueToExpressionType(value: any): ExpressionType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object' ? type : 'unknown';
+}
+
+/**
+ * Collect the ids of every node upstream of `nodeId`
  */
-export function getCompatibleTypes(sourceType: string): string[] {
-  if (sourceType === 'any') {
-    return Object.keys(PORT_TYPES).map(key => PORT_TYPES[key as keyof typeof PORT_TYPES].id);
+function getUpstreamNodes(nodeId: string, connections: any[]): Set<string> {
+  const upstream = new Set<string>();
+  const pending = [nodeId];
+
+  while (pending.length > 0) {
+    const current = pending.pop();
+    for (const conn of connections) {
+      if (conn.toNode === current && !upstream.has(conn.fromNode)) {
+        upstream.add(conn.fromNode);
+        pending.push(conn.fromNode);
+      }
+    }
   }
 
-  const compatible = [sourceType];
+  return upstream;
+}
+
+/**
+ * Type-check the references of a config template for one node
+ */
+function resolveTemplateReference(
+  root: string,
+  path: Array<string | number>,
+  node: any,
+  nodes: any[],
+  connections: any[],
+  options: ValidateFlowOptions
+): ExpressionType | { error: string } {
+  const [key, property, portId] = path;
+  const reference = formatReference(root, path.slice(0, 1));
+
+  switch (root) {
+    case 'env':
+      if (key === undefined) return 'object';
+      if (options.env && !(key in options.env)) return { error: `Unknown reference "${reference}"` };
+      return path.length === 1 ? 'string' : 'unknown';
+
+    case 'variables':
+      if (key === undefined) return 'object';
+      if (!options.variables) return 'unknown';
+      if (!(key in options.variables)) return { error: `Unknown reference "${reference}"` };
+      return path.length === 1 ? valueToExpressionType(options.variables[key]) : 'unknown';
+
+    case 'nodes': {
+      if (key === undefined) return 'object';
+
+      const source = nodes.find(n => n.id === key);
+      if (!source) return { error: `Unknown reference "${reference}": no such node` };
+      if (!getUpstreamNodes(node.id, connections).has(String(key))) {
+        return { error: `"${reference}" is not upstream of ${node.id} and may not have run` };
+      }
+
+      if (property === undefined) return 'object';
+      if (property !== 'output') {
+        return { error: `Unknown property "${property}" on ${reference}, expected "output"` };
+      }
+
+      if (portId === undefined) return 'object';
+      const port = portId === ERROR_PORT_ID && source.policy?.onError === 'route'
+        ? { type: PORT_TYPES.ANY }
+        : source.capsule.outputs.find((p: any) => p.id === portId);
+      if (!port) return { error: `Unknown output port "${portId}" on ${source.capsule.name}` };
+
+      return path.length === 3 ? portTypeToExpressionType(port.type.id) : 'unknown';
+    }
+
+    default:
+      return { error: `Unknown reference "${root}", expected env, variables or nodes` };
+  }
+}
+
+/**
+ * How serious a diagnostic is; only errors make a flow invalid
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Kind of problem reported by diagnoseFlow
+ */
+export type DiagnosticCode =
+  | 'missing-node'
+  | 'missing-port'
+  | 'incompatible-types'
+  | 'incompatible-schemas'
+  | 'missing-required-input'
+  | 'multiple-connections'
+  | 'cycle'
+  | 'unreachable-node'
+  | 'disconnected-node'
+  | 'unknown-config-key'
+  | 'unused-output'
+  | 'invalid-template'
+  | 'subflow-cycle'
+  | 'inline-secret';
+
+/**
+ * A problem found in a flow, located precisely enough to highlight it
+ */
+export interface FlowDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  nodeId?: string;
+  connectionId?: string;
+  portId?: string;
+  /** Location inside the node, e.g. "config.url" */
+  path?: string;
+  /** How to fix the problem */
+  hint?: string;
+}
+
+/**
+ * Edit distance between two strings, used to suggest config keys
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
 
-  if (COMPATIBILITY_RULES[sourceType]) {
-    compatible.push(...COMPATIBILITY_RULES[sourceType]);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
   }
 
-  return compatible;
+  return previous[b.length];
 }
 
 /**
- * Validate a complete flow for type safety
+ * Find the cycles of the node graph, one per strongly connected component
+ * Each cycle is returned as a closed path of node ids, e.g. [a, b, a].
+ */
+function findCycles(nodeIds: string[], edges: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  const connect = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of edges.get(id) || []) {
+      if (!index.has(next)) {
+        connect(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  for (const id of nodeIds) {
+    if (!index.has(id)) connect(id);
+  }
+
+  return components
+    .filter(component => component.length > 1 || (edges.get(component[0]) || []).includes(component[0]))
+    .map(component => {
+      // Shortest path from the component's first node (in flow order) back to itself
+      const members = new Set(component);
+      const start = nodeIds.find(id => members.has(id))!;
+      const previous = new Map<string, string>();
+      const queue = [start];
+
+      while (queue.length > 0 && !previous.has(start)) {
+        const current = queue.shift()!;
+        for (const next of edges.get(current) || []) {
+          if (members.has(next) && !previous.has(next)) {
+            previous.set(next, current);
+            queue.push(next);
+          }
+        }
+      }
+
+      const path: string[] = [];
+      for (let id = previous.get(start)!; id !== start; id = previous.get(id)!) {
+        path.unshift(id);
+      }
+      path.unshift(start);
+
+      return [...path, start];
+    });
+}
+
+/**
+ * Every leaf value of a node config with its dotted path and own key
+ * Secret references are leaves the caller never sees.
+ */
+function walkConfig(config: any, prefix = ''): Array<{ path: string; key: string; value: any }> {
+  if (config === null || typeof config !== 'object' || isSecretReference(config)) return [];
+
+  return Object.entries(config).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return value !== null && typeof value === 'object'
+      ? walkConfig(value, path)
+      : [{ path, key, value }];
+  });
+}
+
+/**
+ * Output ports of other nodes read by a node's config templates
+ * `nodes.<id>.output` without a port marks every port as read ('*').
+ */
+function findTemplateOutputReads(node: any): Array<{ nodeId: string; portId: string }> {
+  const reads: Array<{ nodeId: string; portId: string }> = [];
+
+  for (const template of findTemplates(node.config)) {
+    checkExpression(template.expression, (root, path) => {
+      if (root === 'nodes' && path.length >= 2 && path[1] === 'output') {
+        reads.push({ nodeId: String(path[0]), portId: path.length > 2 ? String(path[2]) : '*' });
+      }
+      return 'unknown';
+    });
+  }
+
+  return reads;
+}
+
+/**
+ * Check a flow and report every problem found
+ *
+ * Errors make the flow invalid; warnings and infos point at likely mistakes
+ * such as disconnected nodes, unknown config keys or ignored results of
+ * side effects.
  *
  * @param nodes - Array of nodes in the flow
  * @param connections - Array of connections in the flow
- * @returns Object with validation result and any errors
+ * @param options - Execution values used to check config templates
+ * @returns Diagnostics, errors first
  */
-export function validateFlow(
+export function diagnoseFlow(
   nodes: any[],
-  connections: any[]
-): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
+  connections: any[],
+  options: ValidateFlowOptions = {}
+): FlowDiagnostic[] {
+  const diagnostics: FlowDiagnostic[] = [];
+  const report = (diagnostic: FlowDiagnostic) => diagnostics.push(diagnostic);
+  const nodesById = new Map<string, any>(nodes.map(n => [n.id, n]));
+  const validConnections: any[] = [];
 
   // Validate each connection
   for (const conn of connections) {
-    const fromNode = nodes.find(n => n.id === conn.fromNode);
-    const toNode = nodes.find(n => n.id === conn.toNode);
+    const fromNode = nodesById.get(conn.fromNode);
+    const toNode = nodesById.get(conn.toNode);
 
     if (!fromNode) {
-      errors.push(`Connection ${conn.id}: Source node ${conn.fromNode} not found`);
+      report({
+        code: 'missing-node',
+        severity: 'error',
+        message: `Connection ${conn.id}: Source node ${conn.fromNode} not found`,
+        connectionId: conn.id,
+        hint: 'Remove the connection or add the missing node'
+      });
       continue;
     }
 
     if (!toNode) {
-      errors.push(`Connection ${conn.id}: Target node ${conn.toNode} not found`);
+      report({
+        code: 'missing-node',
+        severity: 'error',
+        message: `Connection ${conn.id}: Target node ${conn.toNode} not found`,
+        connectionId: conn.id,
+        hint: 'Remove the connection or add the missing node'
+      });
       continue;
     }
 
-    const fromPort = fromNode.capsule.outputs.find((p: any) => p.id === conn.fromPort);
+    // Nodes routing their errors expose an implicit error output
+    const fromPort = conn.fromPort === ERROR_PORT_ID && fromNode.policy?.onError === 'route'
+      ? { id: ERROR_PORT_ID, name: 'Error', type: PORT_TYPES.ANY }
+      : fromNode.capsule.outputs.find((p: any) => p.id === conn.fromPort);
     const toPort = toNode.capsule.inputs.find((p: any) => p.id === conn.toPort);
 
     if (!fromPort) {
-      errors.push(
-        `Connection ${conn.id}: Output port ${conn.fromPort} not found on ${fromNode.capsule.name}`
-      );
+      report({
+        code: 'missing-port',
+        severity: 'error',
+        message: `Connection ${conn.id}: Output port ${conn.fromPort} not found on ${fromNode.capsule.name}`,
+        nodeId: fromNode.id,
+        connectionId: conn.id,
+        portId: conn.fromPort,
+        hint: conn.fromPort === ERROR_PORT_ID
+          ? `Set policy.onError to "route" on ${fromNode.id} to expose its error port`
+          : `Available outputs: ${fromNode.capsule.outputs.map((p: any) => p.id).join(', ') || 'none'}`
+      });
       continue;
     }
 
     if (!toPort) {
-      errors.push(
-        `Connection ${conn.id}: Input port ${conn.toPort} not found on ${toNode.capsule.name}`
-      );
+      report({
+        code: 'missing-port',
+        severity: 'error',
+        message: `Connection ${conn.id}: Input port ${conn.toPort} not found on ${toNode.capsule.name}`,
+        nodeId: toNode.id,
+        connectionId: conn.id,
+        portId: conn.toPort,
+        hint: `Available inputs: ${toNode.capsule.inputs.map((p: any) => p.id).join(', ') || 'none'}`
+      });
       continue;
     }
 
-    if (!isPortCompatible(fromPort.type.id, toPort.type.id)) {
-      errors.push(
-        `Connection ${conn.id}: Incompatible types - ${fromPort.name} (${fromPort.type.name}) → ${toPort.name} (${toPort.type.name})`
-      );
+    validConnections.push(conn);
+
+    const portTypes = options.portTypes ?? defaultPortTypes;
+    // A stream read by a plain input arrives collected into an array;
+    // a plain array read by a stream input is streamed item by item
+    const sourceType = fromPort.stream && !toPort.stream ? 'array' : fromPort.type.id;
+    const streamsArray = !fromPort.stream && toPort.stream && portTypes.isAssignable(sourceType, 'array');
+    if (!streamsArray && !isPortCompatible(sourceType, toPort.type.id, portTypes)) {
+      report({
+        code: 'incompatible-types',
+        severity: 'error',
+        message: `Connection ${conn.id}: Incompatible types - ${fromPort.name} (${describePortType(fromPort)}) → ${toPort.name} (${describePortType(toPort)})`,
+        nodeId: toNode.id,
+        connectionId: conn.id,
+        portId: toPort.id,
+        hint: `${describePortType(fromPort)} outputs connect to: ${getCompatibleTypes(sourceType, portTypes).join(', ')}`
+      });
+      continue;
+    }
+
+    // Ports declaring schemas must agree structurally, unless the value is converted
+    const fromSchema = getPortSchema(fromPort);
+    const toSchema = getPortSchema(toPort);
+    const sameShape = Boolean(fromPort.stream) === Boolean(toPort.stream);
+    if (fromSchema && toSchema && sameShape && portTypes.isAssignable(fromPort.type.id, toPort.type.id)) {
+      for (const mismatch of isSchemaAssignable(fromSchema, toSchema)) {
+        report({
+          code: 'incompatible-schemas',
+          severity: 'error',
+          message: `Connection ${conn.id}: Incompatible schemas - ${fromPort.name} → ${toPort.name} at ${mismatch.path}: ${mismatch.message}`,
+          nodeId: toNode.id,
+          connectionId: conn.id,
+          portId: toPort.id,
+          path: mismatch.path
+        });
+      }
     }
   }
 
-  // Check for required inputs
   for (const node of nodes) {
+    // Check for required inputs
     const requiredInputs = node.capsule.inputs.filter((p: any) => p.required);
 
     for (const input of requiredInputs) {
@@ -126,15 +517,223 @@ export function validateFlow(
       );
 
       if (!hasConnection && !node.config?.[input.id]) {
-        errors.push(
-          `Node ${node.capsule.name}: Required input "${input.name}" is not connected or configured`
-        );
+        report({
+          code: 'missing-required-input',
+          severity: 'error',
+          message: `Node ${node.capsule.name}: Required input "${input.name}" is not connected or configured`,
+          nodeId: node.id,
+          portId: input.id,
+          hint: `Connect an output to "${input.id}" or set config.${input.id}`
+        });
+      }
+    }
+
+    // Only merge capsules combine several connections on one input
+    if (node.capsule.control !== 'merge') {
+      for (const input of node.capsule.inputs) {
+        const incoming = validConnections.filter(c => c.toNode === node.id && c.toPort === input.id);
+        if (incoming.length > 1) {
+          report({
+            code: 'multiple-connections',
+            severity: 'error',
+            message: `Node ${node.capsule.name}: Input "${input.name}" has ${incoming.length} connections (${incoming.map(c => c.id).join(', ')})`,
+            nodeId: node.id,
+            portId: input.id,
+            hint: 'Keep one connection, or join the branches with a core.merge node first'
+          });
+        }
+      }
+    }
+
+    // Check {{ }} templates in node configs
+    for (const template of findTemplates(node.config)) {
+      const issues = checkExpression(template.expression, (root, path) =>
+        resolveTemplateReference(root, path, node, nodes, connections, options)
+      );
+
+      for (const issue of issues) {
+        report({
+          code: 'invalid-template',
+          severity: 'error',
+          message: `Node ${node.capsule.name}: config.${template.location}: ${issue}`,
+          nodeId: node.id,
+          path: `config.${template.location}`
+        });
+      }
+    }
+
+    // Check subflows for circular references
+    if (node.capsule.subflow) {
+      const cycle = findSubflowCycle(node.capsule.subflow);
+      if (cycle) {
+        report({
+          code: 'subflow-cycle',
+          severity: 'error',
+          message: `Node ${node.capsule.name}: Circular subflow reference ${cycle.join(' → ')}`,
+          nodeId: node.id
+        });
+      }
+    }
+
+    // Config keys must be declared by the capsule or name an input port
+    const configSchema = node.capsule.configSchema;
+    if (configSchema && node.config) {
+      const known = [...Object.keys(configSchema), ...node.capsule.inputs.map((p: any) => p.id)];
+
+      for (const key of Object.keys(node.config)) {
+        if (known.includes(key)) continue;
+
+        const suggestion = known
+          .map(candidate => ({ candidate, distance: editDistance(key, candidate) }))
+          .filter(({ distance }) => distance <= 2)
+          .sort((a, b) => a.distance - b.distance)[0];
+
+        report({
+          code: 'unknown-config-key',
+          severity: 'warning',
+          message: `Node ${node.capsule.name}: Unknown config key "${key}"`,
+          nodeId: node.id,
+          path: `config.${key}`,
+          hint: suggestion
+            ? `Did you mean "${suggestion.candidate}"?`
+            : `Known keys: ${known.join(', ') || 'none'}`
+        });
+      }
+    }
+  }
+
+  // Credentials belong in a secret provider, not in the flow file
+  for (const node of nodes) {
+    for (const { path, key, value } of walkConfig(node.config)) {
+      const declaredSecret = path.split('.').length === 1 && node.capsule.configSchema?.[key]?.secret;
+      const kind = detectInlineCredential(key, value) ??
+        (declaredSecret && typeof value === 'string' && value !== '' && !value.includes('{{')
+          ? 'a secret'
+          : undefined);
+
+      if (kind) {
+        report({
+          code: 'inline-secret',
+          severity: 'warning',
+          message: `Node ${node.capsule.name}: config.${path} holds ${kind} in plain text`,
+          nodeId: node.id,
+          path: `config.${path}`,
+          hint: 'Reference it with { "$secret": "NAME" } and pass a secret provider in the execution context'
+        });
       }
     }
   }
 
+  // Cycles never run; nodes downstream of them are unreachable
+  const edges = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  for (const conn of validConnections) {
+    edges.get(conn.fromNode)!.push(conn.toNode);
+  }
+
+  const cycles = findCycles(nodes.map(n => n.id), edges);
+  const inCycle = new Set(cycles.flat());
+
+  for (const cycle of cycles) {
+    report({
+      code: 'cycle',
+      severity: 'error',
+      message: `Circular dependency: ${cycle.join(' → ')}`,
+      nodeId: cycle[0],
+      hint: 'Remove one of the connections in the loop; use a map or subflow to repeat work'
+    });
+  }
+
+  const reachable = new Set<string>();
+  const pending = nodes
+    .map(n => n.id)
+    .filter(id => !validConnections.some(c => c.toNode === id));
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    pending.push(...edges.get(id)!.filter(next => !inCycle.has(next)));
+  }
+
+  for (const node of nodes) {
+    if (!reachable.has(node.id) && !inCycle.has(node.id)) {
+      report({
+        code: 'unreachable-node',
+        severity: 'warning',
+        message: `Node ${node.capsule.name}: Never runs because it depends on a cycle`,
+        nodeId: node.id
+      });
+    }
+  }
+
+  // Nodes with no connections at all in a multi-node flow
+  if (nodes.length > 1) {
+    for (const node of nodes) {
+      const connected = connections.some(c => c.fromNode === node.id || c.toNode === node.id);
+      const referenced =
+        findTemplateOutputReads(node).length > 0 ||
+        nodes.some(other => findTemplateOutputReads(other).some(read => read.nodeId === node.id));
+
+      if (!connected && !referenced) {
+        report({
+          code: 'disconnected-node',
+          severity: 'warning',
+          message: `Node ${node.capsule.name}: Not connected to any other node`,
+          nodeId: node.id,
+          hint: 'Connect the node or remove it'
+        });
+      }
+    }
+  }
+
+  // The results of side effects should be checked by something
+  const templateReads = nodes.flatMap(findTemplateOutputReads);
+  for (const node of nodes) {
+    if (!node.capsule.sideEffects) continue;
+
+    for (const output of node.capsule.outputs) {
+      const used =
+        connections.some(c => c.fromNode === node.id && c.fromPort === output.id) ||
+        templateReads.some(read => read.nodeId === node.id && (read.portId === output.id || read.portId === '*'));
+
+      if (!used) {
+        report({
+          code: 'unused-output',
+          severity: 'info',
+          message: `Node ${node.capsule.name}: Output "${output.name}" of a side-effecting capsule is not used`,
+          nodeId: node.id,
+          portId: output.id,
+          hint: 'Connect it to check the outcome of the side effect'
+        });
+      }
+    }
+  }
+
+  const rank: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+  return diagnostics
+    .map((diagnostic, order) => ({ diagnostic, order }))
+    .sort((a, b) => rank[a.diagnostic.severity] - rank[b.diagnostic.severity] || a.order - b.order)
+    .map(({ diagnostic }) => diagnostic);
+}
+
+/**
+ * Validate a complete flow for type safety
+ *
+ * @param nodes - Array of nodes in the flow
+ * @param connections - Array of connections in the flow
+ * @param options - Execution values used to check config templates
+ * @returns Validation result, error messages and every diagnostic found
+ */
+export function validateFlow(
+  nodes: any[],
+  connections: any[],
+  options: ValidateFlowOptions = {}
+): { valid: boolean; errors: string[]; diagnostics: FlowDiagnostic[] } {
+  const diagnostics = diagnoseFlow(nodes, connections, options);
+  const errors = diagnostics.filter(d => d.severity === 'error').map(d => d.message);
+
   return {
     valid: errors.length === 0,
-    errors
+    errors,
+    diagnostics
   };
 }